@@ -13,6 +13,8 @@ import { EventsModule } from './events/events.module';
 import { LimitOrderModule } from './limit-order/limit-order.module';
 import { LiquidationModule } from './liquidation/liquidation.module';
 import { StatsModule } from './stats/stats.module';
+import { InsuranceFundModule } from './insurance-fund/insurance-fund.module';
+import { LiquidityModule } from './liquidity/liquidity.module';
 
 @Module({
   imports: [
@@ -34,6 +36,8 @@ import { StatsModule } from './stats/stats.module';
     LimitOrderModule,
     LiquidationModule,
     StatsModule,
+    InsuranceFundModule,
+    LiquidityModule,
   ],
 })
 export class AppModule {}
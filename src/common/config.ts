@@ -1,3 +1,5 @@
+import { PriceSourceName } from 'src/types/price.types';
+
 const ADMIN_WALLETS = {
   DEVNET: '2WopEVinpz5MrjJcQppuvE2C5m14iPE5XNR8a2wsCs4C',
   MAINNET: '2WopEVinpz5MrjJcQppuvE2C5m14iPE5XNR8a2wsCs4C',
@@ -21,7 +23,34 @@ export const SOLANA_CONFIG = {
 
 export const LIQUIDITY_SCALAR = '0.5';
 export const TRADING_FEE = '0.001'; // 0.1% trading fee
+export const MAINTENANCE_MARGIN_RATE = '0.05'; // 5% of notional, default per market
+export const LIQUIDATION_FEE_RATE = '0.01'; // 1% of notional, default per market
+export const LIQUIDATION_HEALTH_BUFFER = '0.1'; // Partial liquidations restore equity to 110% of the requirement
+export const INSURANCE_FUND_FEE_SHARE = '0.1'; // 10% of trading, funding and borrowing fees
+export const INSURANCE_FUND_LIQUIDATION_SHARE = '0.5'; // 50% of liquidation penalties
+export const LP_FEE_SHARE = '0.7'; // 70% of the fees left after the insurance fund's share go to the liquidity pool
 export const SECONDS_IN_DAY = '86400';
+// Daily borrowing rate by pool utilization, see calculateBorrowingRate
+export const BORROWING_RATE_BASE = '0.0001'; // At 0% utilization
+export const BORROWING_RATE_SLOPE = '0.0004'; // Added by the kink
+export const BORROWING_RATE_JUMP_SLOPE = '0.01'; // Added from the kink to 100%
+export const DEFAULT_MAX_UTILIZATION_RATE = '0.8'; // Kink when the pool doesn't set one
+export const FEE_SETTLEMENT_INTERVAL_MS =
+  Number(process.env.FEE_SETTLEMENT_INTERVAL_MS) || 3_600_000; // Funding and borrowing fees are settled hourly
+export const FUNDING_INTERVAL_MS = 3_600_000; // Premium samples are averaged over the last hour
+
+// Max age of a price before it is rejected, per feed
+export const PRICE_FEED_MAX_STALENESS_MS: Record<string, number> = {
+  SOL: 60_000,
+  USDC: 300_000,
+};
+export const DEFAULT_PRICE_FEED_MAX_STALENESS_MS = 180_000; // DAO curves, refreshed every minute
+export const PRICE_DEVIATION_CIRCUIT_BREAKER = '0.2'; // Pause a market when its oracle jumps 20% in one update
+export const MARK_PRICE_PREMIUM_EMA_ALPHA = '0.05'; // Weight of each 10s premium sample, ~3 min window
+// Markets without their own source list price from their curve alone
+export const DEFAULT_PRICE_SOURCES = [PriceSourceName.DAOS_FUN_CURVE];
+// Fixed prices served by the MOCK source, by ticker
+export const MOCK_PRICES: Record<string, number> = {};
 
 // Caps All Names
 export const LISTED_DAOS = {
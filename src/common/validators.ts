@@ -1,3 +1,5 @@
+import { BadRequestException } from '@nestjs/common';
+
 export const validatePublicKey = (publicKey: string) => {
   // Check if public key matches Solana public key format (base58 string of length 32-44)
   const base58Regex = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
@@ -5,3 +7,18 @@ export const validatePublicKey = (publicKey: string) => {
     throw new Error('Invalid Public Key');
   }
 };
+
+/**
+ * Validates the optional ISO start and end times of a history query
+ */
+export const validateTimeRange = (startTime?: string, endTime?: string) => {
+  const isInvalid = (time?: string) =>
+    time !== undefined && isNaN(new Date(time).getTime());
+
+  if (isInvalid(startTime) || isInvalid(endTime)) {
+    throw new BadRequestException('Invalid start or end time');
+  }
+  if (startTime && endTime && new Date(startTime) > new Date(endTime)) {
+    throw new BadRequestException('Start time must be before end time');
+  }
+};
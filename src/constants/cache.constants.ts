@@ -4,6 +4,7 @@ export const CACHE_TTL = {
   TRADE_HISTORY: 5 * 60 * 1000, // 5 minutes
   MARKET_INFO: 60 * 60 * 1000, // 1 hour
   FUNDING_HISTORY: 5 * 60 * 1000, // 5 minutes
+  BORROWING_HISTORY: 5 * 60 * 1000, // 5 minutes
   MARKET_STATS: 60 * 1000, // 1 minute
 };
 
@@ -14,6 +15,7 @@ export const CACHE_KEY = {
   TRADE_HISTORY: 'trade:history',
   USER_TRADES: 'user:trades',
   MARKET: 'market',
+  ALL_MARKETS: 'markets:all',
   MARKET_STATS: 'market:stats',
   FUNDING_HISTORY: 'funding:history',
   BORROWING_HISTORY: 'borrowing:history',
@@ -28,11 +30,28 @@ export const getCacheKey = {
   userTrades: (userId: string) => `${CACHE_KEY.USER_TRADES}:${userId}`,
   market: (marketId: string) => `${CACHE_KEY.MARKET}:${marketId}`,
   marketBySymbol: (symbol: string) => `${CACHE_KEY.MARKET}:symbol:${symbol}`,
+  marketStats: (marketId: string) => `${CACHE_KEY.MARKET_STATS}:${marketId}`,
   fundingHistory: (marketId: string, startTime?: string, endTime?: string) =>
     `${CACHE_KEY.FUNDING_HISTORY}:${marketId}:${startTime}:${endTime}`,
+  positionFunding: (positionId: string, startTime?: string, endTime?: string) =>
+    `${CACHE_KEY.FUNDING_HISTORY}:position:${positionId}:${startTime}:${endTime}`,
   borrowingHistory: (
     positionId: string,
     startTime?: string,
     endTime?: string,
   ) => `${CACHE_KEY.BORROWING_HISTORY}:${positionId}:${startTime}:${endTime}`,
 };
+
+// Every key a market is cached under, or just the market list without one
+export const getMarketCacheKeys = (market?: {
+  id: string;
+  symbol: string;
+}): string[] =>
+  market
+    ? [
+        CACHE_KEY.ALL_MARKETS,
+        getCacheKey.market(market.id),
+        getCacheKey.marketBySymbol(market.symbol),
+        getCacheKey.marketStats(market.id),
+      ]
+    : [CACHE_KEY.ALL_MARKETS];
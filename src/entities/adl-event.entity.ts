@@ -0,0 +1,14 @@
+import { OrderSide } from '../types/trade.types';
+
+export interface AdlEvent {
+  id: string;
+  marketId: string;
+  positionId: string; // Position that was deleveraged
+  userId: string;
+  liquidatedPositionId: string; // Bankrupt position it was matched against
+  side: OrderSide;
+  size: string;
+  price: string; // Bankruptcy price of the liquidated position
+  realizedPnl: string;
+  createdAt: Date;
+}
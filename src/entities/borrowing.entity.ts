@@ -0,0 +1,18 @@
+import { TokenType } from '../types/token.types';
+
+/**
+ * Borrowing fee charged to a position for one accrual period
+ */
+export interface BorrowingPayment {
+  id: string;
+  positionId: string;
+  userId: string;
+  marketId: string;
+  size: string; // Position size in USD the fee accrued on
+  borrowingRate: string; // Daily rate the period was charged at
+  periodSeconds: string;
+  feeUsd: string;
+  feeToken: string;
+  token: TokenType;
+  createdAt: Date;
+}
@@ -0,0 +1,34 @@
+import { OrderSide } from '../types/trade.types';
+import { TokenType } from '../types/token.types';
+
+/**
+ * A market's funding state as of one `updateFundingRates` tick
+ */
+export interface FundingRateSnapshot {
+  id: string;
+  marketId: string;
+  fundingRate: string; // Daily, positive when longs pay
+  fundingRateVelocity: string;
+  premiumIndex: string;
+  longOpenInterest: string;
+  shortOpenInterest: string;
+  createdAt: Date;
+}
+
+/**
+ * Funding charged to or paid out to a position for one accrual period
+ */
+export interface FundingPayment {
+  id: string;
+  positionId: string;
+  userId: string;
+  marketId: string;
+  side: OrderSide;
+  size: string; // Position size in USD the funding accrued on
+  fundingRate: string;
+  periodSeconds: string;
+  feeUsd: string; // Positive when the position paid, negative when it received
+  feeToken: string;
+  token: TokenType;
+  createdAt: Date;
+}
@@ -0,0 +1,26 @@
+import { TokenType } from 'src/types/token.types';
+
+export enum InsuranceFundEventType {
+  TRADING_FEE = 'TRADING_FEE', // Inflow: share of trading, funding and borrowing fees
+  LIQUIDATION_PENALTY = 'LIQUIDATION_PENALTY', // Inflow: share of liquidation penalties
+  BAD_DEBT = 'BAD_DEBT', // Outflow: deficit of a position liquidated past zero equity
+}
+
+export interface InsuranceFund {
+  id: string;
+  balanceSol: string;
+  balanceUsdc: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface InsuranceFundEvent {
+  id: string;
+  type: InsuranceFundEventType;
+  token: TokenType;
+  amount: string; // Positive for inflows, negative for outflows
+  balanceAfter: string;
+  marketId: string;
+  positionId?: string;
+  createdAt: Date;
+}
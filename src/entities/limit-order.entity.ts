@@ -1,4 +1,9 @@
-import { OrderSide, OrderStatus } from '../types/trade.types';
+import {
+  OrderSide,
+  OrderStatus,
+  OrderType,
+  TimeInForce,
+} from '../types/trade.types';
 import { TokenType } from 'src/types/token.types';
 
 export interface LimitOrder {
@@ -6,6 +11,7 @@ export interface LimitOrder {
   userId: string;
   marketId: string;
   side: OrderSide;
+  type: OrderType;
   size: string;
   price: string;
   leverage: string;
@@ -13,6 +19,11 @@ export interface LimitOrder {
   symbol: string;
   requiredMargin: string;
   status: OrderStatus;
+  timeInForce: TimeInForce;
+  expiresAt?: Date;
+  reduceOnly?: boolean;
+  positionId?: string;
+  groupId?: string;
   createdAt: Date;
   updatedAt: Date;
 }
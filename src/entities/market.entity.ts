@@ -1,6 +1,7 @@
 import { Position } from './position.entity';
 import { LimitOrder } from './limit-order.entity';
-import { MarketStatus } from '../types/market.types';
+import { MarketStatus, RiskTier } from '../types/market.types';
+import { PriceSourceName } from '../types/price.types';
 
 export interface Market {
   id: string;
@@ -9,12 +10,23 @@ export interface Market {
   poolAddress: string;
   maxLeverage: string;
   maintainanceMargin: string;
+  liquidationFee: string;
+  riskTiers?: RiskTier[]; // Leverage and maintenance margin by notional, ascending
+  priceSources?: PriceSourceName[]; // Oracle sources aggregated into the live price
+  minPriceSources?: number; // Fresh sources needed to price the market
   borrowingRate: string;
+  cumulativeBorrowingIndex?: string; // Borrowing fee per USD of size since listing
+  borrowingIndexUpdatedAt?: number;
   fundingRate: string;
   fundingRateVelocity: string;
+  premiumIndex?: string; // Average vAMM premium over the funding interval at the last update
+  cumulativeFundingIndex?: string; // Funding paid per USD of long size since listing, received by shorts
   lastUpdatedTimestamp: number;
   longOpenInterest: string;
   shortOpenInterest: string;
+  maxLongOpenInterest?: string; // Unset means uncapped
+  maxShortOpenInterest?: string;
+  maxSkew?: string; // Max |long - short| open interest
   virtualBaseReserve: string;
   virtualQuoteReserve: string;
   virtualK: string;
@@ -25,6 +37,7 @@ export interface Market {
   maxFundingRate: string;
   maxFundingVelocity: string;
   status: MarketStatus;
+  settlementPrice?: string; // Final price open positions were settled at when CLOSED
   positions: Position[];
   openLimitOrders: LimitOrder[];
   availableLiquidity: string;
@@ -0,0 +1,30 @@
+import { LimitOrder } from './limit-order.entity';
+
+export enum OrderGroupStatus {
+  PENDING = 'PENDING', // Entry order resting, legs waiting to activate
+  ACTIVE = 'ACTIVE', // Entry filled, take-profit / stop-loss legs resting
+  COMPLETED = 'COMPLETED', // A leg filled and cancelled the other
+  CANCELLED = 'CANCELLED',
+}
+
+/**
+ * @dev A bracket order: an entry order with attached take-profit and stop-loss legs.
+ * The legs are reduce-only orders that only activate once the entry fills,
+ * and filling one leg cancels the other (one-cancels-other).
+ */
+export interface OrderGroup {
+  id: string;
+  userId: string;
+  marketId: string;
+  entryOrderId: string;
+  positionId?: string;
+  status: OrderGroupStatus;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface OrderGroupWithOrders extends OrderGroup {
+  entryOrder: LimitOrder;
+  takeProfitOrder?: LimitOrder;
+  stopLossOrder?: LimitOrder;
+}
@@ -19,6 +19,7 @@ export interface Position {
   stopLossPrice?: string;
   takeProfitPrice?: string;
   trailingStopDistance?: string;
+  trailingStopWatermark?: string;
   margin: string;
   token: TokenType;
   lockedMarginSOL: string;
@@ -31,6 +32,29 @@ export interface Position {
   accumulatedBorrowingFee: string;
   lastBorrowingFeeUpdate: Date;
   lastFundingUpdate: Date;
+  fundingIndex?: string; // Market's cumulative funding index when fees were last settled
+  borrowingIndex?: string; // Market's cumulative borrowing index when fees were last settled
   createdAt: Date;
   updatedAt: Date;
 }
+
+/**
+ * @dev Live metrics of an open position at the current mark price. USD values.
+ */
+export interface PositionMetrics {
+  markPrice: string;
+  unrealizedPnl: string;
+  accumulatedFundingUsd: string;
+  accumulatedBorrowingFeeUsd: string;
+  collateralValue: string;
+  equity: string;
+  maintenanceMargin: string;
+  marginRatio: string; // equity / maintenance margin, liquidatable below 1
+  liquidationPrice: string;
+  distanceToLiquidation: string; // Fraction of the mark price, negative once past it
+  adlQuintile: number; // 5 is first in the auto-deleveraging queue, 0 not in it
+}
+
+export interface PositionView extends Position {
+  metrics?: PositionMetrics; // Only set for open positions with a mark price
+}
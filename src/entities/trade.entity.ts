@@ -1,4 +1,4 @@
-import { OrderSide } from '../types/trade.types';
+import { OrderSide, TradeType } from '../types/trade.types';
 
 export interface Trade {
   id: string;
@@ -11,5 +11,6 @@ export interface Trade {
   leverage: string;
   realizedPnl?: string;
   fee: string;
+  type?: TradeType; // Unset for regular trades
   createdAt: Date;
 }
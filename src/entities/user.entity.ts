@@ -1,5 +1,12 @@
+export enum PositionMode {
+  HEDGE = 'HEDGE', // Every order opens a new position
+  NETTING = 'NETTING', // Orders merge into the open position on the same market and side
+  ONE_WAY = 'ONE_WAY', // NETTING, plus opposite-side orders reduce / flip the open position
+}
+
 export interface User {
   publicKey: string;
+  positionMode?: PositionMode;
   createdAt: Date;
   updatedAt: Date;
 }
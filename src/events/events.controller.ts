@@ -22,6 +22,23 @@ export class EventsController {
     );
   }
 
+  @Sse('orders')
+  orders(@Query('userId') userId: string): Observable<MessageEvent> {
+    return this.eventsService.getOrdersEventObservable(userId).pipe(
+      map(
+        (update) =>
+          ({
+            data: {
+              userId: update.userId,
+              orderId: update.orderId,
+              status: update.status,
+              timestamp: update.timestamp,
+            },
+          }) as MessageEvent,
+      ),
+    );
+  }
+
   @Sse('balances')
   balances(@Query('userId') userId: string): Observable<MessageEvent> {
     return this.eventsService.getBalancesEventObservable(userId).pipe(
@@ -36,4 +53,25 @@ export class EventsController {
       ),
     );
   }
+
+  @Sse('adl')
+  adl(@Query('userId') userId: string): Observable<MessageEvent> {
+    return this.eventsService
+      .getAdlEventObservable(userId)
+      .pipe(map((event) => ({ data: event }) as MessageEvent));
+  }
+
+  @Sse('funding')
+  funding(@Query('userId') userId: string): Observable<MessageEvent> {
+    return this.eventsService
+      .getFundingEventObservable(userId)
+      .pipe(map((payment) => ({ data: payment }) as MessageEvent));
+  }
+
+  @Sse('borrowing')
+  borrowing(@Query('userId') userId: string): Observable<MessageEvent> {
+    return this.eventsService
+      .getBorrowingEventObservable(userId)
+      .pipe(map((payment) => ({ data: payment }) as MessageEvent));
+  }
 }
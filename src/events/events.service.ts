@@ -1,29 +1,21 @@
 import { Injectable } from '@nestjs/common';
 import { Subject } from 'rxjs';
 import { filter } from 'rxjs/operators';
-import { TokenType } from 'src/types/token.types';
-
-interface BorrowingFeeEvent {
-  userId: string;
-  positionId: string;
-  marketId: string;
-  feeUsd: string;
-  feeToken: string;
-  token: TokenType;
-}
+import { OrderStatus } from 'src/types/trade.types';
+import { AdlEvent } from 'src/entities/adl-event.entity';
+import { FundingPayment } from 'src/entities/funding.entity';
+import { BorrowingPayment } from 'src/entities/borrowing.entity';
 
 interface PositionUpdate {
   userId: string;
   timestamp: string;
 }
 
-interface FundingFeeEvent {
+interface OrderUpdate {
   userId: string;
-  positionId: string;
-  marketId: string;
-  feeUsd: string;
-  feeToken: string;
-  token: TokenType;
+  orderId: string;
+  status: OrderStatus;
+  timestamp: string;
 }
 
 @Injectable()
@@ -33,6 +25,10 @@ export class EventsService {
     userId: string;
     timestamp: string;
   }>();
+  private ordersSubject = new Subject<OrderUpdate>();
+  private adlSubject = new Subject<AdlEvent>();
+  private fundingSubject = new Subject<FundingPayment>();
+  private borrowingSubject = new Subject<BorrowingPayment>();
 
   getPositionsEventObservable(userId: string) {
     return this.positionsSubject
@@ -46,6 +42,30 @@ export class EventsService {
       .pipe(filter((update) => update.userId === userId));
   }
 
+  getOrdersEventObservable(userId: string) {
+    return this.ordersSubject
+      .asObservable()
+      .pipe(filter((update) => update.userId === userId));
+  }
+
+  getAdlEventObservable(userId: string) {
+    return this.adlSubject
+      .asObservable()
+      .pipe(filter((event) => event.userId === userId));
+  }
+
+  getFundingEventObservable(userId: string) {
+    return this.fundingSubject
+      .asObservable()
+      .pipe(filter((payment) => payment.userId === userId));
+  }
+
+  getBorrowingEventObservable(userId: string) {
+    return this.borrowingSubject
+      .asObservable()
+      .pipe(filter((payment) => payment.userId === userId));
+  }
+
   emitPositionsUpdate(userId: string) {
     this.positionsSubject.next({
       userId,
@@ -53,8 +73,17 @@ export class EventsService {
     });
   }
 
-  emitBorrowingFeeCharged(event: BorrowingFeeEvent): void {
-    // In production, this would emit the event to a message queue or websocket
+  emitOrderUpdate(userId: string, orderId: string, status: OrderStatus) {
+    this.ordersSubject.next({
+      userId,
+      orderId,
+      status,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  emitBorrowingFeeCharged(payment: BorrowingPayment): void {
+    this.borrowingSubject.next(payment);
   }
 
   emitBalancesUpdate(userId: string) {
@@ -64,7 +93,11 @@ export class EventsService {
     });
   }
 
-  emitFundingFeeCharged(event: FundingFeeEvent): void {
-    // In production, this would emit the event to a message queue or websocket
+  emitFundingFeeCharged(payment: FundingPayment): void {
+    this.fundingSubject.next(payment);
+  }
+
+  emitAdl(event: AdlEvent) {
+    this.adlSubject.next(event);
   }
 }
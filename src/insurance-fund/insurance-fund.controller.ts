@@ -0,0 +1,27 @@
+import { Controller, Get, Query } from '@nestjs/common';
+import { InsuranceFundService } from './insurance-fund.service';
+import {
+  InsuranceFund,
+  InsuranceFundEvent,
+} from '../entities/insurance-fund.entity';
+
+@Controller('insurance-fund')
+export class InsuranceFundController {
+  constructor(private readonly insuranceFundService: InsuranceFundService) {}
+
+  @Get()
+  async getFund(): Promise<InsuranceFund> {
+    return this.insuranceFundService.getFund();
+  }
+
+  @Get('history')
+  async getHistory(
+    @Query('limit') limit?: number,
+    @Query('offset') offset?: number,
+  ): Promise<InsuranceFundEvent[]> {
+    return this.insuranceFundService.getHistory(
+      limit ? Number(limit) : undefined,
+      offset ? Number(offset) : undefined,
+    );
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { InsuranceFundController } from './insurance-fund.controller';
+import { InsuranceFundService } from './insurance-fund.service';
+import { DatabaseModule } from '../database/database.module';
+
+@Module({
+  imports: [DatabaseModule],
+  controllers: [InsuranceFundController],
+  providers: [InsuranceFundService],
+  exports: [InsuranceFundService],
+})
+export class InsuranceFundModule {}
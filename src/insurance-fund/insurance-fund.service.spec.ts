@@ -0,0 +1,172 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { InsuranceFundService } from './insurance-fund.service';
+import { DatabaseService } from '../database/database.service';
+import {
+  InsuranceFund,
+  InsuranceFundEventType,
+} from '../entities/insurance-fund.entity';
+import { TokenType } from '../types/token.types';
+
+describe('InsuranceFundService', () => {
+  let service: InsuranceFundService;
+  let databaseService: jest.Mocked<DatabaseService>;
+
+  const mockFund: InsuranceFund = {
+    id: 'fund-1',
+    balanceSol: '10',
+    balanceUsdc: '1000',
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+    updatedAt: new Date('2024-01-01T00:00:00Z'),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        InsuranceFundService,
+        {
+          provide: DatabaseService,
+          useValue: {
+            select: jest.fn(),
+            insert: jest.fn(),
+            update: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<InsuranceFundService>(InsuranceFundService);
+    databaseService = module.get(DatabaseService);
+
+    databaseService.select.mockResolvedValue([mockFund]);
+    databaseService.insert.mockResolvedValue([]);
+    databaseService.update.mockImplementation(async (table, data) => [
+      { ...mockFund, ...data },
+    ]);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getFund', () => {
+    it('should return the existing fund', async () => {
+      expect(await service.getFund()).toEqual(mockFund);
+      expect(databaseService.insert).not.toHaveBeenCalled();
+    });
+
+    it('should create an empty fund on first use', async () => {
+      databaseService.select.mockResolvedValueOnce([]);
+      databaseService.insert.mockResolvedValueOnce([
+        { ...mockFund, balanceSol: '0', balanceUsdc: '0' },
+      ]);
+
+      const fund = await service.getFund();
+
+      expect(fund.balanceUsdc).toBe('0');
+      expect(databaseService.insert).toHaveBeenCalledWith(
+        'insurance_fund',
+        expect.objectContaining({ balanceSol: '0', balanceUsdc: '0' }),
+      );
+    });
+  });
+
+  describe('deposit', () => {
+    it('should credit the balance and record the inflow', async () => {
+      await service.deposit(
+        InsuranceFundEventType.LIQUIDATION_PENALTY,
+        TokenType.USDC,
+        '25',
+        'market-1',
+        'position-1',
+      );
+
+      expect(databaseService.update).toHaveBeenCalledWith(
+        'insurance_fund',
+        expect.objectContaining({ balanceUsdc: '1025' }),
+        { id: 'fund-1' },
+      );
+      expect(databaseService.insert).toHaveBeenCalledWith(
+        'insurance_fund_events',
+        expect.objectContaining({
+          type: InsuranceFundEventType.LIQUIDATION_PENALTY,
+          token: TokenType.USDC,
+          amount: '25',
+          balanceAfter: '1025',
+          marketId: 'market-1',
+          positionId: 'position-1',
+        }),
+      );
+    });
+
+    it('should ignore zero amounts', async () => {
+      await service.deposit(
+        InsuranceFundEventType.TRADING_FEE,
+        TokenType.SOL,
+        '0',
+        'market-1',
+      );
+
+      expect(databaseService.update).not.toHaveBeenCalled();
+      expect(databaseService.insert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('coverBadDebt', () => {
+    it("should debit the position's token first", async () => {
+      const uncovered = await service.coverBadDebt(
+        '400',
+        TokenType.USDC,
+        100,
+        'market-1',
+        'position-1',
+      );
+
+      expect(uncovered).toBe('0');
+      expect(databaseService.update).toHaveBeenCalledTimes(1);
+      expect(databaseService.insert).toHaveBeenCalledWith(
+        'insurance_fund_events',
+        expect.objectContaining({
+          type: InsuranceFundEventType.BAD_DEBT,
+          token: TokenType.USDC,
+          amount: '-400',
+          balanceAfter: '600',
+        }),
+      );
+    });
+
+    it('should fall back to the other token at the SOL price', async () => {
+      const uncovered = await service.coverBadDebt(
+        '1500',
+        TokenType.USDC,
+        100,
+        'market-1',
+        'position-1',
+      );
+
+      expect(uncovered).toBe('0');
+      expect(databaseService.update).toHaveBeenCalledWith(
+        'insurance_fund',
+        expect.objectContaining({ balanceUsdc: '0' }),
+        { id: 'fund-1' },
+      );
+      expect(databaseService.update).toHaveBeenCalledWith(
+        'insurance_fund',
+        expect.objectContaining({ balanceSol: '5' }),
+        { id: 'fund-1' },
+      );
+    });
+
+    it('should return the deficit the fund cannot cover', async () => {
+      const uncovered = await service.coverBadDebt(
+        '2500',
+        TokenType.SOL,
+        100,
+        'market-1',
+        'position-1',
+      );
+
+      // 10 SOL * $100 + 1000 USDC
+      expect(uncovered).toBe('500');
+    });
+  });
+});
@@ -0,0 +1,161 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { DatabaseService } from '../database/database.service';
+import {
+  InsuranceFund,
+  InsuranceFundEvent,
+  InsuranceFundEventType,
+} from '../entities/insurance-fund.entity';
+import { TokenType } from 'src/types/token.types';
+import { add, compare, divide, min, multiply, subtract } from 'src/lib/math';
+
+@Injectable()
+export class InsuranceFundService {
+  private readonly logger = new Logger(InsuranceFundService.name);
+
+  constructor(private readonly databaseService: DatabaseService) {}
+
+  /**
+   * @dev The fund is a single row, created empty on first use.
+   */
+  async getFund(): Promise<InsuranceFund> {
+    const [fund] = await this.databaseService.select<InsuranceFund>(
+      'insurance_fund',
+      { limit: 1 },
+    );
+
+    if (fund) {
+      return fund;
+    }
+
+    const [createdFund] = await this.databaseService.insert<InsuranceFund>(
+      'insurance_fund',
+      {
+        id: crypto.randomUUID(),
+        balanceSol: '0',
+        balanceUsdc: '0',
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      },
+    );
+
+    return createdFund;
+  }
+
+  async getHistory(
+    limit: number = 50,
+    offset: number = 0,
+  ): Promise<InsuranceFundEvent[]> {
+    return this.databaseService.select<InsuranceFundEvent>(
+      'insurance_fund_events',
+      {
+        order: { column: 'createdAt', ascending: false },
+        limit,
+        offset,
+      },
+    );
+  }
+
+  async deposit(
+    type: InsuranceFundEventType,
+    token: TokenType,
+    amount: string,
+    marketId: string,
+    positionId?: string,
+  ): Promise<void> {
+    if (compare(amount, '0') <= 0) return;
+
+    const fund = await this.getFund();
+
+    await this.updateBalance(fund, token, amount, type, marketId, positionId);
+  }
+
+  /**
+   * @dev Draws from the position's token first, then from the other token at the SOL price.
+   * @returns The part of the deficit in USD the fund could not cover
+   */
+  async coverBadDebt(
+    deficitUsd: string,
+    preferredToken: TokenType,
+    solPrice: number,
+    marketId: string,
+    positionId: string,
+  ): Promise<string> {
+    let fund = await this.getFund();
+    let remainingUsd = deficitUsd;
+
+    const tokens =
+      preferredToken === TokenType.SOL
+        ? [TokenType.SOL, TokenType.USDC]
+        : [TokenType.USDC, TokenType.SOL];
+
+    for (const token of tokens) {
+      if (compare(remainingUsd, '0') <= 0) break;
+
+      const tokenPrice = token === TokenType.SOL ? solPrice : 1;
+      const balance =
+        token === TokenType.SOL ? fund.balanceSol : fund.balanceUsdc;
+      const amount = min(divide(remainingUsd, tokenPrice), balance);
+
+      if (compare(amount, '0') <= 0) continue;
+
+      fund = await this.updateBalance(
+        fund,
+        token,
+        multiply(amount, '-1'),
+        InsuranceFundEventType.BAD_DEBT,
+        marketId,
+        positionId,
+      );
+      remainingUsd = subtract(remainingUsd, multiply(amount, tokenPrice));
+    }
+
+    if (compare(remainingUsd, '0') > 0) {
+      this.logger.error(
+        `Insurance fund could not cover ${remainingUsd} USD of bad debt from position ${positionId}`,
+      );
+    }
+
+    return compare(remainingUsd, '0') > 0 ? remainingUsd : '0';
+  }
+
+  private async updateBalance(
+    fund: InsuranceFund,
+    token: TokenType,
+    amount: string,
+    type: InsuranceFundEventType,
+    marketId: string,
+    positionId?: string,
+  ): Promise<InsuranceFund> {
+    const balanceAfter = add(
+      token === TokenType.SOL ? fund.balanceSol : fund.balanceUsdc,
+      amount,
+    );
+
+    const [updatedFund] = await this.databaseService.update<InsuranceFund>(
+      'insurance_fund',
+      {
+        ...(token === TokenType.SOL
+          ? { balanceSol: balanceAfter }
+          : { balanceUsdc: balanceAfter }),
+        updatedAt: new Date(),
+      },
+      { id: fund.id },
+    );
+
+    await this.databaseService.insert<InsuranceFundEvent>(
+      'insurance_fund_events',
+      {
+        id: crypto.randomUUID(),
+        type,
+        token,
+        amount,
+        balanceAfter,
+        marketId,
+        positionId,
+        createdAt: new Date(),
+      },
+    );
+
+    return updatedFund;
+  }
+}
@@ -0,0 +1,54 @@
+import { compare, divide, multiply } from './math';
+import { calculatePnlUSD } from './calculatePnlUsd';
+import { Position } from 'src/entities/position.entity';
+
+/**
+ * ADL priority of a position: pnl as a fraction of margin times leverage.
+ * Only profitable positions are in the queue, all others score 0.
+ */
+export const calculateAdlScore = (
+  position: Position,
+  markPrice: string,
+): string => {
+  const pnl = calculatePnlUSD(position, markPrice);
+
+  if (compare(pnl, '0') <= 0 || compare(position.margin, '0') <= 0) {
+    return '0';
+  }
+
+  return multiply(divide(pnl, position.margin), position.leverage);
+};
+
+/**
+ * Profitable positions in the order they are deleveraged, highest score first.
+ */
+export const rankAdlQueue = <T extends Position>(
+  positions: T[],
+  markPrice: string,
+): T[] =>
+  positions
+    .map((position) => ({
+      position,
+      score: calculateAdlScore(position, markPrice),
+    }))
+    .filter(({ score }) => compare(score, '0') > 0)
+    .sort((a, b) => compare(b.score, a.score))
+    .map(({ position }) => position);
+
+/**
+ * ADL quintile per position id, 5 being first in line and 0 not in the queue.
+ * Positions should share a market and side.
+ */
+export const calculateAdlQuintiles = (
+  positions: Position[],
+  markPrice: string,
+): Map<string, number> => {
+  const queue = rankAdlQueue(positions, markPrice);
+  const quintiles = new Map(positions.map((position) => [position.id, 0]));
+
+  queue.forEach((position, index) => {
+    quintiles.set(position.id, 5 - Math.floor((index * 5) / queue.length));
+  });
+
+  return quintiles;
+};
@@ -0,0 +1,83 @@
+import { add, clamp, compare, divide, multiply, subtract } from './math';
+import { Market } from 'src/entities/market.entity';
+import {
+  SECONDS_IN_DAY,
+  BORROWING_RATE_BASE,
+  BORROWING_RATE_JUMP_SLOPE,
+  BORROWING_RATE_SLOPE,
+} from 'src/common/config';
+
+/**
+ * Share of the market's liquidity its open interest takes up, capped at 1
+ */
+export const calculateUtilization = (
+  market: Pick<
+    Market,
+    'longOpenInterest' | 'shortOpenInterest' | 'availableLiquidity'
+  >,
+): string => {
+  const totalOpenInterest = add(
+    market.longOpenInterest,
+    market.shortOpenInterest,
+  );
+
+  if (compare(totalOpenInterest, '0') <= 0) {
+    return '0';
+  }
+  if (compare(market.availableLiquidity, '0') <= 0) {
+    return '1';
+  }
+
+  return clamp(divide(totalOpenInterest, market.availableLiquidity), '0', '1');
+};
+
+/**
+ * Daily borrowing rate at `utilization`. The rate rises along the base slope
+ * up to the kink, then along the much steeper jump slope to full utilization.
+ *
+ * rate = base + slope * u / kink                                   (u <= kink)
+ * rate = base + slope + jumpSlope * (u - kink) / (1 - kink)        (u > kink)
+ */
+export const calculateBorrowingRate = (
+  utilization: string,
+  kink: string,
+): string => {
+  if (compare(utilization, kink) <= 0) {
+    return add(
+      BORROWING_RATE_BASE,
+      multiply(BORROWING_RATE_SLOPE, divide(utilization, kink)),
+    );
+  }
+
+  return add(
+    BORROWING_RATE_BASE,
+    BORROWING_RATE_SLOPE,
+    multiply(
+      BORROWING_RATE_JUMP_SLOPE,
+      divide(subtract(utilization, kink), subtract('1', kink)),
+    ),
+  );
+};
+
+/**
+ * The market's cumulative borrowing index at `now`, accrued at the current rate
+ * since the last update. Markets that never had one start accruing from their
+ * first update.
+ */
+export const getCurrentBorrowingIndex = (
+  market: Pick<
+    Market,
+    'cumulativeBorrowingIndex' | 'borrowingRate' | 'borrowingIndexUpdatedAt'
+  >,
+  now: number,
+): string => {
+  const updatedAt = market.borrowingIndexUpdatedAt ?? now;
+
+  return add(
+    market.cumulativeBorrowingIndex || '0',
+    multiply(
+      market.borrowingRate || '0',
+      divide(divide(Math.max(now - updatedAt, 0), '1000'), SECONDS_IN_DAY),
+    ),
+  );
+};
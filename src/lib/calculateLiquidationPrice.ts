@@ -0,0 +1,95 @@
+import { add, divide, multiply, subtract } from './math';
+import { Position } from 'src/entities/position.entity';
+import { MarketRiskParams } from 'src/types/market.types';
+import { TokenType } from 'src/types/token.types';
+
+type LiquidationPosition = Pick<
+  Position,
+  | 'side'
+  | 'size'
+  | 'entryPrice'
+  | 'token'
+  | 'lockedMarginSOL'
+  | 'lockedMarginUSDC'
+  | 'accumulatedFunding'
+  | 'accumulatedBorrowingFee'
+>;
+
+/**
+ * Collateral backing the position in USD, net of the funding and borrowing
+ * fees accumulated in the position's margin token.
+ */
+export const calculateCollateralValue = (
+  position: LiquidationPosition,
+  solPrice: string | number,
+): string => {
+  const lockedValue = add(
+    multiply(position.lockedMarginSOL || '0', solPrice),
+    position.lockedMarginUSDC || '0',
+  );
+
+  const accumulatedFees = add(
+    position.accumulatedFunding || '0',
+    position.accumulatedBorrowingFee || '0',
+  );
+  const accumulatedFeesUsd =
+    position.token === TokenType.SOL
+      ? multiply(accumulatedFees, solPrice)
+      : accumulatedFees;
+
+  return subtract(lockedValue, accumulatedFeesUsd);
+};
+
+/**
+ * Equity a position must keep to stay open: the maintenance margin plus the
+ * liquidation fee, both charged on notional size.
+ */
+export const calculateMaintenanceRequirement = (
+  position: Pick<Position, 'size'>,
+  riskParams: MarketRiskParams,
+): string =>
+  multiply(
+    position.size,
+    add(riskParams.maintenanceMarginRate, riskParams.liquidationFeeRate),
+  );
+
+/**
+ * Price at which equity (collateral + pnl) falls to the maintenance
+ * requirement. The liquidation engine liquidates at exactly this price.
+ */
+export const calculateLiquidationPrice = (
+  position: LiquidationPosition,
+  solPrice: string | number,
+  riskParams: MarketRiskParams,
+): string => {
+  const collateralValue = calculateCollateralValue(position, solPrice);
+  const requirement = calculateMaintenanceRequirement(position, riskParams);
+
+  // pnl = size * (price - entry) / entry for longs, mirrored for shorts.
+  // Solving collateral + pnl = requirement for price:
+  // long:  price = entry * (1 + (requirement - collateral) / size)
+  // short: price = entry * (1 - (requirement - collateral) / size)
+  const priceMove = divide(
+    subtract(requirement, collateralValue),
+    position.size,
+  );
+
+  if (position.side === 'LONG') {
+    return multiply(position.entryPrice, add('1', priceMove));
+  } else {
+    return multiply(position.entryPrice, subtract('1', priceMove));
+  }
+};
+
+/**
+ * Price at which equity reaches zero. Positions liquidated past it leave bad debt.
+ */
+export const calculateBankruptcyPrice = (
+  position: LiquidationPosition,
+  solPrice: string | number,
+): string =>
+  calculateLiquidationPrice(position, solPrice, {
+    initialMarginRate: '0',
+    maintenanceMarginRate: '0',
+    liquidationFeeRate: '0',
+  });
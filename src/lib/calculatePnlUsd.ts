@@ -2,7 +2,7 @@ import { divide, multiply, subtract } from './math';
 import { Position } from 'src/entities/position.entity';
 
 export const calculatePnlUSD = (
-  position: Position,
+  position: Pick<Position, 'side' | 'entryPrice' | 'size'>,
   currentPrice: string,
 ): string => {
   const priceDelta =
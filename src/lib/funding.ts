@@ -0,0 +1,128 @@
+import { add, avg, clamp, compare, divide, multiply, subtract } from './math';
+import { Market } from 'src/entities/market.entity';
+import { SECONDS_IN_DAY } from 'src/common/config';
+
+type FundingIndexFields = Pick<
+  Market,
+  'cumulativeFundingIndex' | 'fundingRate' | 'lastUpdatedTimestamp'
+>;
+
+type FundingFields = Pick<
+  Market,
+  | 'fundingRate'
+  | 'fundingRateVelocity'
+  | 'premiumIndex'
+  | 'lastUpdatedTimestamp'
+  | 'maxFundingRate'
+  | 'maxFundingVelocity'
+>;
+
+export interface PremiumSample {
+  premium: string;
+  timestamp: number;
+}
+
+// Funding rates are daily and velocities are the change in that rate per day.
+// Positive rates are paid by longs to shorts, negative ones by shorts to longs.
+
+/**
+ * How far the vAMM trades from the oracle, as a fraction of the oracle price
+ */
+export const calculatePremium = (
+  vammPrice: string,
+  oraclePrice: string,
+): string => divide(subtract(vammPrice, oraclePrice), oraclePrice);
+
+/**
+ * The average premium of the samples taken in the funding interval before `now`
+ * @returns undefined when no sample falls in the interval
+ */
+export const calculatePremiumIndex = (
+  samples: PremiumSample[],
+  now: number,
+  intervalMs: number,
+): string | undefined => {
+  const inInterval = samples.filter(
+    (sample) => sample.timestamp > now - intervalMs && sample.timestamp <= now,
+  );
+
+  return inInterval.length
+    ? avg(...inInterval.map((sample) => sample.premium))
+    : undefined;
+};
+
+/**
+ * Velocity from the open interest skew: the share of open interest the heavy
+ * side is ahead by, times the max velocity. Long-heavy markets drift the rate up.
+ */
+export const calculateFundingVelocity = (
+  market: Pick<
+    Market,
+    'longOpenInterest' | 'shortOpenInterest' | 'maxFundingVelocity'
+  >,
+): string => {
+  const totalOpenInterest = add(
+    market.longOpenInterest,
+    market.shortOpenInterest,
+  );
+  if (compare(totalOpenInterest, '0') <= 0) {
+    return '0';
+  }
+
+  const skewRatio = divide(
+    subtract(market.longOpenInterest, market.shortOpenInterest),
+    totalOpenInterest,
+  );
+
+  return multiply(skewRatio, market.maxFundingVelocity);
+};
+
+/**
+ * The funding rate at `now`: the premium index plus a drift component.
+ *
+ * The drift is what the last rate carried on top of the premium index it was
+ * computed with, moved by the last velocity for the days since. As the last
+ * rate was clamped, the drift never winds up past the max rate.
+ *
+ * rate = clamp(premiumIndex + (lastRate - lastPremiumIndex) + velocity * days, ±maxFundingRate)
+ */
+export const calculateFundingRate = (
+  market: FundingFields,
+  premiumIndex: string,
+  now: number,
+): string => {
+  const daysElapsed = divide(
+    divide(Math.max(now - market.lastUpdatedTimestamp, 0), '1000'),
+    SECONDS_IN_DAY,
+  );
+
+  const drift = add(
+    subtract(market.fundingRate, market.premiumIndex || '0'),
+    multiply(market.fundingRateVelocity, daysElapsed),
+  );
+
+  return clamp(
+    add(premiumIndex, drift),
+    multiply(market.maxFundingRate, '-1'),
+    market.maxFundingRate,
+  );
+};
+
+/**
+ * The market's cumulative funding index at `now`, accrued at the current rate
+ * since the last update
+ */
+export const getCurrentFundingIndex = (
+  market: FundingIndexFields,
+  now: number,
+): string => {
+  const updatedAt = market.lastUpdatedTimestamp ?? now;
+
+  return add(
+    market.cumulativeFundingIndex || '0',
+    multiply(
+      market.fundingRate || '0',
+      divide(divide(Math.max(now - updatedAt, 0), '1000'), SECONDS_IN_DAY),
+    ),
+  );
+};
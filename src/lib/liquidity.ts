@@ -0,0 +1,89 @@
+import { add, compare, divide, max, multiply, subtract } from './math';
+import { LiquidityPool } from 'src/entities/liquidity-pool.entity';
+import { Position } from 'src/entities/position.entity';
+import { DEFAULT_MAX_UTILIZATION_RATE } from 'src/common/config';
+import { calculatePnlUSD } from './calculatePnlUsd';
+
+// The pool holds USDC and is the counterparty to every trader. Its NAV is its
+// total liquidity, which fee income and realized trader PnL flow into, less
+// what traders stand to win on their open positions. LP tokens are minted and
+// burnt at NAV / supply, so deposits and withdrawals never move the price.
+
+/**
+ * What the open positions are worth to their traders, a gain for them is a
+ * loss for the pool. A trader cannot lose more than the position's margin, any
+ * deficit beyond it is bad debt for the insurance fund.
+ */
+export const calculateTraderPnl = (
+  positions: Pick<
+    Position,
+    'marketId' | 'side' | 'size' | 'entryPrice' | 'margin'
+  >[],
+  markPrices: Map<string, string>,
+): string =>
+  add(
+    ...positions.map((position) =>
+      max(
+        calculatePnlUSD(position, markPrices.get(position.marketId)),
+        multiply(position.margin, '-1'),
+      ),
+    ),
+  );
+
+/**
+ * USDC value of one LP token, 1 for a pool without LP tokens
+ */
+export const calculateLpTokenPrice = (
+  nav: string,
+  lpTokenSupply: string,
+): string =>
+  compare(lpTokenSupply, '0') > 0 ? max(divide(nav, lpTokenSupply), '0') : '1';
+
+export const calculateLpTokensOut = (
+  nav: string,
+  lpTokenSupply: string,
+  amount: string,
+): string => divide(amount, calculateLpTokenPrice(nav, lpTokenSupply));
+
+export const calculateWithdrawalAmount = (
+  nav: string,
+  lpTokenSupply: string,
+  lpTokens: string,
+): string => multiply(lpTokens, calculateLpTokenPrice(nav, lpTokenSupply));
+
+/**
+ * The pool's max utilization rate, or the default when it is unset or not in (0, 1]
+ */
+export const getMaxUtilizationRate = (
+  pool?: Pick<LiquidityPool, 'maxUtilizationRate'>,
+): string => {
+  const rate = pool?.maxUtilizationRate;
+
+  return rate && compare(rate, '0') > 0 && compare(rate, '1') <= 0
+    ? rate
+    : DEFAULT_MAX_UTILIZATION_RATE;
+};
+
+/**
+ * The open interest the pool can back across all markets
+ */
+export const calculateMaxOpenInterest = (
+  pool?: Pick<LiquidityPool, 'totalLiquidity' | 'maxUtilizationRate'>,
+): string =>
+  max(multiply(pool?.totalLiquidity || '0', getMaxUtilizationRate(pool)), '0');
+
+/**
+ * Liquidity LPs can take out before the open interest it backs would use more
+ * than the max utilization rate of what is left
+ */
+export const calculateWithdrawableLiquidity = (
+  pool: Pick<LiquidityPool, 'totalLiquidity' | 'maxUtilizationRate'>,
+  totalOpenInterest: string,
+): string =>
+  max(
+    subtract(
+      pool.totalLiquidity,
+      divide(totalOpenInterest, getMaxUtilizationRate(pool)),
+    ),
+    '0',
+  );
@@ -0,0 +1,58 @@
+import { compare, divide } from './math';
+import { Market } from 'src/entities/market.entity';
+import { MarketRiskParams, RiskTier } from 'src/types/market.types';
+import {
+  LIQUIDATION_FEE_RATE,
+  MAINTENANCE_MARGIN_RATE,
+} from 'src/common/config';
+
+type MarketRiskFields = Pick<
+  Market,
+  'maxLeverage' | 'maintainanceMargin' | 'liquidationFee' | 'riskTiers'
+>;
+
+/**
+ * The market's risk tiers by ascending notional. Markets without a tier table
+ * have a single unbounded tier at their max leverage and maintenance margin.
+ */
+export const getRiskTiers = (market: MarketRiskFields): RiskTier[] =>
+  market.riskTiers?.length
+    ? market.riskTiers
+    : [
+        {
+          maxLeverage: market.maxLeverage,
+          maintenanceMarginRate:
+            market.maintainanceMargin || MAINTENANCE_MARGIN_RATE,
+        },
+      ];
+
+/**
+ * @returns The tier a position of `notional` USD falls in, or undefined when it
+ * is larger than the last tier allows
+ */
+export const findRiskTier = (
+  market: MarketRiskFields,
+  notional: string,
+): RiskTier | undefined =>
+  getRiskTiers(market).find(
+    (tier) => !tier.maxNotional || compare(notional, tier.maxNotional) <= 0,
+  );
+
+/**
+ * Resolves the risk parameters of a market for a position of `notional` USD,
+ * falling back to the protocol defaults for markets created before they were
+ * configurable. Positions past the last tier get the last tier's parameters.
+ */
+export const getMarketRiskParams = (
+  market: MarketRiskFields,
+  notional = '0',
+): MarketRiskParams => {
+  const tiers = getRiskTiers(market);
+  const tier = findRiskTier(market, notional) || tiers[tiers.length - 1];
+
+  return {
+    initialMarginRate: divide('1', tier.maxLeverage),
+    maintenanceMarginRate: tier.maintenanceMarginRate,
+    liquidationFeeRate: market.liquidationFee || LIQUIDATION_FEE_RATE,
+  };
+};
@@ -0,0 +1,26 @@
+import { MarketStatus } from 'src/types/market.types';
+
+// Markets created before statuses were enforced have none and trade as ACTIVE
+
+/**
+ * New positions, increases and resting entry orders.
+ */
+export const isOpeningAllowed = (status?: MarketStatus): boolean =>
+  !status || status === MarketStatus.ACTIVE;
+
+/**
+ * Closes and reductions of existing positions, including SL/TP triggers.
+ */
+export const isReducingAllowed = (status?: MarketStatus): boolean =>
+  status !== MarketStatus.CLOSED;
+
+/**
+ * Fills of resting limit orders. PAUSED freezes the whole book, REDUCE_ONLY
+ * only fills reduce-only orders.
+ */
+export const isLimitFillAllowed = (
+  status: MarketStatus | undefined,
+  reduceOnly: boolean,
+): boolean =>
+  isOpeningAllowed(status) ||
+  (status === MarketStatus.REDUCE_ONLY && reduceOnly);
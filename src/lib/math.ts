@@ -173,6 +173,24 @@ export function avg(...numbers: (number | string)[]): string {
   return divide(sum, numbers.length);
 }
 
+/**
+ * Calculates the median of one or more numbers, averaging the middle two of
+ * an even count
+ */
+export function median(...numbers: (number | string)[]): string {
+  if (numbers.length === 0) {
+    throw new Error('Cannot calculate median of empty array');
+  }
+  const sorted = numbers
+    .map((number) => new Decimal(number))
+    .sort((a, b) => a.comparedTo(b));
+  const middle = Math.floor(sorted.length / 2);
+
+  return sorted.length % 2
+    ? sorted[middle].toString()
+    : avg(sorted[middle - 1].toString(), sorted[middle].toString());
+}
+
 /**
  * Clamps a number between min and max values (inclusive)
  */
@@ -0,0 +1,159 @@
+import { abs, add, compare, max, min, subtract } from './math';
+import { Market } from 'src/entities/market.entity';
+import { OrderSide } from 'src/types/trade.types';
+
+type OpenInterestLimits = Pick<
+  Market,
+  | 'longOpenInterest'
+  | 'shortOpenInterest'
+  | 'maxLongOpenInterest'
+  | 'maxShortOpenInterest'
+  | 'maxSkew'
+>;
+
+/**
+ * Open interest the liquidity pool backs across all markets
+ */
+export interface PoolCapacity {
+  totalOpenInterest: string;
+  maxOpenInterest: string; // Pool liquidity * max utilization rate
+}
+
+// Unset caps (undefined or null in the database) leave that limit off
+
+/**
+ * How much open interest can still be added on each side before the pool's
+ * capacity, the side's cap or the skew cap is hit.
+ */
+export const calculateRemainingCapacity = (
+  market: OpenInterestLimits,
+  pool: PoolCapacity,
+): { long: string; short: string } => {
+  const remainingLiquidity = subtract(
+    pool.maxOpenInterest,
+    pool.totalOpenInterest,
+  );
+
+  const remainingOnSide = (
+    sideOpenInterest: string,
+    otherOpenInterest: string,
+    sideCap?: string,
+  ): string => {
+    let remaining = remainingLiquidity;
+
+    if (sideCap) {
+      remaining = min(remaining, subtract(sideCap, sideOpenInterest));
+    }
+    if (market.maxSkew) {
+      // Adding to the lighter side first closes the gap, then opens it the other way
+      const skew = subtract(sideOpenInterest, otherOpenInterest);
+      remaining = min(remaining, subtract(market.maxSkew, skew));
+    }
+
+    return max(remaining, '0');
+  };
+
+  return {
+    long: remainingOnSide(
+      market.longOpenInterest,
+      market.shortOpenInterest,
+      market.maxLongOpenInterest,
+    ),
+    short: remainingOnSide(
+      market.shortOpenInterest,
+      market.longOpenInterest,
+      market.maxShortOpenInterest,
+    ),
+  };
+};
+
+/**
+ * Checks the open interest a trade leaves behind against the market's caps.
+ * A cap only rejects trades that move further past it, so closes and trades
+ * that rebalance a market already over its caps still go through.
+ * @returns Why the trade is rejected, or undefined when it fits
+ */
+export const findOpenInterestCapBreach = (
+  market: OpenInterestLimits,
+  pool: PoolCapacity,
+  longOpenInterestAfter: string,
+  shortOpenInterestAfter: string,
+): string | undefined => {
+  const breaches = (after: string, before: string, cap: string) =>
+    compare(after, cap) > 0 && compare(after, before) > 0;
+
+  // The pool backs every market, so its capacity caps the sum of their open interest
+  const poolOpenInterestAfter = add(
+    subtract(
+      pool.totalOpenInterest,
+      add(market.longOpenInterest, market.shortOpenInterest),
+    ),
+    longOpenInterestAfter,
+    shortOpenInterestAfter,
+  );
+  if (
+    breaches(
+      poolOpenInterestAfter,
+      pool.totalOpenInterest,
+      pool.maxOpenInterest,
+    )
+  ) {
+    return 'Insufficient liquidity';
+  }
+
+  if (
+    market.maxLongOpenInterest &&
+    breaches(
+      longOpenInterestAfter,
+      market.longOpenInterest,
+      market.maxLongOpenInterest,
+    )
+  ) {
+    return `Max long open interest of ${market.maxLongOpenInterest} exceeded`;
+  }
+
+  if (
+    market.maxShortOpenInterest &&
+    breaches(
+      shortOpenInterestAfter,
+      market.shortOpenInterest,
+      market.maxShortOpenInterest,
+    )
+  ) {
+    return `Max short open interest of ${market.maxShortOpenInterest} exceeded`;
+  }
+
+  if (market.maxSkew) {
+    const skewBefore = abs(
+      subtract(market.longOpenInterest, market.shortOpenInterest),
+    );
+    const skewAfter = abs(
+      subtract(longOpenInterestAfter, shortOpenInterestAfter),
+    );
+    if (breaches(skewAfter, skewBefore, market.maxSkew)) {
+      return `Max open interest skew of ${market.maxSkew} exceeded`;
+    }
+  }
+
+  return undefined;
+};
+
+/**
+ * Open interest on each side after opening `openSize` on `side`, having first
+ * closed `closeSize` of an opposing position.
+ */
+export const applyOpenInterestChange = (
+  market: Pick<Market, 'longOpenInterest' | 'shortOpenInterest'>,
+  side: OrderSide,
+  openSize: string,
+  closeSize = '0',
+): { long: string; short: string } =>
+  side === OrderSide.LONG
+    ? {
+        long: add(market.longOpenInterest, openSize),
+        short: subtract(market.shortOpenInterest, closeSize),
+      }
+    : {
+        long: subtract(market.longOpenInterest, closeSize),
+        short: add(market.shortOpenInterest, openSize),
+      };
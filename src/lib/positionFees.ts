@@ -0,0 +1,86 @@
+import { add, divide, multiply, subtract } from './math';
+import { getCurrentFundingIndex } from './funding';
+import { getCurrentBorrowingIndex } from './borrowing';
+import { Market } from 'src/entities/market.entity';
+import { Position } from 'src/entities/position.entity';
+import { OrderSide } from 'src/types/trade.types';
+
+type FeeIndexFields = Pick<
+  Market,
+  | 'cumulativeFundingIndex'
+  | 'fundingRate'
+  | 'lastUpdatedTimestamp'
+  | 'cumulativeBorrowingIndex'
+  | 'borrowingRate'
+  | 'borrowingIndexUpdatedAt'
+>;
+
+export interface PendingFees {
+  fundingUsd: string; // Positive when the position pays, negative when it receives
+  borrowingUsd: string;
+  fundingIndex: string; // Market indices the fees were accrued up to
+  borrowingIndex: string;
+}
+
+/**
+ * The market's current indices, for snapshotting on a position that starts
+ * accruing now
+ */
+export const getCurrentFeeIndices = (
+  market: FeeIndexFields,
+  now: number,
+): Pick<Position, 'fundingIndex' | 'borrowingIndex'> => ({
+  fundingIndex: getCurrentFundingIndex(market, now),
+  borrowingIndex: getCurrentBorrowingIndex(market, now),
+});
+
+/**
+ * Funding and borrowing a position has accrued since its index snapshots.
+ * Positions without snapshots have nothing pending until their first settlement.
+ */
+export const calculatePendingFees = (
+  position: Pick<Position, 'side' | 'size' | 'fundingIndex' | 'borrowingIndex'>,
+  market: FeeIndexFields,
+  now: number,
+): PendingFees => {
+  const { fundingIndex, borrowingIndex } = getCurrentFeeIndices(market, now);
+
+  // Longs pay the funding index, shorts receive it
+  const longFundingUsd = multiply(
+    position.size,
+    subtract(fundingIndex, position.fundingIndex ?? fundingIndex),
+  );
+
+  return {
+    fundingUsd:
+      position.side === OrderSide.LONG
+        ? longFundingUsd
+        : multiply(longFundingUsd, '-1'),
+    borrowingUsd: multiply(
+      position.size,
+      subtract(borrowingIndex, position.borrowingIndex ?? borrowingIndex),
+    ),
+    fundingIndex,
+    borrowingIndex,
+  };
+};
+
+/**
+ * The position with its pending fees added to the accumulated ones, converted
+ * to its collateral token at `tokenPrice`
+ */
+export const applyPendingFees = <T extends Position>(
+  position: T,
+  pendingFees: PendingFees,
+  tokenPrice: string | number,
+): T => ({
+  ...position,
+  accumulatedFunding: add(
+    position.accumulatedFunding || '0',
+    divide(pendingFees.fundingUsd, tokenPrice),
+  ),
+  accumulatedBorrowingFee: add(
+    position.accumulatedBorrowingFee || '0',
+    divide(pendingFees.borrowingUsd, tokenPrice),
+  ),
+});
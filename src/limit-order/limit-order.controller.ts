@@ -36,6 +36,12 @@ export class LimitOrderController {
     return this.limitOrderService.getUserLimitOrders(publicKey);
   }
 
+  @Get('groups')
+  async getUserOrderGroups(@Query('publicKey') publicKey: string) {
+    validatePublicKey(publicKey);
+    return this.limitOrderService.getUserOrderGroups(publicKey);
+  }
+
   @Get('market/:marketId')
   async getMarketLimitOrders(@Param('marketId') marketId: string) {
     return this.limitOrderService.getMarketLimitOrders(marketId);
@@ -7,6 +7,7 @@ import { MarginModule } from '../margin/margin.module';
 import { LimitOrderController } from './limit-order.controller';
 import { EventsModule } from 'src/events/events.module';
 import { DatabaseModule } from 'src/database/database.module';
+import { LiquidityModule } from 'src/liquidity/liquidity.module';
 
 @Module({
   imports: [
@@ -16,6 +17,7 @@ import { DatabaseModule } from 'src/database/database.module';
     PriceModule,
     MarginModule,
     EventsModule,
+    LiquidityModule,
   ],
   controllers: [LimitOrderController],
   providers: [LimitOrderService],
@@ -5,16 +5,21 @@ import { TradeService } from '../trade/trade.service';
 import { MarginService } from '../margin/margin.service';
 import { EventsService } from '../events/events.service';
 import { DatabaseService } from '../database/database.service';
+import { LiquidityService } from '../liquidity/liquidity.service';
 import { LimitOrder } from '../entities/limit-order.entity';
 import { Market } from '../entities/market.entity';
+import { MarketStatus } from '../types/market.types';
 import {
   LimitOrderRequest,
   OrderSide,
   OrderStatus,
   OrderType,
+  TimeInForce,
 } from '../types/trade.types';
 import { TokenType } from '../types/token.types';
 import { MarginBalance } from '../entities/margin-balance.entity';
+import { Position, PositionStatus } from '../entities/position.entity';
+import { OrderGroup, OrderGroupStatus } from '../entities/order-group.entity';
 
 describe('LimitOrderService', () => {
   let service: LimitOrderService;
@@ -27,7 +32,7 @@ describe('LimitOrderService', () => {
   const mockMarket: Market = {
     id: 'market-1',
     symbol: 'BTC-USD',
-    maxLeverage: '10',
+    maxLeverage: '20',
     longOpenInterest: '1000',
     shortOpenInterest: '800',
     availableLiquidity: '10000',
@@ -39,12 +44,14 @@ describe('LimitOrderService', () => {
     marketId: 'market-1',
     symbol: 'BTC-USD',
     side: OrderSide.LONG,
+    type: OrderType.LIMIT,
     size: '1000',
     price: '50000',
     leverage: '5',
     token: TokenType.USDC,
     requiredMargin: '200',
     status: OrderStatus.OPEN,
+    timeInForce: TimeInForce.GTC,
     createdAt: new Date(),
     updatedAt: new Date(),
   };
@@ -68,26 +75,32 @@ describe('LimitOrderService', () => {
         {
           provide: PriceService,
           useValue: {
-            getCurrentPrice: jest.fn(),
+            getMarkPrice: jest.fn(),
             getSolPrice: jest.fn(),
           },
         },
         {
           provide: TradeService,
           useValue: {
-            openPosition: jest.fn(),
+            createPosition: jest.fn(),
+            validateOrderPrice: jest.fn(),
+            closePosition: jest.fn(),
+            getPosition: jest.fn(),
           },
         },
         {
           provide: MarginService,
           useValue: {
             getBalance: jest.fn(),
+            reserveOrderMargin: jest.fn(),
+            releaseOrderMargin: jest.fn(),
           },
         },
         {
           provide: EventsService,
           useValue: {
             emitPositionsUpdate: jest.fn(),
+            emitOrderUpdate: jest.fn(),
           },
         },
         {
@@ -106,6 +119,16 @@ describe('LimitOrderService', () => {
             update: jest.fn(),
           },
         },
+        {
+          provide: LiquidityService,
+          useValue: {
+            // The mock market's 1800 is all the open interest the pool backs
+            getOpenInterestCapacity: jest.fn().mockResolvedValue({
+              totalOpenInterest: '1800',
+              maxOpenInterest: '10000',
+            }),
+          },
+        },
       ],
     }).compile();
 
@@ -118,7 +141,12 @@ describe('LimitOrderService', () => {
 
     // Default mock implementations
     databaseService.insert.mockResolvedValue([mockLimitOrder]);
+    databaseService.update.mockResolvedValue([]);
     marginService.getBalance.mockResolvedValue(mockMarginBalance);
+    marginService.reserveOrderMargin.mockResolvedValue(undefined);
+    marginService.releaseOrderMargin.mockResolvedValue(
+      mockLimitOrder.requiredMargin,
+    );
     priceService.getSolPrice.mockResolvedValue(100);
   });
 
@@ -167,6 +195,32 @@ describe('LimitOrderService', () => {
       );
     });
 
+    it('should reject entry orders above the leverage of their tier', async () => {
+      databaseService.select.mockImplementation((table) => {
+        if (table === 'markets') {
+          return Promise.resolve([
+            {
+              ...mockMarket,
+              riskTiers: [
+                {
+                  maxNotional: '500',
+                  maxLeverage: '20',
+                  maintenanceMarginRate: '0.02',
+                },
+                { maxLeverage: '4', maintenanceMarginRate: '0.1' },
+              ],
+            },
+          ]);
+        }
+        return Promise.resolve([]);
+      });
+
+      await expect(service.createLimitOrder(mockOrderRequest)).rejects.toThrow(
+        'Max leverage for a 1000 order is 4x',
+      );
+      expect(marginService.reserveOrderMargin).not.toHaveBeenCalled();
+    });
+
     it('should throw error for invalid parameters', async () => {
       const invalidRequest = { ...mockOrderRequest, leverage: '0' };
       await expect(service.createLimitOrder(invalidRequest)).rejects.toThrow(
@@ -174,6 +228,58 @@ describe('LimitOrderService', () => {
       );
     });
 
+    it('should reserve the required margin against the order id', async () => {
+      await service.createLimitOrder(mockOrderRequest);
+      expect(marginService.reserveOrderMargin).toHaveBeenCalledWith(
+        'user-1',
+        TokenType.USDC,
+        '200',
+        mockLimitOrder.id,
+      );
+    });
+
+    it('should cancel the order when margin cannot be reserved', async () => {
+      marginService.reserveOrderMargin.mockRejectedValueOnce(
+        new Error('Insufficient available margin'),
+      );
+      await expect(service.createLimitOrder(mockOrderRequest)).rejects.toThrow(
+        'Insufficient balance for limit order',
+      );
+      expect(databaseService.update).toHaveBeenCalledWith(
+        'limit_orders',
+        { status: OrderStatus.CANCELLED },
+        { id: mockLimitOrder.id },
+      );
+    });
+
+    it('should persist the order type', async () => {
+      await service.createLimitOrder({
+        ...mockOrderRequest,
+        type: OrderType.STOP_MARKET,
+      });
+      expect(databaseService.insert).toHaveBeenCalledWith(
+        'limit_orders',
+        expect.objectContaining({ type: OrderType.STOP_MARKET }),
+      );
+    });
+
+    it('should default to a LIMIT order when no type is given', async () => {
+      await service.createLimitOrder({ ...mockOrderRequest, type: undefined });
+      expect(databaseService.insert).toHaveBeenCalledWith(
+        'limit_orders',
+        expect.objectContaining({ type: OrderType.LIMIT }),
+      );
+    });
+
+    it('should reject MARKET orders', async () => {
+      await expect(
+        service.createLimitOrder({
+          ...mockOrderRequest,
+          type: OrderType.MARKET,
+        }),
+      ).rejects.toThrow('Market orders must be placed through /trade');
+    });
+
     it('should throw error for insufficient balance', async () => {
       marginService.getBalance.mockResolvedValueOnce({
         ...mockMarginBalance,
@@ -185,6 +291,713 @@ describe('LimitOrderService', () => {
     });
   });
 
+  describe('time in force', () => {
+    const mockOrderRequest: LimitOrderRequest = {
+      id: 'order-1',
+      userId: 'user-1',
+      marketId: 'market-1',
+      side: OrderSide.LONG,
+      size: '1000',
+      price: '50000',
+      leverage: '5',
+      token: TokenType.USDC,
+      type: OrderType.LIMIT,
+    };
+
+    beforeEach(() => {
+      databaseService.select.mockImplementation((table) => {
+        if (table === 'markets') {
+          return Promise.resolve([mockMarket]);
+        }
+        return Promise.resolve([]);
+      });
+      databaseService.update.mockImplementation(async (table, data) => [
+        { ...mockLimitOrder, ...data } as LimitOrder,
+      ]);
+    });
+
+    it('should default to GTC', async () => {
+      await service.createLimitOrder(mockOrderRequest);
+      expect(databaseService.insert).toHaveBeenCalledWith(
+        'limit_orders',
+        expect.objectContaining({
+          timeInForce: TimeInForce.GTC,
+          expiresAt: undefined,
+        }),
+      );
+    });
+
+    it('should persist expiresAt for GTD orders', async () => {
+      const expiresAt = new Date(Date.now() + 60 * 60 * 1000);
+      await service.createLimitOrder({
+        ...mockOrderRequest,
+        timeInForce: TimeInForce.GTD,
+        expiresAt,
+      });
+      expect(databaseService.insert).toHaveBeenCalledWith(
+        'limit_orders',
+        expect.objectContaining({ timeInForce: TimeInForce.GTD, expiresAt }),
+      );
+    });
+
+    it('should reject GTD orders without an expiry', async () => {
+      await expect(
+        service.createLimitOrder({
+          ...mockOrderRequest,
+          timeInForce: TimeInForce.GTD,
+        }),
+      ).rejects.toThrow('GTD orders require a valid expiresAt');
+    });
+
+    it('should reject GTD orders expiring in the past', async () => {
+      await expect(
+        service.createLimitOrder({
+          ...mockOrderRequest,
+          timeInForce: TimeInForce.GTD,
+          expiresAt: new Date(Date.now() - 1000),
+        }),
+      ).rejects.toThrow('expiresAt must be in the future');
+    });
+
+    it('should reject expiresAt on non-GTD orders', async () => {
+      await expect(
+        service.createLimitOrder({
+          ...mockOrderRequest,
+          expiresAt: new Date(Date.now() + 1000),
+        }),
+      ).rejects.toThrow('expiresAt is only valid for GTD orders');
+    });
+
+    it('should expire an IOC order that is not immediately triggered', async () => {
+      databaseService.insert.mockResolvedValueOnce([
+        { ...mockLimitOrder, timeInForce: TimeInForce.IOC },
+      ]);
+      priceService.getMarkPrice.mockResolvedValue('51000');
+
+      const result = await service.createLimitOrder({
+        ...mockOrderRequest,
+        timeInForce: TimeInForce.IOC,
+      });
+
+      expect(result.status).toBe(OrderStatus.EXPIRED);
+      expect(tradeService.createPosition).not.toHaveBeenCalled();
+      expect(marginService.releaseOrderMargin).toHaveBeenCalledWith(
+        'user-1',
+        TokenType.USDC,
+        'order-1',
+      );
+      expect(eventsService.emitOrderUpdate).toHaveBeenCalledWith(
+        'user-1',
+        'order-1',
+        OrderStatus.EXPIRED,
+      );
+    });
+
+    it('should report an IOC order cancelled during execution as cancelled', async () => {
+      const cancelledOrder = {
+        ...mockLimitOrder,
+        timeInForce: TimeInForce.IOC,
+        status: OrderStatus.CANCELLED,
+      };
+      databaseService.select.mockImplementation((table) =>
+        Promise.resolve(table === 'markets' ? [mockMarket] : [cancelledOrder]),
+      );
+      databaseService.insert.mockResolvedValueOnce([
+        { ...mockLimitOrder, timeInForce: TimeInForce.IOC },
+      ]);
+      // The order is no longer open, so expiring it matches no row
+      databaseService.update.mockImplementation(async (table, data) =>
+        (data as Partial<LimitOrder>).status === OrderStatus.EXPIRED
+          ? []
+          : [{ ...mockLimitOrder, ...data } as LimitOrder],
+      );
+      // Enough margin to place the order, but not at execution
+      marginService.getBalance
+        .mockResolvedValueOnce(mockMarginBalance)
+        .mockResolvedValueOnce({
+          ...mockMarginBalance,
+          availableBalance: '10',
+        });
+      priceService.getMarkPrice.mockResolvedValue('50000');
+
+      const result = await service.createLimitOrder({
+        ...mockOrderRequest,
+        timeInForce: TimeInForce.IOC,
+      });
+
+      expect(result.status).toBe(OrderStatus.CANCELLED);
+      expect(eventsService.emitOrderUpdate).not.toHaveBeenCalledWith(
+        'user-1',
+        'order-1',
+        OrderStatus.EXPIRED,
+      );
+    });
+
+    it('should fill an IOC order up to the remaining liquidity', async () => {
+      databaseService.insert.mockResolvedValueOnce([
+        {
+          ...mockLimitOrder,
+          size: '10000',
+          leverage: '20',
+          requiredMargin: '500',
+          timeInForce: TimeInForce.IOC,
+        },
+      ]);
+      priceService.getMarkPrice.mockResolvedValue('50000');
+
+      const result = await service.createLimitOrder({
+        ...mockOrderRequest,
+        size: '10000',
+        leverage: '20',
+        timeInForce: TimeInForce.IOC,
+      });
+
+      // The pool backs 10000 of open interest and 1800 of it is used, 8200 fillable
+      expect(tradeService.createPosition).toHaveBeenCalledWith(
+        expect.objectContaining({ size: '8200' }),
+      );
+      expect(result.status).toBe(OrderStatus.FILLED);
+      expect(databaseService.update).toHaveBeenCalledWith(
+        'limit_orders',
+        { size: '8200' },
+        { id: 'order-1' },
+      );
+    });
+
+    it('should cap an IOC fill at the remaining capacity on its side', async () => {
+      // Long cap 1500 - 1000 = 500, skew cap 800 - (1000 - 800) = 600
+      databaseService.select.mockImplementation((table) => {
+        if (table === 'markets') {
+          return Promise.resolve([
+            { ...mockMarket, maxLongOpenInterest: '1500', maxSkew: '800' },
+          ]);
+        }
+        return Promise.resolve([]);
+      });
+      databaseService.insert.mockResolvedValueOnce([
+        { ...mockLimitOrder, timeInForce: TimeInForce.IOC },
+      ]);
+      priceService.getMarkPrice.mockResolvedValue('50000');
+
+      await service.createLimitOrder({
+        ...mockOrderRequest,
+        timeInForce: TimeInForce.IOC,
+      });
+
+      expect(tradeService.createPosition).toHaveBeenCalledWith(
+        expect.objectContaining({ size: '500' }),
+      );
+    });
+
+    it('should kill a FOK order that cannot be filled in full', async () => {
+      databaseService.insert.mockResolvedValueOnce([
+        {
+          ...mockLimitOrder,
+          size: '10000',
+          leverage: '20',
+          requiredMargin: '500',
+          timeInForce: TimeInForce.FOK,
+        },
+      ]);
+      priceService.getMarkPrice.mockResolvedValue('50000');
+
+      const result = await service.createLimitOrder({
+        ...mockOrderRequest,
+        size: '10000',
+        leverage: '20',
+        timeInForce: TimeInForce.FOK,
+      });
+
+      expect(tradeService.createPosition).not.toHaveBeenCalled();
+      expect(result.status).toBe(OrderStatus.EXPIRED);
+    });
+
+    it('should fill a FOK order in full when liquidity allows', async () => {
+      databaseService.insert.mockResolvedValueOnce([
+        { ...mockLimitOrder, timeInForce: TimeInForce.FOK },
+      ]);
+      priceService.getMarkPrice.mockResolvedValue('50000');
+
+      const result = await service.createLimitOrder({
+        ...mockOrderRequest,
+        timeInForce: TimeInForce.FOK,
+      });
+
+      expect(tradeService.createPosition).toHaveBeenCalledWith(
+        expect.objectContaining({ size: '1000' }),
+      );
+      expect(result.status).toBe(OrderStatus.FILLED);
+    });
+  });
+
+  describe('reduce-only orders', () => {
+    const mockPosition: Position = {
+      id: 'position-1',
+      userId: 'user-1',
+      marketId: 'market-1',
+      symbol: 'BTC-USD',
+      side: OrderSide.LONG,
+      size: '600',
+      entryPrice: '48000',
+      leverage: '5',
+      margin: '120',
+      token: TokenType.USDC,
+      lockedMarginSOL: '0',
+      lockedMarginUSDC: '120',
+      status: PositionStatus.OPEN,
+    } as Position;
+
+    const reduceOnlyRequest: LimitOrderRequest = {
+      id: 'order-2',
+      userId: 'user-1',
+      marketId: 'market-1',
+      side: OrderSide.SHORT,
+      size: '1000',
+      price: '55000',
+      leverage: '5',
+      token: TokenType.USDC,
+      type: OrderType.LIMIT,
+      reduceOnly: true,
+      positionId: 'position-1',
+    };
+
+    const reduceOnlyOrder: LimitOrder = {
+      ...mockLimitOrder,
+      id: 'order-2',
+      side: OrderSide.SHORT,
+      price: '55000',
+      requiredMargin: '0',
+      reduceOnly: true,
+      positionId: 'position-1',
+    };
+
+    beforeEach(() => {
+      tradeService.getPosition.mockResolvedValue(mockPosition);
+      databaseService.select.mockImplementation((table) => {
+        if (table === 'markets') {
+          return Promise.resolve([mockMarket]);
+        }
+        return Promise.resolve([]);
+      });
+    });
+
+    it('should create a reduce-only order without reserving margin', async () => {
+      await service.createLimitOrder(reduceOnlyRequest);
+
+      expect(databaseService.insert).toHaveBeenCalledWith(
+        'limit_orders',
+        expect.objectContaining({
+          reduceOnly: true,
+          positionId: 'position-1',
+          requiredMargin: '0',
+        }),
+      );
+      expect(marginService.reserveOrderMargin).not.toHaveBeenCalled();
+    });
+
+    it('should require a positionId', async () => {
+      await expect(
+        service.createLimitOrder({
+          ...reduceOnlyRequest,
+          positionId: undefined,
+        }),
+      ).rejects.toThrow('Reduce-only orders require a positionId');
+    });
+
+    it('should reject orders on the same side as the position', async () => {
+      await expect(
+        service.createLimitOrder({
+          ...reduceOnlyRequest,
+          side: OrderSide.LONG,
+        }),
+      ).rejects.toThrow(
+        'Reduce-only orders must be on the opposite side of the position',
+      );
+    });
+
+    it('should reject orders against a closed position', async () => {
+      tradeService.getPosition.mockResolvedValueOnce({
+        ...mockPosition,
+        status: PositionStatus.CLOSED,
+      });
+      await expect(service.createLimitOrder(reduceOnlyRequest)).rejects.toThrow(
+        'Position is not open',
+      );
+    });
+
+    it('should close the position capped at its remaining size when triggered', async () => {
+      databaseService.select.mockResolvedValueOnce([reduceOnlyOrder]);
+      priceService.getMarkPrice.mockResolvedValueOnce('55000');
+
+      await (service as any).checkAndExecuteLimitOrders();
+
+      expect(tradeService.closePosition).toHaveBeenCalledWith(
+        'position-1',
+        'user-1',
+        '600',
+        '100',
+      );
+      expect(tradeService.createPosition).not.toHaveBeenCalled();
+      expect(databaseService.update).toHaveBeenCalledWith(
+        'limit_orders',
+        { status: OrderStatus.FILLED },
+        { id: 'order-2' },
+      );
+    });
+
+    it('should cancel the order instead of executing when the position has closed', async () => {
+      databaseService.select.mockResolvedValueOnce([reduceOnlyOrder]);
+      priceService.getMarkPrice.mockResolvedValueOnce('55000');
+      tradeService.getPosition.mockResolvedValueOnce({
+        ...mockPosition,
+        status: PositionStatus.LIQUIDATED,
+      });
+      databaseService.update.mockResolvedValueOnce([
+        { ...reduceOnlyOrder, status: OrderStatus.CANCELLED },
+      ]);
+
+      await (service as any).checkAndExecuteLimitOrders();
+
+      expect(tradeService.closePosition).not.toHaveBeenCalled();
+      expect(databaseService.update).toHaveBeenCalledWith(
+        'limit_orders',
+        { status: OrderStatus.CANCELLED },
+        { id: 'order-2', status: OrderStatus.OPEN },
+      );
+    });
+
+    it('should cancel open reduce-only orders whose position closed or was liquidated', async () => {
+      databaseService.select.mockImplementation((table) => {
+        if (table === 'limit_orders') {
+          return Promise.resolve([
+            reduceOnlyOrder,
+            { ...reduceOnlyOrder, id: 'order-3', positionId: 'position-2' },
+          ]);
+        }
+        if (table === 'positions') {
+          return Promise.resolve([{ id: 'position-2' }]);
+        }
+        return Promise.resolve([]);
+      });
+      databaseService.update.mockResolvedValue([
+        { ...reduceOnlyOrder, status: OrderStatus.CANCELLED },
+      ]);
+
+      await (service as any).cancelOrphanedReduceOnlyOrders();
+
+      expect(databaseService.select).toHaveBeenCalledWith('positions', {
+        select: 'id',
+        in: { id: ['position-1', 'position-2'] },
+        eq: { status: PositionStatus.OPEN },
+      });
+      expect(databaseService.update).toHaveBeenCalledTimes(1);
+      expect(databaseService.update).toHaveBeenCalledWith(
+        'limit_orders',
+        { status: OrderStatus.CANCELLED },
+        { id: 'order-2', status: OrderStatus.OPEN },
+      );
+      expect(eventsService.emitOrderUpdate).toHaveBeenCalledWith(
+        'user-1',
+        'order-2',
+        OrderStatus.CANCELLED,
+      );
+    });
+  });
+
+  describe('bracket orders', () => {
+    const bracketRequest: LimitOrderRequest = {
+      id: 'order-1',
+      userId: 'user-1',
+      marketId: 'market-1',
+      side: OrderSide.LONG,
+      size: '1000',
+      price: '50000',
+      leverage: '5',
+      token: TokenType.USDC,
+      type: OrderType.LIMIT,
+      takeProfitPrice: '55000',
+      stopLossPrice: '45000',
+    };
+
+    const group: OrderGroup = {
+      id: 'group-1',
+      userId: 'user-1',
+      marketId: 'market-1',
+      entryOrderId: 'order-1',
+      status: OrderGroupStatus.ACTIVE,
+      positionId: 'position-1',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    const takeProfitLeg: LimitOrder = {
+      ...mockLimitOrder,
+      id: 'order-2',
+      side: OrderSide.SHORT,
+      type: OrderType.TAKE_PROFIT_MARKET,
+      price: '55000',
+      requiredMargin: '0',
+      reduceOnly: true,
+      positionId: 'position-1',
+      groupId: 'group-1',
+    };
+
+    const mockGroupSelect = (
+      orders: LimitOrder[],
+      groupStatus: OrderGroupStatus,
+    ) =>
+      databaseService.select.mockImplementation((table) => {
+        if (table === 'limit_orders') {
+          return Promise.resolve(orders);
+        }
+        if (table === 'order_groups') {
+          return Promise.resolve([{ ...group, status: groupStatus }]);
+        }
+        return Promise.resolve([]);
+      });
+
+    it('should create the group and pending legs on the opposite side', async () => {
+      await service.createLimitOrder(bracketRequest);
+
+      expect(tradeService.validateOrderPrice).toHaveBeenCalledWith(
+        OrderSide.LONG,
+        '50000',
+        '55000',
+        'takeProfit',
+      );
+      expect(tradeService.validateOrderPrice).toHaveBeenCalledWith(
+        OrderSide.LONG,
+        '50000',
+        '45000',
+        'stopLoss',
+      );
+
+      const [, entryInsert] = databaseService.insert.mock.calls[0];
+      const groupId = (entryInsert as Partial<LimitOrder>).groupId;
+      expect(groupId).toBeDefined();
+
+      expect(databaseService.insert).toHaveBeenCalledWith('order_groups', {
+        id: groupId,
+        userId: 'user-1',
+        marketId: 'market-1',
+        entryOrderId: 'order-1',
+        status: OrderGroupStatus.PENDING,
+      });
+      expect(databaseService.insert).toHaveBeenCalledWith(
+        'limit_orders',
+        expect.objectContaining({
+          side: OrderSide.SHORT,
+          type: OrderType.TAKE_PROFIT_MARKET,
+          price: '55000',
+          status: OrderStatus.PENDING,
+          reduceOnly: true,
+          groupId,
+        }),
+      );
+      expect(databaseService.insert).toHaveBeenCalledWith(
+        'limit_orders',
+        expect.objectContaining({
+          side: OrderSide.SHORT,
+          type: OrderType.STOP_MARKET,
+          price: '45000',
+          status: OrderStatus.PENDING,
+          reduceOnly: true,
+          groupId,
+        }),
+      );
+      // Legs don't reserve margin
+      expect(marginService.reserveOrderMargin).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject invalid leg prices before creating any order', async () => {
+      tradeService.validateOrderPrice.mockImplementationOnce(() => {
+        throw new Error(
+          'Take profit price must be above entry price for long positions',
+        );
+      });
+
+      await expect(
+        service.createLimitOrder({
+          ...bracketRequest,
+          takeProfitPrice: '45000',
+        }),
+      ).rejects.toThrow(
+        'Take profit price must be above entry price for long positions',
+      );
+      expect(databaseService.insert).not.toHaveBeenCalled();
+    });
+
+    it('should reject reduce-only bracket orders', async () => {
+      tradeService.getPosition.mockResolvedValueOnce({
+        id: 'position-1',
+        userId: 'user-1',
+        marketId: 'market-1',
+        side: OrderSide.SHORT,
+        status: PositionStatus.OPEN,
+      } as Position);
+
+      await expect(
+        service.createLimitOrder({
+          ...bracketRequest,
+          reduceOnly: true,
+          positionId: 'position-1',
+        }),
+      ).rejects.toThrow('Reduce-only orders cannot have bracket legs');
+    });
+
+    it('should activate the legs against the new position when the entry fills', async () => {
+      databaseService.select.mockResolvedValueOnce([
+        { ...mockLimitOrder, groupId: 'group-1' },
+      ]);
+      priceService.getMarkPrice.mockResolvedValueOnce('50000');
+      tradeService.createPosition.mockResolvedValueOnce({
+        id: 'position-1',
+      } as Position);
+      databaseService.update.mockImplementation((table, data, match) =>
+        Promise.resolve(
+          match.groupId
+            ? [takeProfitLeg, { ...takeProfitLeg, id: 'order-3' }]
+            : [],
+        ),
+      );
+
+      await (service as any).checkAndExecuteLimitOrders();
+
+      expect(databaseService.update).toHaveBeenCalledWith(
+        'order_groups',
+        { status: OrderGroupStatus.ACTIVE, positionId: 'position-1' },
+        { id: 'group-1', status: OrderGroupStatus.PENDING },
+      );
+      expect(databaseService.update).toHaveBeenCalledWith(
+        'limit_orders',
+        { status: OrderStatus.OPEN, positionId: 'position-1' },
+        { groupId: 'group-1', status: OrderStatus.PENDING },
+      );
+      expect(eventsService.emitOrderUpdate).toHaveBeenCalledWith(
+        'user-1',
+        'order-3',
+        OrderStatus.OPEN,
+      );
+    });
+
+    it('should cancel the other leg when one leg fills', async () => {
+      mockGroupSelect([takeProfitLeg], OrderGroupStatus.ACTIVE);
+      priceService.getMarkPrice.mockResolvedValueOnce('55000');
+      tradeService.getPosition.mockResolvedValueOnce({
+        id: 'position-1',
+        size: '1000',
+        status: PositionStatus.OPEN,
+      } as Position);
+      databaseService.update.mockImplementation((table, data, match) =>
+        Promise.resolve(
+          match.groupId && match.status === OrderStatus.OPEN
+            ? [{ ...takeProfitLeg, id: 'order-3', type: OrderType.STOP_MARKET }]
+            : [],
+        ),
+      );
+
+      await (service as any).checkAndExecuteLimitOrders();
+
+      expect(tradeService.closePosition).toHaveBeenCalledWith(
+        'position-1',
+        'user-1',
+        '1000',
+        '100',
+      );
+      expect(databaseService.update).toHaveBeenCalledWith(
+        'order_groups',
+        { status: OrderGroupStatus.COMPLETED },
+        { id: 'group-1' },
+      );
+      expect(databaseService.update).toHaveBeenCalledWith(
+        'limit_orders',
+        { status: OrderStatus.CANCELLED },
+        { groupId: 'group-1', status: OrderStatus.OPEN },
+      );
+      expect(eventsService.emitOrderUpdate).toHaveBeenCalledWith(
+        'user-1',
+        'order-3',
+        OrderStatus.CANCELLED,
+      );
+    });
+
+    it('should not fill a leg once its group has completed', async () => {
+      mockGroupSelect([takeProfitLeg], OrderGroupStatus.COMPLETED);
+      priceService.getMarkPrice.mockResolvedValueOnce('55000');
+
+      await (service as any).checkAndExecuteLimitOrders();
+
+      expect(tradeService.closePosition).not.toHaveBeenCalled();
+    });
+
+    it('should cancel the pending legs when the entry order is cancelled', async () => {
+      mockGroupSelect(
+        [{ ...mockLimitOrder, groupId: 'group-1' }],
+        OrderGroupStatus.PENDING,
+      );
+
+      await service.cancelLimitOrder('order-1', 'user-1');
+
+      expect(databaseService.update).toHaveBeenCalledWith(
+        'order_groups',
+        { status: OrderGroupStatus.CANCELLED },
+        { id: 'group-1' },
+      );
+      expect(databaseService.update).toHaveBeenCalledWith(
+        'limit_orders',
+        { status: OrderStatus.CANCELLED },
+        { groupId: 'group-1', status: OrderStatus.PENDING },
+      );
+    });
+  });
+
+  describe('expireLimitOrders', () => {
+    const expiredOrder: LimitOrder = {
+      ...mockLimitOrder,
+      timeInForce: TimeInForce.GTD,
+      expiresAt: new Date(Date.now() - 1000),
+    };
+
+    it('should expire GTD orders past their expiry and release their margin', async () => {
+      databaseService.select.mockResolvedValueOnce([expiredOrder]);
+      databaseService.update.mockResolvedValueOnce([
+        { ...expiredOrder, status: OrderStatus.EXPIRED },
+      ]);
+
+      await (service as any).expireLimitOrders();
+
+      expect(databaseService.select).toHaveBeenCalledWith('limit_orders', {
+        eq: { status: OrderStatus.OPEN },
+        lte: { expiresAt: expect.any(String) },
+      });
+      expect(databaseService.update).toHaveBeenCalledWith(
+        'limit_orders',
+        { status: OrderStatus.EXPIRED },
+        { id: expiredOrder.id, status: OrderStatus.OPEN },
+      );
+      expect(marginService.releaseOrderMargin).toHaveBeenCalledWith(
+        expiredOrder.userId,
+        expiredOrder.token,
+        expiredOrder.id,
+      );
+      expect(eventsService.emitOrderUpdate).toHaveBeenCalledWith(
+        expiredOrder.userId,
+        expiredOrder.id,
+        OrderStatus.EXPIRED,
+      );
+    });
+
+    it('should skip orders that are no longer open', async () => {
+      databaseService.select.mockResolvedValueOnce([expiredOrder]);
+      databaseService.update.mockResolvedValueOnce([]);
+
+      await (service as any).expireLimitOrders();
+
+      expect(marginService.releaseOrderMargin).not.toHaveBeenCalled();
+      expect(eventsService.emitOrderUpdate).not.toHaveBeenCalled();
+    });
+  });
+
   describe('cancelLimitOrder', () => {
     it('should successfully cancel a limit order', async () => {
       await service.cancelLimitOrder('order-1', 'user-1');
@@ -193,6 +1006,11 @@ describe('LimitOrderService', () => {
         { status: OrderStatus.CANCELLED },
         { id: 'order-1' },
       );
+      expect(marginService.releaseOrderMargin).toHaveBeenCalledWith(
+        'user-1',
+        TokenType.USDC,
+        'order-1',
+      );
       expect(eventsService.emitPositionsUpdate).toHaveBeenCalledWith('user-1');
     });
 
@@ -224,6 +1042,54 @@ describe('LimitOrderService', () => {
     });
   });
 
+  describe('getUserOrderGroups', () => {
+    it('should nest bracket orders under their group', async () => {
+      const entryOrder = { ...mockLimitOrder, groupId: 'group-1' };
+      const takeProfitOrder = {
+        ...mockLimitOrder,
+        id: 'order-2',
+        type: OrderType.TAKE_PROFIT_MARKET,
+        groupId: 'group-1',
+      };
+      const stopLossOrder = {
+        ...mockLimitOrder,
+        id: 'order-3',
+        type: OrderType.STOP_MARKET,
+        groupId: 'group-1',
+      };
+      const standaloneOrder = { ...mockLimitOrder, id: 'order-4' };
+      const group: OrderGroup = {
+        id: 'group-1',
+        userId: 'user-1',
+        marketId: 'market-1',
+        entryOrderId: 'order-1',
+        status: OrderGroupStatus.PENDING,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+      databaseService.select.mockImplementation((table) => {
+        if (table === 'limit_orders') {
+          return Promise.resolve([
+            entryOrder,
+            takeProfitOrder,
+            stopLossOrder,
+            standaloneOrder,
+          ]);
+        }
+        if (table === 'order_groups') {
+          return Promise.resolve([group]);
+        }
+        return Promise.resolve([]);
+      });
+
+      const result = await service.getUserOrderGroups('user-1');
+
+      expect(result).toEqual([
+        { ...group, entryOrder, takeProfitOrder, stopLossOrder },
+      ]);
+    });
+  });
+
   describe('getMarketLimitOrders', () => {
     it('should return market limit orders', async () => {
       const result = await service.getMarketLimitOrders('market-1');
@@ -236,10 +1102,154 @@ describe('LimitOrderService', () => {
   });
 
   // Testing private methods through their public interfaces
+  describe('market status', () => {
+    const mockOrderRequest: LimitOrderRequest = {
+      id: 'order-1',
+      userId: 'user-1',
+      marketId: 'market-1',
+      side: OrderSide.LONG,
+      size: '1000',
+      price: '50000',
+      leverage: '5',
+      token: TokenType.USDC,
+      type: OrderType.LIMIT,
+    };
+
+    const reduceOnlyOrder: LimitOrder = {
+      ...mockLimitOrder,
+      id: 'order-2',
+      side: OrderSide.SHORT,
+      price: '55000',
+      requiredMargin: '0',
+      reduceOnly: true,
+      positionId: 'position-1',
+    };
+
+    const mockMarketWithStatus = (status: MarketStatus) => {
+      databaseService.select.mockImplementation((table) => {
+        if (table === 'markets') {
+          return Promise.resolve([{ ...mockMarket, status }]);
+        }
+        return Promise.resolve([]);
+      });
+    };
+
+    beforeEach(() => {
+      tradeService.getPosition.mockResolvedValue({
+        id: 'position-1',
+        userId: 'user-1',
+        marketId: 'market-1',
+        side: OrderSide.LONG,
+        size: '600',
+        token: TokenType.USDC,
+        leverage: '5',
+        status: PositionStatus.OPEN,
+      } as Position);
+    });
+
+    it('should reject entry orders on a paused market', async () => {
+      mockMarketWithStatus(MarketStatus.PAUSED);
+      await expect(service.createLimitOrder(mockOrderRequest)).rejects.toThrow(
+        'Market BTC-USD is PAUSED, order not allowed',
+      );
+      expect(marginService.reserveOrderMargin).not.toHaveBeenCalled();
+    });
+
+    it('should reject entry orders on a reduce-only market', async () => {
+      mockMarketWithStatus(MarketStatus.REDUCE_ONLY);
+      await expect(service.createLimitOrder(mockOrderRequest)).rejects.toThrow(
+        'Market BTC-USD is REDUCE_ONLY, order not allowed',
+      );
+    });
+
+    it('should accept reduce-only orders on a paused market', async () => {
+      mockMarketWithStatus(MarketStatus.PAUSED);
+      await service.createLimitOrder({
+        ...mockOrderRequest,
+        id: 'order-2',
+        side: OrderSide.SHORT,
+        reduceOnly: true,
+        positionId: 'position-1',
+      });
+      expect(databaseService.insert).toHaveBeenCalledWith(
+        'limit_orders',
+        expect.objectContaining({ reduceOnly: true }),
+      );
+    });
+
+    it('should reject reduce-only orders on a closed market', async () => {
+      mockMarketWithStatus(MarketStatus.CLOSED);
+      await expect(
+        service.createLimitOrder({
+          ...mockOrderRequest,
+          side: OrderSide.SHORT,
+          reduceOnly: true,
+          positionId: 'position-1',
+        }),
+      ).rejects.toThrow('Market BTC-USD is CLOSED, order not allowed');
+    });
+
+    it('should leave orders resting while the market is paused', async () => {
+      mockMarketWithStatus(MarketStatus.PAUSED);
+      databaseService.select.mockResolvedValueOnce([
+        mockLimitOrder,
+        reduceOnlyOrder,
+      ]);
+      priceService.getMarkPrice.mockResolvedValue('55000');
+
+      await (service as any).checkAndExecuteLimitOrders();
+
+      expect(tradeService.createPosition).not.toHaveBeenCalled();
+      expect(tradeService.closePosition).not.toHaveBeenCalled();
+      expect(databaseService.update).not.toHaveBeenCalled();
+    });
+
+    it('should only fill reduce-only orders while the market is reduce-only', async () => {
+      mockMarketWithStatus(MarketStatus.REDUCE_ONLY);
+      databaseService.select.mockResolvedValueOnce([
+        { ...mockLimitOrder, price: '60000' },
+        reduceOnlyOrder,
+      ]);
+      priceService.getMarkPrice.mockResolvedValue('55000');
+
+      await (service as any).checkAndExecuteLimitOrders();
+
+      expect(tradeService.createPosition).not.toHaveBeenCalled();
+      expect(tradeService.closePosition).toHaveBeenCalledWith(
+        'position-1',
+        'user-1',
+        '600',
+        '100',
+      );
+    });
+
+    it('should cancel open orders once the market is closed', async () => {
+      mockMarketWithStatus(MarketStatus.CLOSED);
+      databaseService.select.mockResolvedValueOnce([mockLimitOrder]);
+      databaseService.update.mockResolvedValueOnce([
+        { ...mockLimitOrder, status: OrderStatus.CANCELLED },
+      ]);
+
+      await (service as any).checkAndExecuteLimitOrders();
+
+      expect(tradeService.createPosition).not.toHaveBeenCalled();
+      expect(databaseService.update).toHaveBeenCalledWith(
+        'limit_orders',
+        { status: OrderStatus.CANCELLED },
+        { id: mockLimitOrder.id, status: OrderStatus.OPEN },
+      );
+      expect(marginService.releaseOrderMargin).toHaveBeenCalledWith(
+        mockLimitOrder.userId,
+        mockLimitOrder.token,
+        mockLimitOrder.id,
+      );
+    });
+  });
+
   describe('limit order execution', () => {
     beforeEach(() => {
       jest.useFakeTimers();
-      priceService.getCurrentPrice.mockResolvedValue('50000');
+      priceService.getMarkPrice.mockResolvedValue('50000');
       // Mock the private checkAndExecuteLimitOrders method
       jest.spyOn(service as any, 'checkAndExecuteLimitOrders');
     });
@@ -251,7 +1261,7 @@ describe('LimitOrderService', () => {
     it('should execute limit order when conditions are met', async () => {
       // Set up mocks
       databaseService.select.mockResolvedValueOnce([mockLimitOrder]); // For fetching open orders
-      priceService.getCurrentPrice.mockResolvedValueOnce('50000'); // Price matches limit price
+      priceService.getMarkPrice.mockResolvedValueOnce('50000'); // Price matches limit price
 
       // Manually trigger the check function
       await (service as any).checkAndExecuteLimitOrders();
@@ -259,7 +1269,62 @@ describe('LimitOrderService', () => {
       // Wait for all promises to resolve
       await Promise.resolve();
 
-      expect(tradeService.openPosition).toHaveBeenCalled();
+      expect(tradeService.createPosition).toHaveBeenCalled();
+      expect(databaseService.update).toHaveBeenCalledWith(
+        'limit_orders',
+        { status: OrderStatus.FILLED },
+        { id: mockLimitOrder.id },
+      );
+    });
+
+    it('should release the reservation before opening the position', async () => {
+      databaseService.select.mockResolvedValueOnce([mockLimitOrder]);
+
+      await (service as any).checkAndExecuteLimitOrders();
+
+      expect(marginService.releaseOrderMargin).toHaveBeenCalledWith(
+        mockLimitOrder.userId,
+        mockLimitOrder.token,
+        mockLimitOrder.id,
+      );
+      expect(
+        marginService.releaseOrderMargin.mock.invocationCallOrder[0],
+      ).toBeLessThan(tradeService.createPosition.mock.invocationCallOrder[0]);
+      expect(marginService.reserveOrderMargin).not.toHaveBeenCalled();
+    });
+
+    it('should re-reserve the margin when the position fails to open', async () => {
+      databaseService.select.mockResolvedValueOnce([mockLimitOrder]);
+      tradeService.createPosition.mockRejectedValueOnce(
+        new Error('Slippage exceeds maximum allowed'),
+      );
+
+      await (service as any).checkAndExecuteLimitOrders();
+
+      expect(marginService.reserveOrderMargin).toHaveBeenCalledWith(
+        mockLimitOrder.userId,
+        mockLimitOrder.token,
+        mockLimitOrder.requiredMargin,
+        mockLimitOrder.id,
+      );
+      expect(databaseService.update).not.toHaveBeenCalledWith(
+        'limit_orders',
+        { status: OrderStatus.FILLED },
+        { id: mockLimitOrder.id },
+      );
+    });
+
+    it('should execute a STOP_MARKET long when price breaks out above the trigger', async () => {
+      databaseService.select.mockResolvedValueOnce([
+        { ...mockLimitOrder, type: OrderType.STOP_MARKET },
+      ]);
+      priceService.getMarkPrice.mockResolvedValueOnce('51000');
+
+      await (service as any).checkAndExecuteLimitOrders();
+
+      expect(tradeService.createPosition).toHaveBeenCalledWith(
+        expect.objectContaining({ side: OrderSide.LONG, maxSlippage: '100' }),
+      );
       expect(databaseService.update).toHaveBeenCalledWith(
         'limit_orders',
         { status: OrderStatus.FILLED },
@@ -267,6 +1332,17 @@ describe('LimitOrderService', () => {
       );
     });
 
+    it('should not execute a STOP_MARKET long while price is below the trigger', async () => {
+      databaseService.select.mockResolvedValueOnce([
+        { ...mockLimitOrder, type: OrderType.STOP_MARKET },
+      ]);
+      priceService.getMarkPrice.mockResolvedValueOnce('49000');
+
+      await (service as any).checkAndExecuteLimitOrders();
+
+      expect(tradeService.createPosition).not.toHaveBeenCalled();
+    });
+
     it('should cancel order when insufficient margin during execution', async () => {
       // Set up mocks
       databaseService.select.mockResolvedValueOnce([mockLimitOrder]); // For fetching open orders
@@ -274,7 +1350,7 @@ describe('LimitOrderService', () => {
         ...mockMarginBalance,
         availableBalance: '10',
       });
-      priceService.getCurrentPrice.mockResolvedValueOnce('50000'); // Price matches limit price
+      priceService.getMarkPrice.mockResolvedValueOnce('50000'); // Price matches limit price
 
       // Manually trigger the check function
       await (service as any).checkAndExecuteLimitOrders();
@@ -289,4 +1365,52 @@ describe('LimitOrderService', () => {
       );
     });
   });
+  describe('shouldExecuteOrder', () => {
+    // [type, side, currentPrice, expected] against a trigger price of 50000
+    const cases: [OrderType, OrderSide, string, boolean][] = [
+      [OrderType.LIMIT, OrderSide.LONG, '49000', true],
+      [OrderType.LIMIT, OrderSide.LONG, '50000', true],
+      [OrderType.LIMIT, OrderSide.LONG, '51000', false],
+      [OrderType.LIMIT, OrderSide.SHORT, '51000', true],
+      [OrderType.LIMIT, OrderSide.SHORT, '50000', true],
+      [OrderType.LIMIT, OrderSide.SHORT, '49000', false],
+      [OrderType.STOP_MARKET, OrderSide.LONG, '51000', true],
+      [OrderType.STOP_MARKET, OrderSide.LONG, '50000', true],
+      [OrderType.STOP_MARKET, OrderSide.LONG, '49000', false],
+      [OrderType.STOP_MARKET, OrderSide.SHORT, '49000', true],
+      [OrderType.STOP_MARKET, OrderSide.SHORT, '50000', true],
+      [OrderType.STOP_MARKET, OrderSide.SHORT, '51000', false],
+      [OrderType.TAKE_PROFIT_MARKET, OrderSide.LONG, '49000', true],
+      [OrderType.TAKE_PROFIT_MARKET, OrderSide.LONG, '50000', true],
+      [OrderType.TAKE_PROFIT_MARKET, OrderSide.LONG, '51000', false],
+      [OrderType.TAKE_PROFIT_MARKET, OrderSide.SHORT, '51000', true],
+      [OrderType.TAKE_PROFIT_MARKET, OrderSide.SHORT, '50000', true],
+      [OrderType.TAKE_PROFIT_MARKET, OrderSide.SHORT, '49000', false],
+    ];
+
+    it.each(cases)(
+      '%s %s at price %s should execute: %s',
+      (type, side, currentPrice, expected) => {
+        expect(
+          (service as any).shouldExecuteOrder(
+            type,
+            side,
+            '50000',
+            currentPrice,
+          ),
+        ).toBe(expected);
+      },
+    );
+
+    it('should never execute a MARKET order from the book', () => {
+      expect(
+        (service as any).shouldExecuteOrder(
+          OrderType.MARKET,
+          OrderSide.LONG,
+          '50000',
+          '50000',
+        ),
+      ).toBe(false);
+    });
+  });
 });
@@ -4,15 +4,32 @@ import { PriceService } from '../price/price.service';
 import { TradeService } from '../trade/trade.service';
 import { MarginService } from '../margin/margin.service';
 import { EventsService } from '../events/events.service';
+import { LiquidityService } from '../liquidity/liquidity.service';
 import {
   OrderRequest,
   LimitOrderRequest,
   OrderStatus,
   OrderSide,
+  OrderType,
+  TimeInForce,
 } from '../types/trade.types';
 import { Market } from '../entities/market.entity';
-import { compare, divide, multiply } from 'src/lib/math';
+import { Position, PositionStatus } from '../entities/position.entity';
+import {
+  OrderGroup,
+  OrderGroupStatus,
+  OrderGroupWithOrders,
+} from '../entities/order-group.entity';
+import { compare, divide, min, multiply } from 'src/lib/math';
 import { DatabaseService } from '../database/database.service';
+import { MarketStatus } from '../types/market.types';
+import {
+  isLimitFillAllowed,
+  isOpeningAllowed,
+  isReducingAllowed,
+} from 'src/lib/marketStatus';
+import { calculateRemainingCapacity } from 'src/lib/openInterest';
+import { findRiskTier } from 'src/lib/marketRisk';
 
 @Injectable()
 export class LimitOrderService {
@@ -25,6 +42,7 @@ export class LimitOrderService {
     private readonly tradeService: TradeService,
     private readonly marginService: MarginService,
     private readonly eventsService: EventsService,
+    private readonly liquidityService: LiquidityService,
   ) {
     // Start monitoring limit orders
     this.startMonitoring();
@@ -33,6 +51,8 @@ export class LimitOrderService {
   private async startMonitoring() {
     setInterval(async () => {
       try {
+        await this.expireLimitOrders();
+        await this.cancelOrphanedReduceOnlyOrders();
         await this.checkAndExecuteLimitOrders();
       } catch (error) {
         this.logger.error('Error checking limit orders:', error);
@@ -49,8 +69,51 @@ export class LimitOrderService {
       throw new Error('Invalid Parameters');
     }
 
+    const orderType = orderRequest.type || OrderType.LIMIT;
+    if (orderType === OrderType.MARKET) {
+      throw new Error('Market orders must be placed through /trade');
+    }
+    if (!Object.values(OrderType).includes(orderType)) {
+      throw new Error('Invalid order type');
+    }
+
+    const timeInForce = orderRequest.timeInForce || TimeInForce.GTC;
+    if (!Object.values(TimeInForce).includes(timeInForce)) {
+      throw new Error('Invalid time in force');
+    }
+
+    let expiresAt: Date | undefined;
+    if (timeInForce === TimeInForce.GTD) {
+      expiresAt = orderRequest.expiresAt && new Date(orderRequest.expiresAt);
+      if (!expiresAt || isNaN(expiresAt.getTime())) {
+        throw new Error('GTD orders require a valid expiresAt');
+      }
+      if (expiresAt.getTime() <= Date.now()) {
+        throw new Error('expiresAt must be in the future');
+      }
+    } else if (orderRequest.expiresAt) {
+      throw new Error('expiresAt is only valid for GTD orders');
+    }
+
+    // Reduce-only orders close an existing position, so they don't need margin
+    const reduceOnly = !!orderRequest.reduceOnly;
+    const position = reduceOnly
+      ? await this.validateReduceOnlyOrder(orderRequest)
+      : undefined;
+
+    // Attached take-profit / stop-loss prices turn the order into a bracket
+    const isBracket = !!(
+      orderRequest.takeProfitPrice || orderRequest.stopLossPrice
+    );
+    if (isBracket) {
+      this.validateBracketOrder(orderRequest, reduceOnly);
+    }
+    const groupId = isBracket ? crypto.randomUUID() : undefined;
+
     // Calculate required margin in usd (size / leverage)
-    const requiredMargin = divide(orderRequest.size, orderRequest.leverage);
+    const requiredMargin = reduceOnly
+      ? '0'
+      : divide(orderRequest.size, orderRequest.leverage);
 
     // Validate user has enough balance
     const marginBalance = await this.marginService.getBalance(
@@ -82,6 +145,32 @@ export class LimitOrderService {
       throw new Error('Market not found');
     }
 
+    // Reduce-only orders may rest while a market is paused, entry orders need it open
+    if (
+      reduceOnly
+        ? !isReducingAllowed(market.status)
+        : !isOpeningAllowed(market.status)
+    ) {
+      throw new Error(
+        `Market ${market.symbol} is ${market.status}, order not allowed`,
+      );
+    }
+
+    // Entry orders must fit a leverage tier, reduce-only orders take the position's
+    if (!reduceOnly) {
+      const tier = findRiskTier(market, orderRequest.size);
+      if (!tier) {
+        throw new Error("Order size exceeds the market's largest risk tier");
+      }
+      if (compare(orderRequest.leverage, tier.maxLeverage) > 0) {
+        throw new Error(
+          `Max leverage for a ${orderRequest.size} order is ${tier.maxLeverage}x`,
+        );
+      }
+    }
+
+    const orderMargin = divide(requiredMargin, marginPrice);
+
     // Create limit order
     const [savedOrder] = await this.databaseService.insert<LimitOrder>(
       'limit_orders',
@@ -89,22 +178,385 @@ export class LimitOrderService {
         userId: orderRequest.userId,
         marketId: orderRequest.marketId,
         side: orderRequest.side,
+        type: orderType,
         size: orderRequest.size,
         price: orderRequest.price,
-        leverage: orderRequest.leverage,
-        token: orderRequest.token,
+        leverage: reduceOnly ? position.leverage : orderRequest.leverage,
+        token: reduceOnly ? position.token : orderRequest.token,
         symbol: market.symbol,
-        requiredMargin: divide(requiredMargin, marginPrice),
+        requiredMargin: orderMargin,
         status: OrderStatus.OPEN,
+        timeInForce,
+        expiresAt,
+        reduceOnly,
+        positionId: position?.id,
+        groupId,
       },
     );
 
+    // Reserve the order's margin so it can't be committed to other orders
+    if (!reduceOnly) {
+      try {
+        await this.marginService.reserveOrderMargin(
+          orderRequest.userId,
+          orderRequest.token,
+          orderMargin,
+          savedOrder.id,
+        );
+      } catch (error) {
+        await this.databaseService.update<LimitOrder>(
+          'limit_orders',
+          { status: OrderStatus.CANCELLED },
+          { id: savedOrder.id },
+        );
+        throw new Error('Insufficient balance for limit order');
+      }
+    }
+
+    if (isBracket) {
+      await this.createOrderGroup(groupId, savedOrder, orderRequest);
+    }
+
     // Emit position update event
     this.eventsService.emitPositionsUpdate(orderRequest.userId);
 
+    // IOC / FOK orders never rest on the book
+    if (timeInForce === TimeInForce.IOC || timeInForce === TimeInForce.FOK) {
+      return this.executeImmediateOrder(savedOrder, market);
+    }
+
     return savedOrder;
   }
 
+  /**
+   * @dev A reduce-only order must target an open position owned by the user
+   * in the same market, on the opposite side (e.g. a SHORT order reduces a LONG).
+   */
+  private async validateReduceOnlyOrder(
+    orderRequest: LimitOrderRequest,
+  ): Promise<Position> {
+    if (!orderRequest.positionId) {
+      throw new Error('Reduce-only orders require a positionId');
+    }
+
+    const position = await this.tradeService.getPosition(
+      orderRequest.positionId,
+    );
+
+    if (position.userId !== orderRequest.userId) {
+      throw new Error('Not authorized to modify this position');
+    }
+
+    if (position.status !== PositionStatus.OPEN) {
+      throw new Error('Position is not open');
+    }
+
+    if (position.marketId !== orderRequest.marketId) {
+      throw new Error('Position does not belong to this market');
+    }
+
+    if (position.side === orderRequest.side) {
+      throw new Error(
+        'Reduce-only orders must be on the opposite side of the position',
+      );
+    }
+
+    return position;
+  }
+
+  /**
+   * @dev Bracket legs reuse the position SL / TP rules, checked against the entry price.
+   */
+  private validateBracketOrder(
+    orderRequest: LimitOrderRequest,
+    reduceOnly: boolean,
+  ): void {
+    if (reduceOnly) {
+      throw new Error('Reduce-only orders cannot have bracket legs');
+    }
+
+    if (orderRequest.takeProfitPrice) {
+      this.tradeService.validateOrderPrice(
+        orderRequest.side,
+        orderRequest.price,
+        orderRequest.takeProfitPrice,
+        'takeProfit',
+      );
+    }
+
+    if (orderRequest.stopLossPrice) {
+      this.tradeService.validateOrderPrice(
+        orderRequest.side,
+        orderRequest.price,
+        orderRequest.stopLossPrice,
+        'stopLoss',
+      );
+    }
+  }
+
+  /**
+   * @dev Creates the bracket group and its legs. The legs are reduce-only orders on
+   * the opposite side of the entry and stay PENDING until the entry fills.
+   */
+  private async createOrderGroup(
+    groupId: string,
+    entryOrder: LimitOrder,
+    orderRequest: LimitOrderRequest,
+  ): Promise<void> {
+    await this.databaseService.insert<OrderGroup>('order_groups', {
+      id: groupId,
+      userId: entryOrder.userId,
+      marketId: entryOrder.marketId,
+      entryOrderId: entryOrder.id,
+      status: OrderGroupStatus.PENDING,
+    });
+
+    const legSide =
+      entryOrder.side === OrderSide.LONG ? OrderSide.SHORT : OrderSide.LONG;
+
+    const legs = [
+      {
+        type: OrderType.TAKE_PROFIT_MARKET,
+        price: orderRequest.takeProfitPrice,
+      },
+      { type: OrderType.STOP_MARKET, price: orderRequest.stopLossPrice },
+    ].filter((leg) => leg.price);
+
+    for (const leg of legs) {
+      await this.databaseService.insert<LimitOrder>('limit_orders', {
+        userId: entryOrder.userId,
+        marketId: entryOrder.marketId,
+        side: legSide,
+        type: leg.type,
+        size: entryOrder.size,
+        price: leg.price,
+        leverage: entryOrder.leverage,
+        token: entryOrder.token,
+        symbol: entryOrder.symbol,
+        requiredMargin: '0',
+        status: OrderStatus.PENDING,
+        timeInForce: TimeInForce.GTC,
+        reduceOnly: true,
+        groupId,
+      });
+    }
+  }
+
+  /**
+   * @dev Activates the legs of a bracket once its entry order has filled.
+   */
+  private async activateOrderGroup(
+    groupId: string,
+    positionId: string,
+  ): Promise<void> {
+    await this.databaseService.update<OrderGroup>(
+      'order_groups',
+      { status: OrderGroupStatus.ACTIVE, positionId },
+      { id: groupId, status: OrderGroupStatus.PENDING },
+    );
+
+    const activatedLegs = await this.databaseService.update<LimitOrder>(
+      'limit_orders',
+      { status: OrderStatus.OPEN, positionId },
+      { groupId, status: OrderStatus.PENDING },
+    );
+
+    for (const leg of activatedLegs) {
+      this.eventsService.emitOrderUpdate(leg.userId, leg.id, OrderStatus.OPEN);
+    }
+  }
+
+  /**
+   * @dev Moves a bracket to its final status and cancels any legs still pending or resting.
+   * - COMPLETED: a leg filled, so the other leg is cancelled (one-cancels-other)
+   * - CANCELLED: the entry was cancelled / expired, or the position was closed elsewhere
+   */
+  private async closeOrderGroup(
+    groupId: string,
+    status: OrderGroupStatus.COMPLETED | OrderGroupStatus.CANCELLED,
+  ): Promise<void> {
+    const [group] = await this.databaseService.select<OrderGroup>(
+      'order_groups',
+      {
+        eq: { id: groupId },
+        limit: 1,
+      },
+    );
+
+    if (
+      !group ||
+      group.status === OrderGroupStatus.COMPLETED ||
+      group.status === OrderGroupStatus.CANCELLED
+    ) {
+      return;
+    }
+
+    await this.databaseService.update<OrderGroup>(
+      'order_groups',
+      { status },
+      { id: groupId },
+    );
+
+    for (const legStatus of [OrderStatus.PENDING, OrderStatus.OPEN]) {
+      const cancelledLegs = await this.databaseService.update<LimitOrder>(
+        'limit_orders',
+        { status: OrderStatus.CANCELLED },
+        { groupId, status: legStatus },
+      );
+
+      for (const leg of cancelledLegs) {
+        this.eventsService.emitOrderUpdate(
+          leg.userId,
+          leg.id,
+          OrderStatus.CANCELLED,
+        );
+      }
+    }
+
+    this.logger.log(`Order group ${groupId} ${status.toLowerCase()}`);
+  }
+
+  private async isOrderGroupActive(groupId: string): Promise<boolean> {
+    const [group] = await this.databaseService.select<OrderGroup>(
+      'order_groups',
+      {
+        eq: { id: groupId },
+        limit: 1,
+      },
+    );
+
+    return group?.status === OrderGroupStatus.ACTIVE;
+  }
+
+  /**
+   * @dev Executes an IOC / FOK order against the current price.
+   * - Not triggered --> expires
+   * - FOK: fills in full or expires if the side's remaining open interest capacity can't absorb the whole size
+   * - IOC: fills up to the remaining capacity and expires the rest
+   */
+  private async executeImmediateOrder(
+    order: LimitOrder,
+    market: Market,
+  ): Promise<LimitOrder> {
+    const currentPrice = await this.priceService.getMarkPrice(order.marketId);
+
+    const isTriggered = this.shouldExecuteOrder(
+      order.type,
+      order.side,
+      order.price,
+      currentPrice,
+    );
+
+    const remainingCapacity = calculateRemainingCapacity(
+      market,
+      await this.liquidityService.getOpenInterestCapacity(),
+    );
+    // Closing a position frees open interest, so reduce-only orders are never capped here
+    const fillableSize = order.reduceOnly
+      ? order.size
+      : min(
+          order.size,
+          order.side === OrderSide.LONG
+            ? remainingCapacity.long
+            : remainingCapacity.short,
+        );
+
+    const canFill =
+      order.timeInForce === TimeInForce.FOK
+        ? compare(fillableSize, order.size) === 0
+        : compare(fillableSize, '0') > 0;
+
+    const isFillAllowed = isLimitFillAllowed(market.status, !!order.reduceOnly);
+
+    if (isTriggered && canFill && isFillAllowed) {
+      const fillProportion = divide(fillableSize, order.size);
+      const fillOrder: LimitOrder = {
+        ...order,
+        size: fillableSize,
+        requiredMargin: multiply(order.requiredMargin, fillProportion),
+      };
+
+      if (await this.executeLimitOrder(fillOrder)) {
+        // Record the filled size when an IOC order only partially fills
+        if (compare(fillableSize, order.size) < 0) {
+          await this.databaseService.update<LimitOrder>(
+            'limit_orders',
+            { size: fillableSize },
+            { id: order.id },
+          );
+        }
+        return { ...fillOrder, status: OrderStatus.FILLED };
+      }
+    }
+
+    const status = await this.expireOrder(order);
+
+    return { ...order, status };
+  }
+
+  /**
+   * @dev Moves GTD orders past their expiry to EXPIRED and releases their margin.
+   */
+  private async expireLimitOrders(): Promise<void> {
+    const expiredOrders = await this.databaseService.select<LimitOrder>(
+      'limit_orders',
+      {
+        eq: { status: OrderStatus.OPEN },
+        lte: { expiresAt: new Date().toISOString() },
+      },
+    );
+
+    for (const order of expiredOrders) {
+      try {
+        await this.expireOrder(order);
+      } catch (error) {
+        this.logger.error(`Error expiring limit order ${order.id}:`, error);
+      }
+    }
+  }
+
+  /**
+   * @returns The order's status afterwards, which is not EXPIRED when an
+   * execution has already cancelled it
+   */
+  private async expireOrder(order: LimitOrder): Promise<OrderStatus> {
+    // Only expire orders that are still open, an execution may have just cancelled it
+    const [expiredOrder] = await this.databaseService.update<LimitOrder>(
+      'limit_orders',
+      { status: OrderStatus.EXPIRED },
+      { id: order.id, status: OrderStatus.OPEN },
+    );
+
+    if (!expiredOrder) {
+      const [currentOrder] = await this.databaseService.select<LimitOrder>(
+        'limit_orders',
+        { eq: { id: order.id }, limit: 1 },
+      );
+      return currentOrder?.status ?? order.status;
+    }
+
+    await this.marginService.releaseOrderMargin(
+      order.userId,
+      order.token,
+      order.id,
+    );
+
+    if (order.groupId) {
+      await this.closeOrderGroup(order.groupId, OrderGroupStatus.CANCELLED);
+    }
+
+    this.eventsService.emitOrderUpdate(
+      order.userId,
+      order.id,
+      OrderStatus.EXPIRED,
+    );
+    this.eventsService.emitPositionsUpdate(order.userId);
+
+    this.logger.log(`Limit order ${order.id} expired`);
+
+    return OrderStatus.EXPIRED;
+  }
+
   async cancelLimitOrder(orderId: string, userId: string): Promise<void> {
     const [order] = await this.databaseService.select<LimitOrder>(
       'limit_orders',
@@ -128,6 +580,13 @@ export class LimitOrderService {
       { id: orderId },
     );
 
+    await this.marginService.releaseOrderMargin(userId, order.token, orderId);
+
+    // Cancelling a bracket's entry cancels its legs, a single leg can be cancelled on its own
+    if (order.groupId && !order.reduceOnly) {
+      await this.closeOrderGroup(order.groupId, OrderGroupStatus.CANCELLED);
+    }
+
     // Emit position update event
     this.eventsService.emitPositionsUpdate(userId);
   }
@@ -140,13 +599,39 @@ export class LimitOrderService {
       },
     );
 
+    // Market statuses, fetched once per market per sweep
+    const markets = new Map<string, Market>();
+
     for (const order of openOrders) {
       try {
-        const currentPrice = await this.priceService.getCurrentPrice(
+        if (!markets.has(order.marketId)) {
+          const [market] = await this.databaseService.select<Market>(
+            'markets',
+            {
+              eq: { id: order.marketId },
+              limit: 1,
+            },
+          );
+          markets.set(order.marketId, market);
+        }
+        const market = markets.get(order.marketId);
+
+        if (market?.status === MarketStatus.CLOSED) {
+          await this.cancelOrder(order, 'market is closed');
+          continue;
+        }
+
+        // Orders stay on the book while the market is paused or reduce-only
+        if (market && !isLimitFillAllowed(market.status, !!order.reduceOnly)) {
+          continue;
+        }
+
+        const currentPrice = await this.priceService.getMarkPrice(
           order.marketId,
         );
 
         const shouldExecute = this.shouldExecuteOrder(
+          order.type || OrderType.LIMIT,
           order.side,
           order.price,
           currentPrice,
@@ -161,20 +646,57 @@ export class LimitOrderService {
     }
   }
 
+  /**
+   * @dev Trigger semantics per order type:
+   * - LIMIT / TAKE_PROFIT_MARKET: long when price falls to or below the trigger,
+   *   short when price rises to or above it (buy low / sell high).
+   * - STOP_MARKET: long when price rises to or above the trigger (breakout),
+   *   short when price falls to or below it (breakdown).
+   */
   private shouldExecuteOrder(
+    type: OrderType,
     side: OrderSide,
-    limitPrice: string,
+    triggerPrice: string,
     currentPrice: string,
   ): boolean {
-    const comparison = compare(currentPrice, limitPrice);
-    return (
-      (side === OrderSide.LONG && comparison <= 0) || // Buy when price falls to or below limit
-      (side === OrderSide.SHORT && comparison >= 0) // Sell when price rises to or above limit
-    );
+    const comparison = compare(currentPrice, triggerPrice);
+
+    switch (type) {
+      case OrderType.LIMIT:
+      case OrderType.TAKE_PROFIT_MARKET:
+        return (
+          (side === OrderSide.LONG && comparison <= 0) || // Buy when price falls to or below limit
+          (side === OrderSide.SHORT && comparison >= 0) // Sell when price rises to or above limit
+        );
+      case OrderType.STOP_MARKET:
+        return (
+          (side === OrderSide.LONG && comparison >= 0) || // Buy when price breaks out to or above trigger
+          (side === OrderSide.SHORT && comparison <= 0) // Sell when price breaks down to or below trigger
+        );
+      default:
+        return false;
+    }
   }
 
-  private async executeLimitOrder(order: LimitOrder): Promise<void> {
+  /**
+   * @returns Whether the order was filled
+   */
+  private async executeLimitOrder(order: LimitOrder): Promise<boolean> {
+    if (order.reduceOnly) {
+      return this.executeReduceOnlyOrder(order);
+    }
+
+    let releasedMargin = '0';
+    let positionOpened = false;
+
     try {
+      // Release the reservation so openPosition can lock it against the new position
+      releasedMargin = await this.marginService.releaseOrderMargin(
+        order.userId,
+        order.token,
+        order.id,
+      );
+
       // Check if user has sufficient margin
       const marginBalance = await this.marginService.getBalance(
         order.userId,
@@ -198,10 +720,13 @@ export class LimitOrderService {
           { status: OrderStatus.CANCELLED },
           { id: order.id },
         );
+        if (order.groupId) {
+          await this.closeOrderGroup(order.groupId, OrderGroupStatus.CANCELLED);
+        }
         this.logger.warn(
           `Cancelled limit order ${order.id} due to insufficient margin`,
         );
-        return;
+        return false;
       }
 
       // Create market order request from limit order
@@ -213,10 +738,12 @@ export class LimitOrderService {
         size: order.size,
         leverage: order.leverage,
         token: order.token,
+        maxSlippage: '100', // Triggered orders execute at market
       };
 
       // Execute the trade
-      await this.tradeService.openPosition(orderRequest);
+      const position = await this.tradeService.createPosition(orderRequest);
+      positionOpened = true;
 
       // Update order status
       await this.databaseService.update<LimitOrder>(
@@ -225,16 +752,183 @@ export class LimitOrderService {
         { id: order.id },
       );
 
+      if (order.groupId) {
+        await this.activateOrderGroup(order.groupId, position.id);
+      }
+
       // Emit position update event
       this.eventsService.emitPositionsUpdate(orderRequest.userId);
 
       this.logger.log(`Limit order ${order.id} executed successfully`);
+
+      return true;
     } catch (error) {
       this.logger.error(`Failed to execute limit order ${order.id}:`, error);
-      // You might want to implement retry logic or notification system here
+      if (!positionOpened) {
+        await this.restoreOrderReservation(order, releasedMargin);
+      }
+      return positionOpened;
+    }
+  }
+
+  /**
+   * @dev Closes (part of) the order's position through TradeService.closePosition.
+   * The close size is capped at what remains of the position, as it may have been
+   * partially closed since the order was placed.
+   * @returns Whether the order was filled
+   */
+  private async executeReduceOnlyOrder(order: LimitOrder): Promise<boolean> {
+    try {
+      // The other leg of the bracket may have filled earlier in this sweep
+      if (order.groupId && !(await this.isOrderGroupActive(order.groupId))) {
+        return false;
+      }
+
+      const position = await this.tradeService.getPosition(order.positionId);
+
+      if (position.status !== PositionStatus.OPEN) {
+        await this.cancelOrder(order, 'position is no longer open');
+        return false;
+      }
+
+      const closeSize = min(order.size, position.size);
+
+      await this.tradeService.closePosition(
+        position.id,
+        order.userId,
+        closeSize,
+        '100', // Triggered orders execute at market
+      );
+
+      await this.databaseService.update<LimitOrder>(
+        'limit_orders',
+        { status: OrderStatus.FILLED },
+        { id: order.id },
+      );
+
+      if (order.groupId) {
+        await this.closeOrderGroup(order.groupId, OrderGroupStatus.COMPLETED);
+      }
+
+      this.eventsService.emitPositionsUpdate(order.userId);
+
+      this.logger.log(`Reduce-only order ${order.id} executed successfully`);
+
+      return true;
+    } catch (error) {
+      this.logger.error(
+        `Failed to execute reduce-only order ${order.id}:`,
+        error,
+      );
+      return false;
+    }
+  }
+
+  /**
+   * @dev Cancels open reduce-only orders whose position has been closed or liquidated.
+   */
+  private async cancelOrphanedReduceOnlyOrders(): Promise<void> {
+    const reduceOnlyOrders = await this.databaseService.select<LimitOrder>(
+      'limit_orders',
+      {
+        eq: { status: OrderStatus.OPEN, reduceOnly: true },
+      },
+    );
+
+    if (reduceOnlyOrders.length === 0) return;
+
+    const positionIds = [
+      ...new Set(reduceOnlyOrders.map((order) => order.positionId)),
+    ];
+
+    const openPositions = await this.databaseService.select<Position>(
+      'positions',
+      {
+        select: 'id',
+        in: { id: positionIds },
+        eq: { status: PositionStatus.OPEN },
+      },
+    );
+    const openPositionIds = new Set(openPositions.map((p) => p.id));
+
+    for (const order of reduceOnlyOrders) {
+      if (openPositionIds.has(order.positionId)) continue;
+
+      try {
+        await this.cancelOrder(order, 'position is no longer open');
+      } catch (error) {
+        this.logger.error(`Error cancelling limit order ${order.id}:`, error);
+      }
     }
   }
 
+  private async cancelOrder(order: LimitOrder, reason: string): Promise<void> {
+    const [cancelledOrder] = await this.databaseService.update<LimitOrder>(
+      'limit_orders',
+      { status: OrderStatus.CANCELLED },
+      { id: order.id, status: OrderStatus.OPEN },
+    );
+
+    if (!cancelledOrder) return;
+
+    await this.marginService.releaseOrderMargin(
+      order.userId,
+      order.token,
+      order.id,
+    );
+
+    if (order.groupId) {
+      await this.closeOrderGroup(order.groupId, OrderGroupStatus.CANCELLED);
+    }
+
+    this.eventsService.emitOrderUpdate(
+      order.userId,
+      order.id,
+      OrderStatus.CANCELLED,
+    );
+    this.eventsService.emitPositionsUpdate(order.userId);
+
+    this.logger.log(`Cancelled limit order ${order.id}: ${reason}`);
+  }
+
+  /**
+   * @dev Re-reserves an order's margin after a failed execution so it keeps resting.
+   * If the margin can no longer be reserved, the order is cancelled instead.
+   */
+  private async restoreOrderReservation(
+    order: LimitOrder,
+    releasedMargin: string,
+  ): Promise<void> {
+    if (compare(releasedMargin, '0') <= 0) return;
+
+    try {
+      await this.marginService.reserveOrderMargin(
+        order.userId,
+        order.token,
+        releasedMargin,
+        order.id,
+      );
+    } catch (error) {
+      await this.databaseService.update<LimitOrder>(
+        'limit_orders',
+        { status: OrderStatus.CANCELLED },
+        { id: order.id },
+      );
+      if (order.groupId) {
+        await this.closeOrderGroup(order.groupId, OrderGroupStatus.CANCELLED);
+      }
+      this.logger.warn(
+        `Cancelled limit order ${order.id}: margin could not be re-reserved`,
+      );
+    }
+  }
+
+  /**
+   * @dev Standalone orders are returned as-is, bracket orders are nested under their group.
+   */
+  /**
+   * @dev Bracket legs are listed with the other orders, linked to their group by `groupId`.
+   */
   async getUserLimitOrders(userId: string): Promise<LimitOrder[]> {
     return this.databaseService.select<LimitOrder>('limit_orders', {
       eq: { userId },
@@ -242,6 +936,32 @@ export class LimitOrderService {
     });
   }
 
+  async getUserOrderGroups(userId: string): Promise<OrderGroupWithOrders[]> {
+    const [orders, groups] = await Promise.all([
+      this.getUserLimitOrders(userId),
+      this.databaseService.select<OrderGroup>('order_groups', {
+        eq: { userId },
+        order: { column: 'createdAt', ascending: false },
+      }),
+    ]);
+
+    return groups.map((group) => {
+      const groupOrders = orders.filter((order) => order.groupId === group.id);
+      return {
+        ...group,
+        entryOrder: groupOrders.find(
+          (order) => order.id === group.entryOrderId,
+        ),
+        takeProfitOrder: groupOrders.find(
+          (order) => order.type === OrderType.TAKE_PROFIT_MARKET,
+        ),
+        stopLossOrder: groupOrders.find(
+          (order) => order.type === OrderType.STOP_MARKET,
+        ),
+      };
+    });
+  }
+
   async getMarketLimitOrders(marketId: string): Promise<LimitOrder[]> {
     return this.databaseService.select<LimitOrder>('limit_orders', {
       eq: { marketId, status: OrderStatus.OPEN },
@@ -0,0 +1,182 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { AdlService } from './adl.service';
+import { DatabaseService } from '../database/database.service';
+import { PriceService } from '../price/price.service';
+import { TradeService } from '../trade/trade.service';
+import { EventsService } from '../events/events.service';
+import { Position, PositionStatus } from '../entities/position.entity';
+import { OrderSide } from '../types/trade.types';
+import { TokenType } from '../types/token.types';
+
+describe('AdlService', () => {
+  let service: AdlService;
+  let databaseService: jest.Mocked<DatabaseService>;
+  let priceService: jest.Mocked<PriceService>;
+  let tradeService: jest.Mocked<TradeService>;
+  let eventsService: jest.Mocked<EventsService>;
+
+  // Liquidated long with 1000 collateral --> bankruptcy price 18000
+  const bankruptPosition: Position = {
+    id: 'bankrupt',
+    userId: 'user1',
+    marketId: 'market1',
+    symbol: 'BTC-USD',
+    side: OrderSide.LONG,
+    size: '10000',
+    leverage: '10',
+    margin: '1000',
+    entryPrice: '20000',
+    token: TokenType.USDC,
+    status: PositionStatus.OPEN,
+    lockedMarginSOL: '0',
+    lockedMarginUSDC: '1000',
+    accumulatedFunding: '0',
+    accumulatedBorrowingFee: '0',
+    lastFundingUpdate: new Date('2024-01-01T00:00:00Z'),
+    lastBorrowingFeeUpdate: null,
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+    updatedAt: new Date('2024-01-01T00:00:00Z'),
+  };
+
+  const short = (id: string, overrides: Partial<Position> = {}): Position => ({
+    ...bankruptPosition,
+    id,
+    userId: `owner-${id}`,
+    side: OrderSide.SHORT,
+    size: '3000',
+    leverage: '5',
+    margin: '600',
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AdlService,
+        {
+          provide: DatabaseService,
+          useValue: {
+            select: jest.fn(),
+            insert: jest.fn(),
+          },
+        },
+        {
+          provide: PriceService,
+          useValue: {
+            getMarkPrice: jest.fn(),
+          },
+        },
+        {
+          provide: TradeService,
+          useValue: {
+            deleveragePosition: jest.fn(),
+          },
+        },
+        {
+          provide: EventsService,
+          useValue: {
+            emitAdl: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<AdlService>(AdlService);
+    databaseService = module.get(DatabaseService);
+    priceService = module.get(PriceService);
+    tradeService = module.get(TradeService);
+    eventsService = module.get(EventsService);
+
+    priceService.getMarkPrice.mockResolvedValue('17000');
+    databaseService.insert.mockImplementation(async (table, data) => [data]);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should deleverage opposing positions in order of pnl x leverage', async () => {
+    databaseService.select.mockResolvedValue([
+      short('low'),
+      short('high', { leverage: '10' }),
+      // Losing at the mark price, never deleveraged
+      short('losing', { entryPrice: '16000' }),
+    ]);
+
+    // Half the deficit uncovered --> 5000 of the 10000 size
+    const remaining = await service.deleverage(
+      bankruptPosition,
+      '250',
+      '500',
+      20,
+    );
+
+    expect(remaining).toBe('0');
+    expect(databaseService.select).toHaveBeenCalledWith('positions', {
+      eq: {
+        marketId: 'market1',
+        side: OrderSide.SHORT,
+        status: PositionStatus.OPEN,
+      },
+    });
+    expect(tradeService.deleveragePosition.mock.calls).toEqual([
+      ['high', '3000', '18000'],
+      ['low', '2000', '18000'],
+    ]);
+  });
+
+  it('should record and emit each ADL event', async () => {
+    databaseService.select.mockResolvedValue([short('high')]);
+
+    await service.deleverage(bankruptPosition, '100', '500', 20);
+
+    // 3000 * (20000 - 18000) / 20000 * 2000 / 3000
+    const expectedEvent = expect.objectContaining({
+      marketId: 'market1',
+      positionId: 'high',
+      userId: 'owner-high',
+      liquidatedPositionId: 'bankrupt',
+      side: OrderSide.SHORT,
+      size: '2000',
+      price: '18000',
+      realizedPnl: '200',
+    });
+    expect(databaseService.insert).toHaveBeenCalledWith(
+      'adl_events',
+      expectedEvent,
+    );
+    expect(eventsService.emitAdl).toHaveBeenCalledWith(expectedEvent);
+  });
+
+  it('should return the size left when the queue is exhausted', async () => {
+    databaseService.select.mockResolvedValue([short('only')]);
+
+    const remaining = await service.deleverage(
+      bankruptPosition,
+      '500',
+      '500',
+      20,
+    );
+
+    expect(remaining).toBe('7000');
+  });
+
+  it('should skip positions that fail to deleverage', async () => {
+    databaseService.select.mockResolvedValue([
+      short('high', { leverage: '10' }),
+      short('low'),
+    ]);
+    tradeService.deleveragePosition.mockRejectedValueOnce(
+      new Error('Position closed'),
+    );
+
+    await service.deleverage(bankruptPosition, '100', '500', 20);
+
+    expect(tradeService.deleveragePosition).toHaveBeenLastCalledWith(
+      'low',
+      '2000',
+      '18000',
+    );
+    expect(eventsService.emitAdl).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,114 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { DatabaseService } from '../database/database.service';
+import { Position, PositionStatus } from '../entities/position.entity';
+import { AdlEvent } from '../entities/adl-event.entity';
+import { PriceService } from '../price/price.service';
+import { TradeService } from '../trade/trade.service';
+import { EventsService } from '../events/events.service';
+import { OrderSide } from '../types/trade.types';
+import { compare, divide, min, multiply, subtract } from 'src/lib/math';
+import { calculatePnlUSD } from 'src/lib/calculatePnlUsd';
+import { calculateBankruptcyPrice } from 'src/lib/calculateLiquidationPrice';
+import { rankAdlQueue } from 'src/lib/adl';
+
+@Injectable()
+export class AdlService {
+  private readonly logger = new Logger(AdlService.name);
+
+  constructor(
+    private readonly databaseService: DatabaseService,
+    private readonly priceService: PriceService,
+    private readonly tradeService: TradeService,
+    private readonly eventsService: EventsService,
+  ) {}
+
+  /**
+   * @dev Closes the share of a bankrupt position that the insurance fund could not
+   * cover against the most profitable opposing positions, at its bankruptcy price.
+   * @param bankruptPosition The position as it was before being liquidated
+   * @param uncoveredUsd Part of the deficit left after the insurance fund
+   * @param deficitUsd Total deficit of the liquidation
+   * @returns The size that could not be deleveraged
+   */
+  async deleverage(
+    bankruptPosition: Position,
+    uncoveredUsd: string,
+    deficitUsd: string,
+    solPrice: number,
+  ): Promise<string> {
+    const bankruptcyPrice = calculateBankruptcyPrice(
+      bankruptPosition,
+      solPrice,
+    );
+    let remainingSize = multiply(
+      bankruptPosition.size,
+      divide(uncoveredUsd, deficitUsd),
+    );
+
+    const [opposingPositions, markPrice] = await Promise.all([
+      this.databaseService.select<Position>('positions', {
+        eq: {
+          marketId: bankruptPosition.marketId,
+          side:
+            bankruptPosition.side === OrderSide.LONG
+              ? OrderSide.SHORT
+              : OrderSide.LONG,
+          status: PositionStatus.OPEN,
+        },
+      }),
+      this.priceService.getMarkPrice(bankruptPosition.marketId),
+    ]);
+
+    for (const position of rankAdlQueue(opposingPositions, markPrice)) {
+      if (compare(remainingSize, '0') <= 0) break;
+
+      const size = min(remainingSize, position.size);
+
+      try {
+        await this.tradeService.deleveragePosition(
+          position.id,
+          size,
+          bankruptcyPrice,
+        );
+      } catch (error) {
+        this.logger.error(
+          `Failed to deleverage position ${position.id}:`,
+          error,
+        );
+        continue;
+      }
+
+      const [event] = await this.databaseService.insert<AdlEvent>(
+        'adl_events',
+        {
+          id: crypto.randomUUID(),
+          marketId: position.marketId,
+          positionId: position.id,
+          userId: position.userId,
+          liquidatedPositionId: bankruptPosition.id,
+          side: position.side,
+          size,
+          price: bankruptcyPrice,
+          realizedPnl: divide(
+            multiply(calculatePnlUSD(position, bankruptcyPrice), size),
+            position.size,
+          ),
+          createdAt: new Date(),
+        },
+      );
+
+      this.eventsService.emitAdl(event);
+
+      remainingSize = subtract(remainingSize, size);
+    }
+
+    if (compare(remainingSize, '0') > 0) {
+      this.logger.error(
+        `ADL queue exhausted with ${remainingSize} of position ${bankruptPosition.id} left`,
+      );
+      return remainingSize;
+    }
+
+    return '0';
+  }
+}
@@ -1,11 +1,15 @@
 import { Module } from '@nestjs/common';
 import { LiquidationService } from './liquidation.service';
+import { AdlService } from './adl.service';
 import { UserModule } from '../users/user.module';
 import { PriceModule } from '../price/price.module';
 import { EventsModule } from '../events/events.module';
 import { MarginModule } from '../margin/margin.module';
 import { MarketModule } from '../market/market.module';
+import { TradeModule } from '../trade/trade.module';
 import { DatabaseModule } from 'src/database/database.module';
+import { InsuranceFundModule } from '../insurance-fund/insurance-fund.module';
+import { LiquidityModule } from '../liquidity/liquidity.module';
 
 @Module({
   imports: [
@@ -15,8 +19,11 @@ import { DatabaseModule } from 'src/database/database.module';
     EventsModule,
     MarginModule,
     MarketModule,
+    InsuranceFundModule,
+    TradeModule,
+    LiquidityModule,
   ],
-  providers: [LiquidationService],
+  providers: [LiquidationService, AdlService],
   exports: [LiquidationService],
 })
 export class LiquidationModule {}
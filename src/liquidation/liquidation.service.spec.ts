@@ -5,10 +5,15 @@ import { PriceService } from '../price/price.service';
 import { MarginService } from '../margin/margin.service';
 import { MarketService } from '../market/market.service';
 import { EventsService } from '../events/events.service';
+import { InsuranceFundService } from '../insurance-fund/insurance-fund.service';
+import { LiquidityService } from '../liquidity/liquidity.service';
+import { AdlService } from './adl.service';
+import { PositionFeeService } from '../trade/position-fee.service';
 import { Position, PositionStatus } from '../entities/position.entity';
-import { OrderSide } from '../types/trade.types';
+import { OrderSide, TradeType } from '../types/trade.types';
 import { TokenType } from '../types/token.types';
 import { Market } from '../entities/market.entity';
+import { Trade } from '../entities/trade.entity';
 import { MarketStatus } from '../types/market.types';
 import { SECONDS_IN_DAY } from '../common/config';
 
@@ -19,6 +24,10 @@ describe('LiquidationService', () => {
   let marginService: jest.Mocked<MarginService>;
   let marketService: jest.Mocked<MarketService>;
   let eventsService: jest.Mocked<EventsService>;
+  let insuranceFundService: jest.Mocked<InsuranceFundService>;
+  let positionFeeService: jest.Mocked<PositionFeeService>;
+  let adlService: jest.Mocked<AdlService>;
+  let liquidityService: jest.Mocked<LiquidityService>;
 
   const mockPosition: Position = {
     id: '1',
@@ -49,6 +58,7 @@ describe('LiquidationService', () => {
     poolAddress: 'pool-address',
     maxLeverage: '10',
     maintainanceMargin: '0.05',
+    liquidationFee: '0.01',
     borrowingRate: '0.001',
     fundingRate: '0',
     fundingRateVelocity: '0',
@@ -80,13 +90,14 @@ describe('LiquidationService', () => {
           provide: DatabaseService,
           useValue: {
             select: jest.fn(),
+            insert: jest.fn(),
             update: jest.fn(),
           },
         },
         {
           provide: PriceService,
           useValue: {
-            getCurrentPrice: jest.fn(),
+            getMarkPrice: jest.fn(),
             getSolPrice: jest.fn(),
             getUsdcPrice: jest.fn(),
           },
@@ -96,6 +107,8 @@ describe('LiquidationService', () => {
           useValue: {
             reduceLockedMargin: jest.fn(),
             addToLockedMargin: jest.fn(),
+            releaseMargin: jest.fn(),
+            lockMargin: jest.fn(),
           },
         },
         {
@@ -104,6 +117,33 @@ describe('LiquidationService', () => {
             getMarketById: jest.fn(),
             getFundingRate: jest.fn(),
             addTradingFees: jest.fn(),
+            addLiquidationFees: jest.fn(),
+            updateMarket: jest.fn(),
+            updateVirtualReserves: jest.fn(),
+          },
+        },
+        {
+          provide: AdlService,
+          useValue: {
+            deleverage: jest.fn(),
+          },
+        },
+        {
+          provide: InsuranceFundService,
+          useValue: {
+            coverBadDebt: jest.fn(),
+          },
+        },
+        {
+          provide: LiquidityService,
+          useValue: {
+            settleTraderPnl: jest.fn(),
+          },
+        },
+        {
+          provide: PositionFeeService,
+          useValue: {
+            settlePosition: jest.fn(async (position) => position),
           },
         },
         {
@@ -123,6 +163,10 @@ describe('LiquidationService', () => {
     marginService = module.get(MarginService);
     marketService = module.get(MarketService);
     eventsService = module.get(EventsService);
+    insuranceFundService = module.get(InsuranceFundService);
+    adlService = module.get(AdlService);
+    positionFeeService = module.get(PositionFeeService);
+    liquidityService = module.get(LiquidityService);
   });
 
   it('should be defined', () => {
@@ -130,6 +174,10 @@ describe('LiquidationService', () => {
   });
 
   describe('getLiquidationPrice', () => {
+    beforeEach(() => {
+      marketService.getMarketById.mockResolvedValue(mockMarket);
+    });
+
     it('should calculate liquidation price for long position', async () => {
       const position = {
         ...mockPosition,
@@ -188,135 +236,31 @@ describe('LiquidationService', () => {
       });
     });
 
-    it('should throw error if position not found', async () => {
-      databaseService.select.mockResolvedValueOnce([]);
-
-      await expect(service.getLiquidationPrice('1')).rejects.toThrow(
-        'Position not found',
-      );
-    });
-  });
-
-  describe('updatePositionFees', () => {
-    beforeEach(() => {
-      // Reset all mocks
-      jest.clearAllMocks();
-
-      // Setup common mocks
-      databaseService.select.mockImplementation(async (table, query) => {
-        if (table === 'positions') {
-          return [mockPosition];
-        }
-        if (table === 'markets') {
-          return [mockMarket];
-        }
-        return [];
-      });
-
-      marketService.getMarketById.mockResolvedValue(mockMarket);
-      marketService.getFundingRate.mockResolvedValue('0.001');
-      priceService.getUsdcPrice.mockResolvedValue(1);
-      priceService.getSolPrice.mockResolvedValue(20);
-      databaseService.update.mockResolvedValue(undefined);
-      marginService.reduceLockedMargin.mockResolvedValue(undefined);
-      marginService.addToLockedMargin.mockResolvedValue(undefined);
-      marketService.addTradingFees.mockResolvedValue(undefined);
-    });
-
-    it('should update funding fees correctly', async () => {
-      const oldDate = new Date();
-      oldDate.setSeconds(oldDate.getSeconds() - 3600); // 1 hour ago
+    it('should include maintenance margin and liquidation fee', async () => {
       const position = {
         ...mockPosition,
-        lastFundingUpdate: oldDate,
-        accumulatedFunding: '0',
-        size: '1000',
-        token: TokenType.USDC,
+        entryPrice: '20000',
+        size: '10000',
+        lockedMarginUSDC: '1000',
+        lockedMarginSOL: '0',
+        side: OrderSide.LONG,
       };
 
-      databaseService.select.mockImplementationOnce(async () => [position]);
-
-      const now = new Date();
-      // Trigger fee update through private method
-      await (service as any).updateFundingFee(position, now);
-
-      // Verify the update was called with the correct parameters
-      expect(databaseService.update).toHaveBeenCalledWith(
-        'positions',
-        {
-          accumulatedFunding: expect.any(String),
-          lastFundingUpdate: now,
-        },
-        { id: position.id },
-      );
+      databaseService.select.mockResolvedValueOnce([position]);
+      priceService.getSolPrice.mockResolvedValueOnce(20);
 
-      expect(marketService.getFundingRate).toHaveBeenCalled();
-      expect(eventsService.emitFundingFeeCharged).toHaveBeenCalledWith({
-        userId: position.userId,
-        positionId: position.id,
-        marketId: position.marketId,
-        feeUsd: expect.any(String),
-        feeToken: expect.any(String),
-        token: position.token,
-      });
+      // Requirement = 10000 * (0.05 + 0.01) = 600
+      // 20000 * (1 + (600 - 1000) / 10000) = 19200
+      expect(await service.getLiquidationPrice('1')).toBe('19200');
+      expect(marketService.getMarketById).toHaveBeenCalledWith('market1');
     });
 
-    it('should update borrowing fees correctly', async () => {
-      const position = {
-        ...mockPosition,
-        lastBorrowingFeeUpdate: null,
-        accumulatedBorrowingFee: '0',
-        size: '1000',
-        token: TokenType.USDC,
-      };
-      const now = new Date('2024-01-02T00:00:00Z'); // 1 day after position creation
-
-      // Mock database calls
-      databaseService.select.mockImplementation(async (table, query) => {
-        if (table === 'markets') {
-          return [
-            {
-              ...mockMarket,
-              borrowingRate: '0.001', // 0.1% daily rate
-            },
-          ];
-        }
-        return [position];
-      });
-
-      // Trigger fee update through private method
-      await (service as any).updateBorrowingFee(position, now);
-
-      // Verify the update was called with the correct parameters
-      expect(databaseService.update).toHaveBeenCalledWith(
-        'positions',
-        {
-          accumulatedBorrowingFee: '1',
-          lastBorrowingFeeUpdate: now,
-        },
-        { id: position.id },
-      );
-
-      expect(marginService.reduceLockedMargin).toHaveBeenCalledWith(
-        position.userId,
-        position.token,
-        '1', // 1 USDC fee
-      );
+    it('should throw error if position not found', async () => {
+      databaseService.select.mockResolvedValueOnce([]);
 
-      expect(marketService.addTradingFees).toHaveBeenCalledWith(
-        position.marketId,
-        '1', // 1 USDC fee
-        position.token,
+      await expect(service.getLiquidationPrice('1')).rejects.toThrow(
+        'Position not found',
       );
-
-      expect(eventsService.emitBorrowingFeeCharged).toHaveBeenCalledWith({
-        userId: position.userId,
-        positionId: position.id,
-        marketId: position.marketId,
-        feeUsd: '1',
-        feeToken: '1',
-        token: position.token,
-      });
     });
   });
 
@@ -337,7 +281,7 @@ describe('LiquidationService', () => {
       });
 
       marketService.getMarketById.mockResolvedValue(mockMarket);
-      priceService.getCurrentPrice.mockResolvedValue('19000');
+      priceService.getMarkPrice.mockResolvedValue('19000');
       priceService.getSolPrice.mockResolvedValue(20);
       priceService.getUsdcPrice.mockResolvedValue(1);
       databaseService.update.mockResolvedValue(undefined);
@@ -361,9 +305,9 @@ describe('LiquidationService', () => {
       };
 
       // Set current price to trigger liquidation
-      // For a 10x long position with 5% maintenance margin,
-      // price needs to drop by ~9.5% to trigger liquidation
-      const currentPrice = '18000'; // ~9.5% drop from 20000
+      // At 18000 the 1000 collateral is wiped out, so no partial
+      // reduction can restore health
+      const currentPrice = '18000'; // 10% drop from 20000
 
       databaseService.select.mockImplementation(async (table, query) => {
         if (table === 'positions' && query.eq?.status === PositionStatus.OPEN) {
@@ -372,7 +316,7 @@ describe('LiquidationService', () => {
         return [];
       });
 
-      priceService.getCurrentPrice.mockResolvedValue(currentPrice);
+      priceService.getMarkPrice.mockResolvedValue(currentPrice);
       priceService.getSolPrice.mockResolvedValue(20);
 
       // Trigger liquidation check through private method
@@ -384,7 +328,7 @@ describe('LiquidationService', () => {
           status: PositionStatus.LIQUIDATED,
           closingPrice: currentPrice,
           closedAt: expect.any(Date),
-          realizedPnl: '0',
+          realizedPnl: '-1000',
         }),
         { id: position.id },
       );
@@ -408,7 +352,7 @@ describe('LiquidationService', () => {
       const currentPrice = '19900';
 
       databaseService.select.mockImplementationOnce(async () => [position]);
-      priceService.getCurrentPrice.mockResolvedValueOnce(currentPrice);
+      priceService.getMarkPrice.mockResolvedValueOnce(currentPrice);
 
       await (service as any).checkPositionsForLiquidation();
 
@@ -416,4 +360,346 @@ describe('LiquidationService', () => {
       expect(eventsService.emitPositionsUpdate).not.toHaveBeenCalled();
     });
   });
+
+  describe('liquidation price consistency', () => {
+    const basePosition: Position = {
+      ...mockPosition,
+      entryPrice: '20000',
+      size: '10000',
+      lockedMarginUSDC: '1000',
+      lockedMarginSOL: '0',
+      accumulatedFunding: '0',
+      accumulatedBorrowingFee: '0',
+    };
+
+    const liquidatesAt = async (position: Position, price: string) => {
+      databaseService.update.mockClear();
+      databaseService.select.mockImplementation(async (table, query) => {
+        if (table === 'positions' && query.eq?.status === PositionStatus.OPEN) {
+          return [position];
+        }
+        return [];
+      });
+      priceService.getMarkPrice.mockResolvedValue(price);
+
+      await (service as any).checkPositionsForLiquidation();
+
+      return databaseService.update.mock.calls.some(
+        ([table]) => table === 'positions',
+      );
+    };
+
+    const reportedPrice = async (position: Position) => {
+      databaseService.select.mockResolvedValueOnce([position]);
+      return service.getLiquidationPrice(position.id);
+    };
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      marketService.getMarketById.mockResolvedValue(mockMarket);
+      priceService.getSolPrice.mockResolvedValue(20);
+      databaseService.update.mockResolvedValue(undefined);
+    });
+
+    it('should liquidate a long exactly at the reported price', async () => {
+      const position = { ...basePosition, side: OrderSide.LONG };
+      const liquidationPrice = await reportedPrice(position);
+
+      expect(liquidationPrice).toBe('19200');
+      expect(await liquidatesAt(position, '19201')).toBe(false);
+      expect(await liquidatesAt(position, liquidationPrice)).toBe(true);
+    });
+
+    it('should liquidate a short exactly at the reported price', async () => {
+      const position = { ...basePosition, side: OrderSide.SHORT };
+      const liquidationPrice = await reportedPrice(position);
+
+      expect(liquidationPrice).toBe('20800');
+      expect(await liquidatesAt(position, '20799')).toBe(false);
+      expect(await liquidatesAt(position, liquidationPrice)).toBe(true);
+    });
+
+    it('should move the price closer when fees have accumulated', async () => {
+      const position = {
+        ...basePosition,
+        side: OrderSide.LONG,
+        accumulatedFunding: '150',
+        accumulatedBorrowingFee: '50',
+      };
+      const liquidationPrice = await reportedPrice(position);
+
+      // Collateral net of fees = 800 --> 20000 * (1 + (600 - 800) / 10000)
+      expect(liquidationPrice).toBe('19600');
+      expect(await liquidatesAt(position, '19601')).toBe(false);
+      expect(await liquidatesAt(position, liquidationPrice)).toBe(true);
+    });
+
+    it('should count fees accrued since the last settlement', async () => {
+      marketService.getMarketById.mockResolvedValue({
+        ...mockMarket,
+        fundingRate: '0',
+        cumulativeFundingIndex: '0.02',
+        borrowingRate: '0',
+        cumulativeBorrowingIndex: '0.005',
+      });
+      const position = {
+        ...basePosition,
+        side: OrderSide.LONG,
+        fundingIndex: '0.005',
+        borrowingIndex: '0',
+      };
+      const liquidationPrice = await reportedPrice(position);
+
+      // 10000 * 0.015 funding + 10000 * 0.005 borrowing pending = 200 in fees
+      expect(liquidationPrice).toBe('19600');
+      expect(await liquidatesAt(position, liquidationPrice)).toBe(true);
+    });
+
+    it('should value SOL collateral and fees at the SOL price', async () => {
+      const position = {
+        ...basePosition,
+        side: OrderSide.SHORT,
+        token: TokenType.SOL,
+        lockedMarginUSDC: '0',
+        lockedMarginSOL: '50',
+        accumulatedBorrowingFee: '5',
+      };
+      const liquidationPrice = await reportedPrice(position);
+
+      // (50 - 5) SOL * $20 = 900 --> 20000 * (1 - (600 - 900) / 10000)
+      expect(liquidationPrice).toBe('20600');
+      expect(await liquidatesAt(position, '20599')).toBe(false);
+      expect(await liquidatesAt(position, liquidationPrice)).toBe(true);
+    });
+
+    it("should use the market's own risk parameters", async () => {
+      marketService.getMarketById.mockResolvedValue({
+        ...mockMarket,
+        maintainanceMargin: '0.02',
+        liquidationFee: '0.005',
+      });
+      const position = { ...basePosition, side: OrderSide.LONG };
+      const liquidationPrice = await reportedPrice(position);
+
+      // Requirement = 10000 * 0.025 = 250 --> 20000 * (1 + (250 - 1000) / 10000)
+      expect(liquidationPrice).toBe('18500');
+      expect(await liquidatesAt(position, '18501')).toBe(false);
+      expect(await liquidatesAt(position, liquidationPrice)).toBe(true);
+    });
+  });
+
+  describe('partial liquidations', () => {
+    const position: Position = {
+      ...mockPosition,
+      entryPrice: '20000',
+      size: '10000',
+      margin: '1000',
+      lockedMarginUSDC: '1000',
+      lockedMarginSOL: '0',
+      side: OrderSide.LONG,
+    };
+
+    const liquidateAt = async (price: string) => {
+      databaseService.select.mockImplementation(async (table, query) => {
+        if (table === 'positions' && query.eq?.status === PositionStatus.OPEN) {
+          return [position];
+        }
+        return [];
+      });
+      priceService.getMarkPrice.mockResolvedValue(price);
+
+      await (service as any).checkPositionsForLiquidation();
+    };
+
+    const positionUpdate = () =>
+      databaseService.update.mock.calls.find(
+        ([table]) => table === 'positions',
+      )[1] as Partial<Position>;
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      marketService.getMarketById.mockResolvedValue({
+        ...mockMarket,
+        longOpenInterest: '10000',
+      });
+      priceService.getSolPrice.mockResolvedValue(20);
+      databaseService.update.mockResolvedValue(undefined);
+      databaseService.insert.mockResolvedValue(undefined);
+      insuranceFundService.coverBadDebt.mockResolvedValue('0');
+    });
+
+    it('should settle pending fees before sizing the liquidation', async () => {
+      positionFeeService.settlePosition.mockResolvedValueOnce({
+        ...position,
+        accumulatedFunding: '100',
+      });
+
+      // Equity is 400 after the 100 of fees, 500 before them
+      await liquidateAt('19000');
+
+      expect(positionFeeService.settlePosition).toHaveBeenCalledWith(
+        position,
+        expect.objectContaining({ id: mockMarket.id }),
+      );
+      // size = (10000 * 0.066 - 400) / (0.066 - 0.01)
+      expect(10000 - Number(positionUpdate().size)).toBeCloseTo(4642.857142, 4);
+    });
+
+    it('should reduce the position just enough to restore health', async () => {
+      // pnl = -500, equity = 500, target = 0.06 * 1.1 = 0.066
+      // size = (10000 * 0.066 - 500) / (0.066 - 0.01) = 2857.14...
+      await liquidateAt('19000');
+
+      const update = positionUpdate();
+      const closedSize = 10000 - Number(update.size);
+      expect(update.status).toBeUndefined();
+      expect(closedSize).toBeCloseTo(2857.142857, 4);
+
+      // 1000 - 142.86 closed pnl - 28.57 penalty
+      expect(Number(update.lockedMarginUSDC)).toBeCloseTo(828.571428, 4);
+      expect(marginService.releaseMargin).toHaveBeenCalledWith(
+        'user1',
+        TokenType.USDC,
+        '1',
+        expect.any(String),
+      );
+      expect(marginService.lockMargin).toHaveBeenCalledWith(
+        'user1',
+        TokenType.USDC,
+        update.lockedMarginUSDC,
+        '1',
+      );
+      expect(
+        Number(marketService.addLiquidationFees.mock.calls[0][1]),
+      ).toBeCloseTo(28.571428, 4);
+
+      // Remaining equity is 110% of the remaining requirement
+      const remaining = { ...position, ...update };
+      const equity =
+        Number(update.lockedMarginUSDC) + (-500 * Number(update.size)) / 10000;
+      expect(equity / (Number(update.size) * 0.06)).toBeCloseTo(1.1, 6);
+
+      databaseService.select.mockResolvedValueOnce([remaining]);
+      const liquidationPrice = await service.getLiquidationPrice('1');
+      expect(Number(liquidationPrice)).toBeLessThan(19000);
+    });
+
+    it('should record a liquidation trade and update open interest', async () => {
+      await liquidateAt('19000');
+
+      const { size } = positionUpdate();
+      const closedSize = (10000 - Number(size)).toString();
+
+      expect(databaseService.insert).toHaveBeenCalledWith(
+        'trades',
+        expect.objectContaining({
+          positionId: '1',
+          side: OrderSide.SHORT,
+          price: '19000',
+          type: TradeType.LIQUIDATION,
+        }),
+      );
+      const trade = databaseService.insert.mock.calls[0][1] as Trade;
+      expect(Number(trade.size)).toBeCloseTo(Number(closedSize), 6);
+      expect(Number(trade.fee)).toBeCloseTo(28.571428, 4);
+
+      expect(marketService.updateVirtualReserves).toHaveBeenCalledWith(
+        'market1',
+        OrderSide.LONG,
+        trade.size,
+        true,
+      );
+      expect(marketService.updateMarket).toHaveBeenCalledWith('market1', {
+        longOpenInterest: size,
+        shortOpenInterest: '0',
+      });
+    });
+
+    it('should fully liquidate when equity cannot cover the penalty', async () => {
+      // pnl = -950, equity = 50 < 10000 * 0.01 penalty
+      await liquidateAt('18100');
+
+      expect(positionUpdate()).toMatchObject({
+        status: PositionStatus.LIQUIDATED,
+        closingPrice: '18100',
+        realizedPnl: '-950',
+      });
+
+      // Nothing is returned, the remaining equity is taken as the penalty
+      expect(marginService.releaseMargin).toHaveBeenCalledWith(
+        'user1',
+        TokenType.USDC,
+        '1',
+        '-1000',
+        '0',
+      );
+      expect(marginService.lockMargin).not.toHaveBeenCalled();
+      expect(marketService.addLiquidationFees).toHaveBeenCalledWith(
+        'market1',
+        '50',
+        TokenType.USDC,
+        '1',
+      );
+      expect(insuranceFundService.coverBadDebt).not.toHaveBeenCalled();
+      expect(liquidityService.settleTraderPnl).toHaveBeenCalledWith('-950');
+    });
+
+    it('should release only the margin left after the fees already settled', async () => {
+      positionFeeService.settlePosition.mockResolvedValueOnce({
+        ...position,
+        accumulatedBorrowingFee: '100',
+      });
+
+      // pnl = -950, equity = 1000 - 100 of fees - 950 = -50
+      await liquidateAt('18100');
+
+      // 900 is still locked, nothing is paid out
+      expect(marginService.releaseMargin).toHaveBeenCalledWith(
+        'user1',
+        TokenType.USDC,
+        '1',
+        '-900',
+        '100',
+      );
+    });
+
+    it('should cover negative equity from the insurance fund', async () => {
+      // pnl = -1500, equity = -500
+      await liquidateAt('17000');
+
+      expect(positionUpdate().status).toBe(PositionStatus.LIQUIDATED);
+      expect(marginService.releaseMargin).toHaveBeenCalledWith(
+        'user1',
+        TokenType.USDC,
+        '1',
+        '-1000',
+        '0',
+      );
+      expect(marketService.addLiquidationFees).not.toHaveBeenCalled();
+      expect(insuranceFundService.coverBadDebt).toHaveBeenCalledWith(
+        '500',
+        TokenType.USDC,
+        20,
+        'market1',
+        '1',
+      );
+      expect(adlService.deleverage).not.toHaveBeenCalled();
+      // The pool takes the whole loss, the insurance fund made up the deficit
+      expect(liquidityService.settleTraderPnl).toHaveBeenCalledWith('-1500');
+    });
+
+    it('should auto-deleverage what the insurance fund cannot cover', async () => {
+      insuranceFundService.coverBadDebt.mockResolvedValue('200');
+
+      await liquidateAt('17000');
+
+      expect(adlService.deleverage).toHaveBeenCalledWith(
+        expect.objectContaining({ id: '1', size: '10000' }),
+        '200',
+        '500',
+        20,
+      );
+      expect(liquidityService.settleTraderPnl).toHaveBeenCalledWith('-1300');
+    });
+  });
 });
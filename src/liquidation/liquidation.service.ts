@@ -3,20 +3,39 @@ import { DatabaseService } from '../database/database.service';
 import { Position, PositionStatus } from '../entities/position.entity';
 import { Market } from '../entities/market.entity';
 import { PriceService } from '../price/price.service';
-import { OrderSide } from '../types/trade.types';
+import { OrderSide, TradeType } from '../types/trade.types';
 import { TokenType } from 'src/types/token.types';
 import { MarginService } from '../margin/margin.service';
 import { MarketService } from '../market/market.service';
 import { EventsService } from '../events/events.service';
-import { add, divide, multiply, subtract, compare } from 'src/lib/math';
+import { InsuranceFundService } from '../insurance-fund/insurance-fund.service';
+import { LiquidityService } from '../liquidity/liquidity.service';
+import { AdlService } from './adl.service';
+import { PositionFeeService } from '../trade/position-fee.service';
+import { applyPendingFees, calculatePendingFees } from 'src/lib/positionFees';
+import {
+  add,
+  divide,
+  multiply,
+  subtract,
+  compare,
+  min,
+  max,
+} from 'src/lib/math';
 import { calculatePnlUSD } from 'src/lib/calculatePnlUsd';
-import { SECONDS_IN_DAY } from 'src/common/config';
+import {
+  calculateCollateralValue,
+  calculateLiquidationPrice,
+} from 'src/lib/calculateLiquidationPrice';
+import { getMarketRiskParams } from 'src/lib/marketRisk';
+import { LIQUIDATION_HEALTH_BUFFER } from 'src/common/config';
+import { MarketRiskParams } from 'src/types/market.types';
+import { Trade } from '../entities/trade.entity';
 
 @Injectable()
 export class LiquidationService {
   private readonly logger = new Logger(LiquidationService.name);
   private readonly checkInterval = 5000;
-  private readonly maintenanceMarginRate = '0.05';
 
   constructor(
     private readonly databaseService: DatabaseService,
@@ -24,6 +43,10 @@ export class LiquidationService {
     private readonly eventsService: EventsService,
     private readonly marginService: MarginService,
     private readonly marketService: MarketService,
+    private readonly insuranceFundService: InsuranceFundService,
+    private readonly adlService: AdlService,
+    private readonly positionFeeService: PositionFeeService,
+    private readonly liquidityService: LiquidityService,
   ) {
     this.startMonitoring();
   }
@@ -31,10 +54,7 @@ export class LiquidationService {
   private async startMonitoring() {
     setInterval(async () => {
       try {
-        await Promise.all([
-          this.checkPositionsForLiquidation(),
-          this.updatePositionFees(),
-        ]);
+        await this.checkPositionsForLiquidation();
       } catch (error) {
         this.logger.error('Error checking positions for liquidation:', error);
       }
@@ -57,75 +77,40 @@ export class LiquidationService {
     return this.calculateLiquidationPrice(position);
   }
 
+  /**
+   * A position is liquidatable once the price crosses its liquidation price,
+   * so the price reported to users is exactly where the engine acts.
+   */
   private async isLiquidatable(
     position: Position,
     currentPrice: string,
   ): Promise<boolean> {
-    const solPrice = await this.priceService.getSolPrice();
+    const liquidationPrice = await this.calculateLiquidationPrice(position);
 
-    const pnl = calculatePnlUSD(position, currentPrice);
-
-    const collateralValue = add(
-      multiply(position.lockedMarginSOL || '0', solPrice.toString()),
-      position.lockedMarginUSDC || '0',
-    );
-
-    // Calculate the minimum collateral required (maintenance margin)
-    const maintenanceMargin = multiply(
-      collateralValue,
-      this.maintenanceMarginRate,
-    );
-
-    // Calculate remaining collateral after PnL
-    const remainingCollateral = add(collateralValue, pnl);
-
-    // Liquidate if remaining collateral is less than maintenance margin
-    return compare(remainingCollateral, maintenanceMargin) < 0;
+    return position.side === OrderSide.LONG
+      ? compare(currentPrice, liquidationPrice) <= 0
+      : compare(currentPrice, liquidationPrice) >= 0;
   }
 
+  /**
+   * @dev Includes the fees accrued since the last settlement, which the
+   * collateral owes even though they are not charged yet.
+   */
   private async calculateLiquidationPrice(position: Position): Promise<string> {
-    const solPrice = await this.priceService.getSolPrice();
-
-    // Calculate total collateral value in USD
-    const collateralValue = add(
-      multiply(position.lockedMarginSOL, solPrice),
-      position.lockedMarginUSDC,
+    const [solPrice, market] = await Promise.all([
+      this.priceService.getSolPrice(),
+      this.marketService.getMarketById(position.marketId),
+    ]);
+
+    return calculateLiquidationPrice(
+      applyPendingFees(
+        position,
+        calculatePendingFees(position, market, Date.now()),
+        position.token === TokenType.SOL ? solPrice : '1',
+      ),
+      solPrice,
+      getMarketRiskParams(market, position.size),
     );
-
-    // Account for accumulated fees
-    const totalFees = add(
-      position.accumulatedFunding || '0',
-      position.accumulatedBorrowingFee || '0',
-    );
-
-    // For liquidation: abs(pnl) = collateralValue
-    // pnl = (currentPrice - entryPrice) * size for longs
-    // pnl = (entryPrice - currentPrice) * size for shorts
-
-    if (position.side === OrderSide.LONG) {
-      // (currentPrice - entryPrice) * size - fees = -collateralValue
-      // currentPrice * size = -collateralValue + fees + entryPrice * size
-      return divide(
-        subtract(
-          subtract(
-            multiply(position.entryPrice, position.size),
-            collateralValue,
-          ),
-          totalFees,
-        ),
-        position.size,
-      );
-    } else {
-      // (entryPrice - currentPrice) * size - fees = -collateralValue
-      // currentPrice * size = entryPrice * size + collateralValue + fees
-      return divide(
-        add(
-          add(multiply(position.entryPrice, position.size), collateralValue),
-          totalFees,
-        ),
-        position.size,
-      );
-    }
   }
 
   private async checkPositionsForLiquidation(): Promise<void> {
@@ -136,7 +121,7 @@ export class LiquidationService {
     await Promise.all(
       positions.map(async (position) => {
         try {
-          const currentPrice = await this.priceService.getCurrentPrice(
+          const currentPrice = await this.priceService.getMarkPrice(
             position.marketId,
           );
 
@@ -147,9 +132,6 @@ export class LiquidationService {
 
           if (isLiquidatable) {
             await this.liquidatePosition(position, currentPrice);
-            this.logger.warn(
-              `Liquidated position ${position.id} at price ${currentPrice}`,
-            );
           }
         } catch (error) {
           this.logger.error(
@@ -161,6 +143,12 @@ export class LiquidationService {
     );
   }
 
+  /**
+   * @dev Tiered liquidation. The position is first reduced just enough to bring its
+   * equity back above the maintenance requirement, with the liquidation fee charged
+   * on the reduced size. It is only liquidated in full when no partial reduction
+   * can restore health.
+   */
   private async liquidatePosition(
     position: Position,
     currentPrice: string,
@@ -172,27 +160,106 @@ export class LiquidationService {
         throw new Error(`Market ${position.marketId} not found`);
       }
 
-      // Update position status
+      // Charge the fees accrued since the last settlement before sizing the liquidation
+      position = await this.positionFeeService.settlePosition(position, market);
+
+      const solPrice = await this.priceService.getSolPrice();
+      const riskParams = getMarketRiskParams(market, position.size);
+
+      const pnl = calculatePnlUSD(position, currentPrice);
+      const equity = add(calculateCollateralValue(position, solPrice), pnl);
+
+      const liquidationSize = this.calculateLiquidationSize(
+        position,
+        equity,
+        riskParams,
+      );
+      const isFullLiquidation = compare(liquidationSize, position.size) >= 0;
+      const sizeDelta = isFullLiquidation ? position.size : liquidationSize;
+
+      const closedPnl = multiply(pnl, divide(sizeDelta, position.size));
+
+      // Penalty on the liquidated size, capped at whatever equity is left
+      const penaltyUsd = isFullLiquidation
+        ? min(
+            multiply(sizeDelta, riskParams.liquidationFeeRate),
+            max(equity, '0'),
+          )
+        : multiply(sizeDelta, riskParams.liquidationFeeRate);
+
+      // 1. Settle collateral through the margin locks, split pro rata by token
+      const newLockedMargin = await this.settleLiquidationMargin(
+        position,
+        market,
+        solPrice,
+        isFullLiquidation
+          ? max(subtract(equity, penaltyUsd), '0')
+          : subtract(closedPnl, penaltyUsd),
+        penaltyUsd,
+        isFullLiquidation,
+      );
+
+      // A deficit beyond the collateral is bad debt, covered by the insurance fund
+      // and then by auto-deleveraging the most profitable opposing positions
+      let uncoveredUsd = '0';
+      if (isFullLiquidation && compare(equity, '0') < 0) {
+        const deficitUsd = multiply(equity, '-1');
+        uncoveredUsd = await this.insuranceFundService.coverBadDebt(
+          deficitUsd,
+          position.token,
+          solPrice,
+          market.id,
+          position.id,
+        );
+
+        if (compare(uncoveredUsd, '0') > 0) {
+          await this.adlService.deleverage(
+            position,
+            uncoveredUsd,
+            deficitUsd,
+            solPrice,
+          );
+        }
+      }
+
+      // The pool takes the trader's loss, short of the bad debt the insurance
+      // fund could not cover. ADL closes at the bankruptcy price to make it up.
+      await this.liquidityService.settleTraderPnl(add(closedPnl, uncoveredUsd));
+
+      // 2. Update position
+      const realizedPnl = add(position.realizedPnl || '0', closedPnl);
+
       await this.databaseService.update<Position>(
         'positions',
-        {
-          status: PositionStatus.LIQUIDATED,
-          closedAt: new Date(),
-          closingPrice: currentPrice,
-          realizedPnl: '0',
-        },
+        isFullLiquidation
+          ? {
+              status: PositionStatus.LIQUIDATED,
+              closedAt: new Date(),
+              closingPrice: currentPrice,
+              realizedPnl,
+            }
+          : {
+              size: subtract(position.size, sizeDelta),
+              lockedMarginSOL: newLockedMargin[TokenType.SOL],
+              lockedMarginUSDC: newLockedMargin[TokenType.USDC],
+              margin: multiply(
+                position.margin,
+                divide(subtract(position.size, sizeDelta), position.size),
+              ),
+              realizedPnl,
+            },
         { id: position.id },
       );
 
-      // Update market's open interest
+      // 3. Update market's open interest
       await this.marketService.updateMarket(market.id, {
         longOpenInterest:
           position.side === OrderSide.LONG
-            ? subtract(market.longOpenInterest, position.size)
+            ? subtract(market.longOpenInterest, sizeDelta)
             : market.longOpenInterest,
         shortOpenInterest:
           position.side === OrderSide.SHORT
-            ? subtract(market.shortOpenInterest, position.size)
+            ? subtract(market.shortOpenInterest, sizeDelta)
             : market.shortOpenInterest,
       });
 
@@ -200,14 +267,36 @@ export class LiquidationService {
       await this.marketService.updateVirtualReserves(
         market.id,
         position.side,
-        position.size,
+        sizeDelta,
         true,
       );
 
+      // 4. Record the liquidation trade, penalty in the position's token
+      await this.databaseService.insert<Trade>('trades', {
+        id: crypto.randomUUID(),
+        positionId: position.id,
+        userId: position.userId,
+        marketId: position.marketId,
+        side:
+          position.side === OrderSide.LONG ? OrderSide.SHORT : OrderSide.LONG,
+        size: sizeDelta,
+        price: currentPrice,
+        leverage: position.leverage,
+        realizedPnl: closedPnl,
+        fee: divide(
+          penaltyUsd,
+          position.token === TokenType.SOL ? solPrice : '1',
+        ),
+        type: TradeType.LIQUIDATION,
+        createdAt: new Date(),
+      });
+
       this.eventsService.emitPositionsUpdate(position.userId);
 
       this.logger.log(
-        `Position ${position.id} liquidated at price ${currentPrice}`,
+        `Position ${position.id} ${
+          isFullLiquidation ? 'fully' : 'partially'
+        } liquidated: ${sizeDelta} at price ${currentPrice}`,
       );
     } catch (error) {
       this.logger.error(`Failed to liquidate position ${position.id}:`, error);
@@ -215,215 +304,123 @@ export class LiquidationService {
     }
   }
 
-  private async updatePositionFees(): Promise<void> {
-    const positions = await this.databaseService.select<Position>('positions', {
-      eq: { status: PositionStatus.OPEN },
-    });
-    const now = new Date();
+  /**
+   * @dev Size to close so that the remaining position, after paying the liquidation
+   * fee on the closed size, holds LIQUIDATION_HEALTH_BUFFER above its requirement:
+   * equity - size * fee = (position.size - size) * target
+   */
+  private calculateLiquidationSize(
+    position: Position,
+    equity: string,
+    riskParams: MarketRiskParams,
+  ): string {
+    const targetRate = multiply(
+      add(riskParams.maintenanceMarginRate, riskParams.liquidationFeeRate),
+      add('1', LIQUIDATION_HEALTH_BUFFER),
+    );
 
-    await Promise.all(
-      positions.map(async (position) => {
-        try {
-          await Promise.all([
-            this.updateBorrowingFee(position, now),
-            this.updateFundingFee(position, now),
-          ]);
-        } catch (error) {
-          this.logger.error(
-            `Error updating fees for position ${position.id}:`,
-            error,
-          );
-        }
-      }),
+    return divide(
+      subtract(multiply(position.size, targetRate), equity),
+      subtract(targetRate, riskParams.liquidationFeeRate),
     );
   }
 
-  private async updateFundingFee(position: Position, now: Date): Promise<void> {
-    if (!position.lastFundingUpdate) {
-      position.lastFundingUpdate = position.createdAt;
-    }
+  /**
+   * @dev Releases each locked token with its share of the settlement. A partial
+   * liquidation re-locks what is left, a full one returns it to the user. The penalty
+   * is split between the market and the insurance fund in the token it was taken from.
+   * @param settlementUsd Amount returned to the user on a full liquidation, or the change
+   * in collateral (closed pnl - penalty) on a partial one
+   * @returns The position's locked margin per token after settlement
+   */
+  private async settleLiquidationMargin(
+    position: Position,
+    market: Market,
+    solPrice: number,
+    settlementUsd: string,
+    penaltyUsd: string,
+    isFullLiquidation: boolean,
+  ): Promise<Record<TokenType, string>> {
+    const lockedMargin: Record<TokenType, string> = {
+      [TokenType.SOL]: position.lockedMarginSOL || '0',
+      [TokenType.USDC]: position.lockedMarginUSDC || '0',
+    };
+    const tokenPrices: Record<TokenType, string> = {
+      [TokenType.SOL]: solPrice.toString(),
+      [TokenType.USDC]: '1',
+    };
+
+    const lockedUsd = add(
+      multiply(lockedMargin[TokenType.SOL], tokenPrices[TokenType.SOL]),
+      lockedMargin[TokenType.USDC],
+    );
 
-    // Calculate seconds since last update
-    const secondsSinceLastUpdate =
-      (now.getTime() - new Date(position.lastFundingUpdate).getTime()) / 1000;
+    const newLockedMargin = { ...lockedMargin };
 
-    // Only proceed if at least 1 second has passed
-    if (secondsSinceLastUpdate >= 1) {
-      const market = await this.marketService.getMarketById(position.marketId);
-      if (!market) {
-        throw new Error('Market not found');
-      }
+    for (const token of [TokenType.SOL, TokenType.USDC]) {
+      if (compare(lockedMargin[token], '0') <= 0) continue;
 
-      // Get current funding rate
-      const currentFundingRate = await this.marketService.getFundingRate(
-        market.id,
+      const share = divide(
+        multiply(lockedMargin[token], tokenPrices[token]),
+        lockedUsd,
       );
-
-      // Calculate funding fee based on position size and funding rate
-      // Note: Funding rate is already in daily terms
-      const fundingFeeUsd = multiply(
-        position.size,
-        multiply(
-          currentFundingRate,
-          divide(secondsSinceLastUpdate.toString(), SECONDS_IN_DAY),
-        ),
+      const settlement = divide(
+        multiply(settlementUsd, share),
+        tokenPrices[token],
       );
-
-      // For shorts, they receive funding when rate is positive and pay when negative
-      // For longs, they pay funding when rate is positive and receive when negative
-      const adjustedFundingFeeUsd =
-        position.side === OrderSide.LONG
-          ? fundingFeeUsd
-          : multiply(fundingFeeUsd, '-1');
-
-      // Get token price for conversion
-      const tokenPrice =
-        position.token === TokenType.SOL
-          ? await this.priceService.getSolPrice()
-          : await this.priceService.getUsdcPrice();
-
-      // Convert fee to token amount
-      const feeInToken = divide(adjustedFundingFeeUsd, tokenPrice);
-
-      // If fee is positive, user pays. If negative, user receives
-      if (parseFloat(feeInToken) > 0) {
-        // Deduct fee from user's margin balance
-        await this.marginService.reduceLockedMargin(
+      const penalty = divide(multiply(penaltyUsd, share), tokenPrices[token]);
+
+      newLockedMargin[token] = isFullLiquidation
+        ? '0'
+        : add(lockedMargin[token], settlement);
+
+      if (isFullLiquidation) {
+        // Fees settled so far already left the locked balance, so only what is
+        // still locked is released and the payout lands on the settlement
+        const feesPaid =
+          token === position.token
+            ? add(
+                position.accumulatedFunding || '0',
+                position.accumulatedBorrowingFee || '0',
+              )
+            : '0';
+
+        await this.marginService.releaseMargin(
           position.userId,
-          position.token,
-          feeInToken,
-        );
-
-        // Add fee to market's tracking
-        await this.marketService.addTradingFees(
-          market.id,
-          feeInToken,
-          position.token,
+          token,
+          position.id,
+          subtract(settlement, subtract(lockedMargin[token], feesPaid)),
+          feesPaid,
         );
       } else {
-        // User receives funding payment
-        const receivedAmount = multiply(feeInToken, '-1'); // Convert negative to positive
-        await this.marginService.addToLockedMargin(
+        // The lock is taken again at its gross amount, fees stay on the position
+        await this.marginService.releaseMargin(
           position.userId,
-          position.token,
-          receivedAmount,
+          token,
+          position.id,
+          settlement,
         );
       }
 
-      // Update position with accumulated funding and timestamp
-      await this.databaseService.update<Position>(
-        'positions',
-        {
-          accumulatedFunding: add(
-            position.accumulatedFunding || '0',
-            feeInToken,
-          ),
-          lastFundingUpdate: now,
-        },
-        { id: position.id },
-      );
-
-      // Emit funding fee event
-      this.eventsService.emitFundingFeeCharged({
-        userId: position.userId,
-        positionId: position.id,
-        marketId: market.id,
-        feeUsd: adjustedFundingFeeUsd,
-        feeToken: feeInToken,
-        token: position.token,
-      });
-    }
-  }
-
-  private async updateBorrowingFee(
-    position: Position,
-    now: Date,
-  ): Promise<void> {
-    try {
-      if (!position.lastBorrowingFeeUpdate) {
-        position.lastBorrowingFeeUpdate = position.createdAt;
-      }
-
-      // Calculate seconds since last update
-      const secondsSinceLastUpdate =
-        (now.getTime() - new Date(position.lastBorrowingFeeUpdate).getTime()) /
-        1000;
-
-      // Only proceed if at least 1 second has passed
-      if (secondsSinceLastUpdate >= 1) {
-        const [market] = await this.databaseService.select<Market>('markets', {
-          eq: { id: position.marketId },
-          limit: 1,
-        });
-
-        if (!market) {
-          throw new Error('Market not found');
-        }
-
-        const positionValue = position.size || '0';
-
-        // Calculate the portion of daily rate to charge
-        // market.borrowingRate is daily rate, so divide by seconds in a day
-        const borrowingFeeUsd = multiply(
-          positionValue,
-          multiply(
-            market.borrowingRate || '0',
-            divide(secondsSinceLastUpdate.toString(), SECONDS_IN_DAY),
-          ),
-        );
-
-        // Get token price for conversion
-        const tokenPrice =
-          position.token === TokenType.SOL
-            ? await this.priceService.getSolPrice()
-            : await this.priceService.getUsdcPrice();
-
-        // Convert fee to token amount
-        const feeInToken = divide(borrowingFeeUsd || '0', tokenPrice || '1');
-
-        // Deduct fee from user's margin balance
-        await this.marginService.reduceLockedMargin(
+      if (!isFullLiquidation && compare(newLockedMargin[token], '0') > 0) {
+        await this.marginService.lockMargin(
           position.userId,
-          position.token,
-          feeInToken,
+          token,
+          newLockedMargin[token],
+          position.id,
         );
+      }
 
-        // Add fee to market's tracking
-        await this.marketService.addTradingFees(
+      if (compare(penalty, '0') > 0) {
+        await this.marketService.addLiquidationFees(
           market.id,
-          feeInToken,
-          position.token,
-        );
-
-        // Update with exact timestamp
-        await this.databaseService.update<Position>(
-          'positions',
-          {
-            accumulatedBorrowingFee: add(
-              position.accumulatedBorrowingFee || '0',
-              feeInToken,
-            ),
-            lastBorrowingFeeUpdate: now, // Use current timestamp
-          },
-          { id: position.id },
+          penalty,
+          token,
+          position.id,
         );
-
-        // Emit fee charged event
-        this.eventsService.emitBorrowingFeeCharged({
-          userId: position.userId,
-          positionId: position.id,
-          marketId: market.id,
-          feeUsd: borrowingFeeUsd,
-          feeToken: feeInToken,
-          token: position.token,
-        });
       }
-    } catch (error) {
-      this.logger.error(
-        `Error updating borrowing fees for position ${position.id}:`,
-        error,
-      );
-      throw error;
     }
+
+    return newLockedMargin;
   }
 }
@@ -0,0 +1,43 @@
+import { Body, Controller, Get, Post, Query } from '@nestjs/common';
+import { LiquidityService } from './liquidity.service';
+import {
+  LiquidityDepositRequest,
+  LiquidityPoolInfo,
+  LiquidityWithdrawalRequest,
+  LPPositionInfo,
+} from '../types/liquidity.types';
+import { validatePublicKey } from 'src/common/validators';
+
+@Controller('liquidity')
+export class LiquidityController {
+  constructor(private readonly liquidityService: LiquidityService) {}
+
+  @Post('deposit')
+  async deposit(
+    @Body() request: LiquidityDepositRequest,
+  ): Promise<LPPositionInfo> {
+    validatePublicKey(request.publicKey);
+    return this.liquidityService.deposit(request.publicKey, request.amount);
+  }
+
+  @Post('withdraw')
+  async withdraw(
+    @Body() request: LiquidityWithdrawalRequest,
+  ): Promise<LPPositionInfo> {
+    validatePublicKey(request.publicKey);
+    return this.liquidityService.withdraw(request.publicKey, request.lpTokens);
+  }
+
+  @Get('pool')
+  async getPool(): Promise<LiquidityPoolInfo> {
+    return this.liquidityService.getPoolInfo();
+  }
+
+  @Get('position')
+  async getPosition(
+    @Query('publicKey') publicKey: string,
+  ): Promise<LPPositionInfo> {
+    validatePublicKey(publicKey);
+    return this.liquidityService.getPosition(publicKey);
+  }
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { LiquidityController } from './liquidity.controller';
+import { LiquidityService } from './liquidity.service';
+import { DatabaseModule } from '../database/database.module';
+import { MarginModule } from '../margin/margin.module';
+import { PriceModule } from '../price/price.module';
+
+@Module({
+  imports: [DatabaseModule, MarginModule, PriceModule],
+  controllers: [LiquidityController],
+  providers: [LiquidityService],
+  exports: [LiquidityService],
+})
+export class LiquidityModule {}
@@ -0,0 +1,424 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { LiquidityService } from './liquidity.service';
+import { DatabaseService } from '../database/database.service';
+import { MarginService } from '../margin/margin.service';
+import { PriceService } from '../price/price.service';
+import { LiquidityPool } from '../entities/liquidity-pool.entity';
+import { LPPosition } from '../entities/lp-position.entity';
+import { Market } from '../entities/market.entity';
+import { Position } from '../entities/position.entity';
+import { InsufficientMarginError } from '../common/errors';
+import { TokenType } from '../types/token.types';
+import { OrderSide } from '../types/trade.types';
+
+describe('LiquidityService', () => {
+  let service: LiquidityService;
+  let databaseService: jest.Mocked<DatabaseService>;
+  let marginService: jest.Mocked<MarginService>;
+  let priceService: jest.Mocked<PriceService>;
+
+  // NAV of 11000 over 10000 LP tokens --> 1.1 USDC per token
+  const mockPool: LiquidityPool = {
+    id: 'pool-1',
+    totalLiquidity: '11000',
+    availableLiquidity: '11000',
+    utilizationRate: '0',
+    maxUtilizationRate: '0.8',
+    lpTokenSupply: '10000',
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+    updatedAt: new Date('2024-01-01T00:00:00Z'),
+  };
+
+  const mockPosition: LPPosition = {
+    id: 'lp-1',
+    userId: 'user-1',
+    lpTokens: '2000',
+    sharePercentage: '20',
+    depositedAmount: '2000',
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+    updatedAt: new Date('2024-01-01T00:00:00Z'),
+  };
+
+  // Open long of 1000 at 100, worth 1100 to its trader at a mark price of 110
+  const winningLong: Partial<Position> = {
+    marketId: 'market-1',
+    side: OrderSide.LONG,
+    size: '1000',
+    entryPrice: '100',
+    margin: '200',
+  };
+
+  const mockTables = ({
+    pool = mockPool,
+    position = mockPosition,
+    openInterest = [] as Partial<Market>[],
+    traderPositions = [] as Partial<Position>[],
+  }: {
+    pool?: LiquidityPool;
+    position?: LPPosition;
+    openInterest?: Partial<Market>[];
+    traderPositions?: Partial<Position>[];
+  } = {}) =>
+    databaseService.select.mockImplementation(async (table) => {
+      if (table === 'liquidity_pool') return pool ? [pool] : [];
+      if (table === 'lp_positions') return position ? [position] : [];
+      if (table === 'positions') return traderPositions;
+      return openInterest;
+    });
+
+  const poolUpdate = () =>
+    databaseService.update.mock.calls.find(
+      ([table]) => table === 'liquidity_pool',
+    )[1] as Partial<LiquidityPool>;
+
+  const positionUpdate = () =>
+    databaseService.update.mock.calls.find(
+      ([table]) => table === 'lp_positions',
+    )[1] as Partial<LPPosition>;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LiquidityService,
+        {
+          provide: DatabaseService,
+          useValue: {
+            select: jest.fn(),
+            insert: jest.fn(async (_, data) => [data]),
+            update: jest.fn(async (table, data) => [
+              table === 'liquidity_pool'
+                ? { ...mockPool, ...data }
+                : { ...mockPosition, ...data },
+            ]),
+          },
+        },
+        {
+          provide: MarginService,
+          useValue: {
+            deductMargin: jest.fn(),
+            creditMargin: jest.fn(),
+          },
+        },
+        {
+          provide: PriceService,
+          useValue: {
+            getMarkPrice: jest.fn().mockResolvedValue('110'),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<LiquidityService>(LiquidityService);
+    databaseService = module.get(DatabaseService);
+    marginService = module.get(MarginService);
+    priceService = module.get(PriceService);
+
+    mockTables();
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getPool', () => {
+    it('should create an empty pool on first use', async () => {
+      mockTables({ pool: null });
+
+      const pool = await service.getPool();
+
+      expect(pool).toMatchObject({
+        totalLiquidity: '0',
+        lpTokenSupply: '0',
+        maxUtilizationRate: '0.8',
+      });
+      expect(databaseService.insert).toHaveBeenCalledWith(
+        'liquidity_pool',
+        expect.objectContaining({ totalLiquidity: '0' }),
+      );
+    });
+  });
+
+  describe('getPoolInfo', () => {
+    it('should report the LP token price and live utilization', async () => {
+      mockTables({
+        openInterest: [
+          { longOpenInterest: '3000', shortOpenInterest: '1000' },
+          { longOpenInterest: '400', shortOpenInterest: '1000' },
+        ],
+      });
+
+      const info = await service.getPoolInfo();
+
+      // 5400 of open interest needs 5400 / 0.8 = 6750 to stay put
+      expect(info).toMatchObject({
+        lpTokenPrice: '1.1',
+        totalOpenInterest: '5400',
+        availableLiquidity: '5600',
+        withdrawableLiquidity: '4250',
+      });
+      expect(Number(info.utilizationRate)).toBeCloseTo(5400 / 11000, 12);
+    });
+
+    it('should mark open positions to market in the NAV', async () => {
+      mockTables({
+        traderPositions: [
+          winningLong,
+          // Down 150 at 13, but the trader can only lose their margin of 50
+          {
+            marketId: 'market-2',
+            side: OrderSide.SHORT,
+            size: '500',
+            entryPrice: '10',
+            margin: '50',
+          },
+        ],
+      });
+      priceService.getMarkPrice.mockImplementation(async (marketId) =>
+        marketId === 'market-1' ? '110' : '13',
+      );
+
+      const info = await service.getPoolInfo();
+
+      expect(info).toMatchObject({
+        traderPnl: '50',
+        nav: '10950',
+        lpTokenPrice: '1.095',
+      });
+      expect(priceService.getMarkPrice).toHaveBeenCalledTimes(2);
+    });
+
+    it('should keep a market at its last mark price while its oracle is down', async () => {
+      mockTables({ traderPositions: [winningLong] });
+      await service.getPoolInfo();
+
+      priceService.getMarkPrice.mockRejectedValue(
+        new Error('Only 0 of 1 required price sources are available for SOL'),
+      );
+      const info = await service.getPoolInfo();
+
+      expect(info).toMatchObject({ traderPnl: '100', nav: '10900' });
+    });
+  });
+
+  describe('getOpenInterestCapacity', () => {
+    it('should cap open interest across all markets at the max utilization rate', async () => {
+      mockTables({
+        openInterest: [
+          { longOpenInterest: '3000', shortOpenInterest: '1000' },
+          { longOpenInterest: '400', shortOpenInterest: '1000' },
+        ],
+      });
+
+      expect(await service.getOpenInterestCapacity()).toEqual({
+        totalOpenInterest: '5400',
+        maxOpenInterest: '8800',
+      });
+    });
+  });
+
+  describe('getPosition', () => {
+    it('should value the position at the LP token price', async () => {
+      expect(await service.getPosition('user-1')).toMatchObject({
+        lpTokens: '2000',
+        sharePercentage: '20',
+        value: '2200',
+      });
+    });
+
+    it('should throw for a user without a position', async () => {
+      mockTables({ position: null });
+
+      await expect(service.getPosition('user-2')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('deposit', () => {
+    it('should mint LP tokens against the pool NAV', async () => {
+      const position = await service.deposit('user-1', '1100');
+
+      expect(marginService.deductMargin).toHaveBeenCalledWith(
+        'user-1',
+        TokenType.USDC,
+        '1100',
+      );
+      expect(poolUpdate()).toMatchObject({
+        totalLiquidity: '12100',
+        lpTokenSupply: '11000',
+      });
+      expect(positionUpdate()).toMatchObject({
+        lpTokens: '3000',
+        depositedAmount: '3100',
+      });
+      expect(position.value).toBe('3300');
+    });
+
+    it('should mint 1:1 into an empty pool and open a position', async () => {
+      mockTables({
+        pool: {
+          ...mockPool,
+          totalLiquidity: '0',
+          availableLiquidity: '0',
+          lpTokenSupply: '0',
+        },
+        position: null,
+      });
+      await service.deposit('user-2', '500');
+
+      expect(databaseService.insert).toHaveBeenCalledWith(
+        'lp_positions',
+        expect.objectContaining({
+          userId: 'user-2',
+          lpTokens: '500',
+          depositedAmount: '500',
+          sharePercentage: '100',
+        }),
+      );
+    });
+
+    it('should price the LP tokens net of what traders stand to win', async () => {
+      mockTables({ traderPositions: [winningLong] });
+
+      // NAV of 11000 - 100 = 10900 --> 1.09 USDC per token
+      await service.deposit('user-1', '1090');
+
+      expect(poolUpdate()).toMatchObject({
+        totalLiquidity: '12090',
+        lpTokenSupply: '11000',
+      });
+    });
+
+    it('should not mint once traders have won the whole pool', async () => {
+      mockTables({
+        traderPositions: [{ ...winningLong, size: '110000', margin: '20000' }],
+      });
+
+      await expect(service.deposit('user-1', '1100')).rejects.toThrow(
+        'The pool has no NAV to mint against',
+      );
+      expect(marginService.deductMargin).not.toHaveBeenCalled();
+    });
+
+    it('should reject a non-positive amount', async () => {
+      await expect(service.deposit('user-1', '0')).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(marginService.deductMargin).not.toHaveBeenCalled();
+    });
+
+    it('should not mint without the margin to pay for it', async () => {
+      marginService.deductMargin.mockRejectedValueOnce(
+        new InsufficientMarginError('Insufficient available margin'),
+      );
+
+      await expect(service.deposit('user-1', '1100')).rejects.toThrow(
+        InsufficientMarginError,
+      );
+      expect(databaseService.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject while a market with open positions has never been priced', async () => {
+      mockTables({ traderPositions: [winningLong] });
+      priceService.getMarkPrice.mockRejectedValue(
+        new Error('Only 0 of 1 required price sources are available for SOL'),
+      );
+
+      await expect(service.deposit('user-1', '1100')).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(marginService.deductMargin).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('withdraw', () => {
+    it('should burn LP tokens for USDC at the LP token price', async () => {
+      const position = await service.withdraw('user-1', '500');
+
+      expect(poolUpdate()).toMatchObject({
+        totalLiquidity: '10450',
+        lpTokenSupply: '9500',
+      });
+      // A quarter of the tokens is burnt, so a quarter of the deposit goes
+      expect(positionUpdate()).toMatchObject({
+        lpTokens: '1500',
+        depositedAmount: '1500',
+      });
+      expect(marginService.creditMargin).toHaveBeenCalledWith(
+        'user-1',
+        TokenType.USDC,
+        '550',
+      );
+      expect(position.value).toBe('1650');
+    });
+
+    it('should pay out at the NAV after unrealized trader PnL', async () => {
+      mockTables({ traderPositions: [winningLong] });
+
+      await service.withdraw('user-1', '500');
+
+      expect(marginService.creditMargin).toHaveBeenCalledWith(
+        'user-1',
+        TokenType.USDC,
+        '545',
+      );
+    });
+
+    it('should reject burning more LP tokens than the user holds', async () => {
+      await expect(service.withdraw('user-1', '2001')).rejects.toThrow(
+        'Insufficient LP tokens',
+      );
+      expect(marginService.creditMargin).not.toHaveBeenCalled();
+    });
+
+    it('should keep the pool within its max utilization rate', async () => {
+      mockTables({
+        openInterest: [{ longOpenInterest: '5000', shortOpenInterest: '1000' }],
+      });
+
+      // 11000 - 6000 / 0.8 = 3500 withdrawable, 2000 tokens are worth 2200
+      await expect(service.withdraw('user-1', '2000')).resolves.toBeDefined();
+
+      mockTables({
+        openInterest: [{ longOpenInterest: '6200', shortOpenInterest: '1000' }],
+      });
+
+      // 11000 - 7200 / 0.8 = 2000 withdrawable
+      await expect(service.withdraw('user-1', '2000')).rejects.toThrow(
+        'Only 2000 USDC can be withdrawn at the current pool utilization',
+      );
+    });
+  });
+
+  describe('creditFees', () => {
+    it("should add the pool's share of fees to its liquidity", async () => {
+      await service.creditFees('70');
+
+      expect(poolUpdate()).toMatchObject({
+        totalLiquidity: '11070',
+        lpTokenSupply: '10000',
+      });
+    });
+
+    it('should skip empty fees', async () => {
+      await service.creditFees('0');
+
+      expect(databaseService.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('settleTraderPnl', () => {
+    it("should pay a trader's gain out of the pool", async () => {
+      await service.settleTraderPnl('200');
+
+      expect(poolUpdate()).toMatchObject({ totalLiquidity: '10800' });
+    });
+
+    it("should add a trader's loss to the pool", async () => {
+      await service.settleTraderPnl('-300');
+
+      expect(poolUpdate()).toMatchObject({ totalLiquidity: '11300' });
+    });
+  });
+});
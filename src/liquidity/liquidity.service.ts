@@ -0,0 +1,437 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { DatabaseService } from '../database/database.service';
+import { MarginService } from '../margin/margin.service';
+import { PriceService } from '../price/price.service';
+import { LiquidityPool } from '../entities/liquidity-pool.entity';
+import { LPPosition } from '../entities/lp-position.entity';
+import { Market } from '../entities/market.entity';
+import { Position, PositionStatus } from '../entities/position.entity';
+import { LiquidityPoolInfo, LPPositionInfo } from 'src/types/liquidity.types';
+import { TokenType } from 'src/types/token.types';
+import { DEFAULT_MAX_UTILIZATION_RATE } from 'src/common/config';
+import {
+  add,
+  clamp,
+  compare,
+  divide,
+  isZero,
+  max,
+  multiply,
+  subtract,
+} from 'src/lib/math';
+import {
+  calculateLpTokenPrice,
+  calculateLpTokensOut,
+  calculateMaxOpenInterest,
+  calculateTraderPnl,
+  calculateWithdrawableLiquidity,
+  calculateWithdrawalAmount,
+} from 'src/lib/liquidity';
+import { PoolCapacity } from 'src/lib/openInterest';
+
+/**
+ * @dev LPs deposit USDC from their available margin into a single pool that
+ * backs the open interest of every market, for LP tokens priced at the pool's
+ * NAV. Withdrawals burn LP tokens back into available margin, as long as the
+ * pool stays within its max utilization rate.
+ *
+ * The pool is the counterparty to every trader: it earns its share of trading
+ * fees, takes realized trader PnL, and its NAV marks open positions to market.
+ */
+@Injectable()
+export class LiquidityService {
+  // Last mark price NAV was computed with, per market
+  private readonly lastMarkPrices = new Map<string, string>();
+
+  constructor(
+    private readonly databaseService: DatabaseService,
+    private readonly marginService: MarginService,
+    private readonly priceService: PriceService,
+  ) {}
+
+  /**
+   * @dev The pool is a single row, created empty on first use.
+   */
+  async getPool(): Promise<LiquidityPool> {
+    const [pool] = await this.databaseService.select<LiquidityPool>(
+      'liquidity_pool',
+      { limit: 1 },
+    );
+
+    if (pool) {
+      return pool;
+    }
+
+    const [createdPool] = await this.databaseService.insert<LiquidityPool>(
+      'liquidity_pool',
+      {
+        id: crypto.randomUUID(),
+        totalLiquidity: '0',
+        availableLiquidity: '0',
+        utilizationRate: '0',
+        maxUtilizationRate: DEFAULT_MAX_UTILIZATION_RATE,
+        lpTokenSupply: '0',
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      },
+    );
+
+    return createdPool;
+  }
+
+  async getPoolInfo(): Promise<LiquidityPoolInfo> {
+    const [pool, totalOpenInterest, traderPnl] = await Promise.all([
+      this.getPool(),
+      this.getTotalOpenInterest(),
+      this.getTraderPnl(),
+    ]);
+    const nav = subtract(pool.totalLiquidity, traderPnl);
+
+    return {
+      ...pool,
+      ...this.getUtilization(pool.totalLiquidity, totalOpenInterest),
+      nav,
+      traderPnl,
+      totalOpenInterest,
+      withdrawableLiquidity: calculateWithdrawableLiquidity(
+        pool,
+        totalOpenInterest,
+      ),
+      lpTokenPrice: calculateLpTokenPrice(nav, pool.lpTokenSupply),
+    };
+  }
+
+  /**
+   * @dev Open interest across all markets and the most the pool can back at
+   * its max utilization rate. Every market's caps are checked against it.
+   */
+  async getOpenInterestCapacity(): Promise<PoolCapacity> {
+    const [pool, totalOpenInterest] = await Promise.all([
+      this.getPool(),
+      this.getTotalOpenInterest(),
+    ]);
+
+    return {
+      totalOpenInterest,
+      maxOpenInterest: calculateMaxOpenInterest(pool),
+    };
+  }
+
+  async getPosition(userId: string): Promise<LPPositionInfo> {
+    const [position, pool, traderPnl] = await Promise.all([
+      this.findPosition(userId),
+      this.getPool(),
+      this.getTraderPnl(),
+    ]);
+
+    if (!position) {
+      throw new NotFoundException(`No liquidity position for user ${userId}`);
+    }
+
+    return this.toPositionInfo(position, pool, traderPnl);
+  }
+
+  async deposit(userId: string, amount: string): Promise<LPPositionInfo> {
+    if (compare(amount, '0') <= 0) {
+      throw new BadRequestException('Deposit amount must be positive');
+    }
+
+    const [pool, position, totalOpenInterest, traderPnl] = await Promise.all([
+      this.getPool(),
+      this.findPosition(userId),
+      this.getTotalOpenInterest(),
+      this.getTraderPnl(),
+    ]);
+    const nav = subtract(pool.totalLiquidity, traderPnl);
+
+    // Traders' gains have wiped out the pool, new deposits would only cover them
+    if (
+      compare(pool.lpTokenSupply, '0') > 0 &&
+      compare(calculateLpTokenPrice(nav, pool.lpTokenSupply), '0') <= 0
+    ) {
+      throw new BadRequestException('The pool has no NAV to mint against');
+    }
+
+    const lpTokens = calculateLpTokensOut(nav, pool.lpTokenSupply, amount);
+
+    await this.marginService.deductMargin(userId, TokenType.USDC, amount);
+
+    const updatedPool = await this.updatePool(
+      pool,
+      add(pool.totalLiquidity, amount),
+      add(pool.lpTokenSupply, lpTokens),
+      totalOpenInterest,
+    );
+    const updatedPosition = await this.savePosition(
+      userId,
+      position,
+      add(position?.lpTokens || '0', lpTokens),
+      add(position?.depositedAmount || '0', amount),
+      updatedPool,
+    );
+
+    return this.toPositionInfo(updatedPosition, updatedPool, traderPnl);
+  }
+
+  async withdraw(userId: string, lpTokens: string): Promise<LPPositionInfo> {
+    if (compare(lpTokens, '0') <= 0) {
+      throw new BadRequestException('LP token amount must be positive');
+    }
+
+    const [pool, position, totalOpenInterest, traderPnl] = await Promise.all([
+      this.getPool(),
+      this.findPosition(userId),
+      this.getTotalOpenInterest(),
+      this.getTraderPnl(),
+    ]);
+
+    if (!position || compare(position.lpTokens, lpTokens) < 0) {
+      throw new BadRequestException('Insufficient LP tokens');
+    }
+
+    const amount = calculateWithdrawalAmount(
+      subtract(pool.totalLiquidity, traderPnl),
+      pool.lpTokenSupply,
+      lpTokens,
+    );
+    const withdrawable = calculateWithdrawableLiquidity(
+      pool,
+      totalOpenInterest,
+    );
+    if (compare(amount, withdrawable) > 0) {
+      throw new BadRequestException(
+        `Only ${withdrawable} USDC can be withdrawn at the current pool utilization`,
+      );
+    }
+
+    const updatedPool = await this.updatePool(
+      pool,
+      subtract(pool.totalLiquidity, amount),
+      subtract(pool.lpTokenSupply, lpTokens),
+      totalOpenInterest,
+    );
+
+    // The deposited amount is reduced by the share of LP tokens burnt
+    const remainingShare = divide(
+      subtract(position.lpTokens, lpTokens),
+      position.lpTokens,
+    );
+    const updatedPosition = await this.savePosition(
+      userId,
+      position,
+      subtract(position.lpTokens, lpTokens),
+      multiply(position.depositedAmount, remainingShare),
+      updatedPool,
+    );
+
+    await this.marginService.creditMargin(userId, TokenType.USDC, amount);
+
+    return this.toPositionInfo(updatedPosition, updatedPool, traderPnl);
+  }
+
+  /**
+   * @dev Adds the pool's share of trading fees, in USD, to its liquidity.
+   */
+  async creditFees(amountUsd: string): Promise<void> {
+    if (compare(amountUsd, '0') <= 0) {
+      return;
+    }
+
+    await this.adjustLiquidity(amountUsd);
+  }
+
+  /**
+   * @dev Settles PnL realized by a trader against the pool, their gain is
+   * paid out of its liquidity and their loss is added to it.
+   */
+  async settleTraderPnl(pnlUsd: string): Promise<void> {
+    if (isZero(pnlUsd)) {
+      return;
+    }
+
+    await this.adjustLiquidity(multiply(pnlUsd, '-1'));
+  }
+
+  private async adjustLiquidity(amount: string): Promise<void> {
+    const [pool, totalOpenInterest] = await Promise.all([
+      this.getPool(),
+      this.getTotalOpenInterest(),
+    ]);
+
+    await this.updatePool(
+      pool,
+      add(pool.totalLiquidity, amount),
+      pool.lpTokenSupply,
+      totalOpenInterest,
+    );
+  }
+
+  private async updatePool(
+    pool: LiquidityPool,
+    totalLiquidity: string,
+    lpTokenSupply: string,
+    totalOpenInterest: string,
+  ): Promise<LiquidityPool> {
+    const [updatedPool] = await this.databaseService.update<LiquidityPool>(
+      'liquidity_pool',
+      {
+        totalLiquidity,
+        lpTokenSupply,
+        ...this.getUtilization(totalLiquidity, totalOpenInterest),
+        updatedAt: new Date(),
+      },
+      { id: pool.id },
+    );
+
+    return updatedPool;
+  }
+
+  private async savePosition(
+    userId: string,
+    position: LPPosition | undefined,
+    lpTokens: string,
+    depositedAmount: string,
+    pool: LiquidityPool,
+  ): Promise<LPPosition> {
+    const data = {
+      lpTokens,
+      depositedAmount,
+      sharePercentage: this.getSharePercentage(lpTokens, pool),
+      updatedAt: new Date(),
+    };
+
+    if (!position) {
+      const [createdPosition] = await this.databaseService.insert<LPPosition>(
+        'lp_positions',
+        {
+          id: crypto.randomUUID(),
+          userId,
+          ...data,
+          createdAt: new Date(),
+        },
+      );
+      return createdPosition;
+    }
+
+    const [updatedPosition] = await this.databaseService.update<LPPosition>(
+      'lp_positions',
+      data,
+      { id: position.id },
+    );
+    return updatedPosition;
+  }
+
+  private async findPosition(userId: string): Promise<LPPosition | undefined> {
+    const [position] = await this.databaseService.select<LPPosition>(
+      'lp_positions',
+      { eq: { userId }, limit: 1 },
+    );
+
+    return position;
+  }
+
+  private async getTotalOpenInterest(): Promise<string> {
+    const markets = await this.databaseService.select<Market>('markets', {});
+
+    return add(
+      ...markets.flatMap((market) => [
+        market.longOpenInterest,
+        market.shortOpenInterest,
+      ]),
+    );
+  }
+
+  /**
+   * @dev Unrealized PnL of every open position at its market's mark price.
+   * A market whose oracle is down is marked at its last known mark price, so
+   * one stale feed doesn't halt the pool. Without one, the pool can't be valued.
+   */
+  private async getTraderPnl(): Promise<string> {
+    const positions = await this.databaseService.select<Position>('positions', {
+      eq: { status: PositionStatus.OPEN },
+    });
+    const marketIds = [
+      ...new Set(positions.map((position) => position.marketId)),
+    ];
+    const markPrices = await Promise.all(
+      marketIds.map(
+        async (marketId) =>
+          [marketId, await this.getMarkPrice(marketId)] as const,
+      ),
+    );
+
+    return calculateTraderPnl(positions, new Map(markPrices));
+  }
+
+  private async getMarkPrice(marketId: string): Promise<string> {
+    try {
+      const markPrice = await this.priceService.getMarkPrice(marketId);
+      this.lastMarkPrices.set(marketId, markPrice);
+      return markPrice;
+    } catch (error) {
+      const lastMarkPrice = this.lastMarkPrices.get(marketId);
+      if (!lastMarkPrice) {
+        throw new BadRequestException(
+          `Pool NAV is unavailable, market ${marketId} has no mark price: ${error instanceof Error ? error.message : error}`,
+        );
+      }
+      return lastMarkPrice;
+    }
+  }
+
+  private getUtilization(
+    totalLiquidity: string,
+    totalOpenInterest: string,
+  ): Pick<LiquidityPool, 'availableLiquidity' | 'utilizationRate'> {
+    const availableLiquidity = max(
+      subtract(totalLiquidity, totalOpenInterest),
+      '0',
+    );
+
+    if (isZero(totalOpenInterest)) {
+      return { availableLiquidity, utilizationRate: '0' };
+    }
+    if (isZero(totalLiquidity)) {
+      return { availableLiquidity, utilizationRate: '1' };
+    }
+
+    return {
+      availableLiquidity,
+      utilizationRate: clamp(
+        divide(totalOpenInterest, totalLiquidity),
+        '0',
+        '1',
+      ),
+    };
+  }
+
+  /**
+   * @dev Shares are stored as of the position's last change, so views
+   * recompute them against the current supply.
+   */
+  private getSharePercentage(lpTokens: string, pool: LiquidityPool): string {
+    return compare(pool.lpTokenSupply, '0') > 0
+      ? multiply(divide(lpTokens, pool.lpTokenSupply), '100')
+      : '0';
+  }
+
+  private toPositionInfo(
+    position: LPPosition,
+    pool: LiquidityPool,
+    traderPnl: string,
+  ): LPPositionInfo {
+    return {
+      ...position,
+      sharePercentage: this.getSharePercentage(position.lpTokens, pool),
+      value: calculateWithdrawalAmount(
+        subtract(pool.totalLiquidity, traderPnl),
+        pool.lpTokenSupply,
+        position.lpTokens,
+      ),
+    };
+  }
+}
@@ -235,6 +235,30 @@ describe('MarginService', () => {
       expect(eventsService.emitBalancesUpdate).toHaveBeenCalledWith('user-1');
     });
 
+    it('should not release fees already taken from the locked balance', async () => {
+      // 30 of the 100 lock was charged as fees, 70 is still locked
+      userService.getMarginBalance.mockResolvedValueOnce({
+        ...mockMarginBalance,
+        lockedBalance: '70',
+      });
+
+      await service.releaseMargin(
+        'user-1',
+        TokenType.USDC,
+        'trade-1',
+        '-20',
+        '30',
+      );
+
+      expect(userService.updateMarginBalance).toHaveBeenCalledWith(
+        'user-1',
+        TokenType.USDC,
+        '1050',
+        '0',
+        mockMarginBalance.unrealizedPnl,
+      );
+    });
+
     it('should throw error when margin lock not found', async () => {
       databaseService.select.mockResolvedValueOnce([]);
 
@@ -244,6 +268,49 @@ describe('MarginService', () => {
     });
   });
 
+  describe('releaseOrderMargin', () => {
+    const mockOrderLock: MarginLock = {
+      id: 'lock-2',
+      userId: 'user-1',
+      tradeId: 'order-1',
+      token: TokenType.USDC,
+      amount: '200',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    it('should release the order reservation and return its amount', async () => {
+      databaseService.select.mockResolvedValue([mockOrderLock]);
+
+      const released = await service.releaseOrderMargin(
+        'user-1',
+        TokenType.USDC,
+        'order-1',
+      );
+
+      expect(released).toBe('200');
+      expect(databaseService.delete).toHaveBeenCalledWith('margin_locks', {
+        userId: 'user-1',
+        tradeId: 'order-1',
+        token: TokenType.USDC,
+      });
+    });
+
+    it('should be a no-op for orders without a reservation', async () => {
+      databaseService.select.mockResolvedValue([]);
+
+      const released = await service.releaseOrderMargin(
+        'user-1',
+        TokenType.USDC,
+        'order-1',
+      );
+
+      expect(released).toBe('0');
+      expect(databaseService.delete).not.toHaveBeenCalled();
+      expect(userService.updateMarginBalance).not.toHaveBeenCalled();
+    });
+  });
+
   describe('processWithdrawal', () => {
     beforeEach(() => {
       databaseService.select.mockResolvedValue([mockWithdrawalRequest]);
@@ -337,6 +404,21 @@ describe('MarginService', () => {
     });
   });
 
+  describe('creditMargin', () => {
+    it('should add to the available balance', async () => {
+      await service.creditMargin('user-1', TokenType.USDC, '100');
+
+      expect(userService.updateMarginBalance).toHaveBeenCalledWith(
+        'user-1',
+        TokenType.USDC,
+        '1100',
+        mockMarginBalance.lockedBalance,
+        mockMarginBalance.unrealizedPnl,
+      );
+      expect(eventsService.emitBalancesUpdate).toHaveBeenCalledWith('user-1');
+    });
+  });
+
   describe('reduceLockedMargin', () => {
     beforeEach(() => {
       userService.getMarginBalance.mockResolvedValue({
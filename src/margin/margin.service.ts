@@ -175,11 +175,17 @@ export class MarginService {
     this.eventsService.emitBalancesUpdate(userId);
   }
 
+  /**
+   * @dev Returns the lock plus `pnl` to the available balance. `feesPaid` is
+   * what reduceLockedMargin already took out of the locked balance while the
+   * lock was held, it is neither unlocked nor returned a second time.
+   */
   async releaseMargin(
     userId: string,
     token: TokenType,
     tradeId: string,
     pnl: string = '0',
+    feesPaid: string = '0',
   ): Promise<void> {
     const [marginLocks, marginBalance] = await Promise.all([
       this.databaseService.select<MarginLock>('margin_locks', {
@@ -195,13 +201,15 @@ export class MarginService {
       throw new Error('Margin lock not found');
     }
 
-    // Calculate final amount to return (original margin + PnL)
-    const returnAmount = add(marginLock.amount, pnl);
+    const lockedAmount = subtract(marginLock.amount, feesPaid);
+
+    // Calculate final amount to return (margin still locked + PnL)
+    const returnAmount = add(lockedAmount, pnl);
 
     // Update balances
     const newLockedBalance = subtract(
       marginBalance.lockedBalance,
-      marginLock.amount,
+      lockedAmount,
     );
     const newAvailableBalance = add(
       marginBalance.availableBalance,
@@ -226,6 +234,47 @@ export class MarginService {
     this.eventsService.emitBalancesUpdate(userId);
   }
 
+  /**
+   * @dev Reserves margin for a resting limit order.
+   * The reservation is a margin lock keyed by the order id, so it is
+   * reflected in the user's locked balance until the order is filled or cancelled.
+   */
+  async reserveOrderMargin(
+    userId: string,
+    token: TokenType,
+    amount: string,
+    orderId: string,
+  ): Promise<void> {
+    await this.lockMargin(userId, token, amount, orderId);
+  }
+
+  /**
+   * @dev Returns a limit order's reservation to the user's available balance.
+   * Orders placed before reservations existed have no lock, so this is a no-op for them.
+   * @returns The amount that was released
+   */
+  async releaseOrderMargin(
+    userId: string,
+    token: TokenType,
+    orderId: string,
+  ): Promise<string> {
+    const [marginLock] = await this.databaseService.select<MarginLock>(
+      'margin_locks',
+      {
+        eq: { userId, tradeId: orderId, token },
+        limit: 1,
+      },
+    );
+
+    if (!marginLock) {
+      return '0';
+    }
+
+    await this.releaseMargin(userId, token, orderId);
+
+    return marginLock.amount;
+  }
+
   async getBalance(userId: string, token: TokenType): Promise<MarginBalance> {
     return this.userService.getMarginBalance(userId, token);
   }
@@ -358,6 +407,39 @@ export class MarginService {
     this.eventsService.emitBalancesUpdate(userId);
   }
 
+  /**
+   * @dev Increases the user's availableBalance
+   */
+  async creditMargin(
+    userId: string,
+    token: TokenType,
+    amount: string,
+  ): Promise<void> {
+    if (!this.SUPPORTED_TOKENS.has(token)) {
+      throw new InvalidTokenError(
+        `Token ${token} is not supported for margin credits`,
+      );
+    }
+
+    // Get current margin balance
+    const marginBalance = await this.userService.getMarginBalance(
+      userId,
+      token,
+    );
+
+    // Update balance in database
+    await this.userService.updateMarginBalance(
+      userId,
+      token,
+      add(marginBalance.availableBalance, amount),
+      marginBalance.lockedBalance,
+      marginBalance.unrealizedPnl,
+    );
+
+    // Emit balance update event
+    this.eventsService.emitBalancesUpdate(userId);
+  }
+
   /**
    * @dev Reduces the user's locked margin.
    * Useful for charging borrowing fees.
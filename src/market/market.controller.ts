@@ -7,14 +7,21 @@ import {
   Param,
   UseGuards,
   Query,
+  Inject,
+  forwardRef,
 } from '@nestjs/common';
 import { MarketService } from './market.service';
+import { TradeService } from '../trade/trade.service';
 import { PinAuthGuard } from '../auth/pin-auth.guard';
 import { CreateMarketDto, UpdateMarketDto } from '../types/market.types';
 
 @Controller('markets')
 export class MarketController {
-  constructor(private readonly marketService: MarketService) {}
+  constructor(
+    private readonly marketService: MarketService,
+    @Inject(forwardRef(() => TradeService))
+    private readonly tradeService: TradeService,
+  ) {}
 
   @Get()
   async getAllMarkets() {
@@ -36,6 +43,20 @@ export class MarketController {
     return this.marketService.getFundingRate(id);
   }
 
+  @Get(':id/funding-history')
+  async getFundingHistory(
+    @Param('id') id: string,
+    @Query('startTime') startTime?: string,
+    @Query('endTime') endTime?: string,
+  ) {
+    return this.marketService.getFundingHistory(id, startTime, endTime);
+  }
+
+  @Get(':id/risk-tiers')
+  async getRiskTiers(@Param('id') id: string) {
+    return this.marketService.getRiskTiers(id);
+  }
+
   @Post()
   @UseGuards(PinAuthGuard)
   async createMarket(@Body() dto: CreateMarketDto) {
@@ -47,4 +68,13 @@ export class MarketController {
   async updateMarket(@Param('id') id: string, @Body() dto: UpdateMarketDto) {
     return this.marketService.updateMarket(id, dto);
   }
+
+  @Post(':id/settle')
+  @UseGuards(PinAuthGuard)
+  async settleMarket(
+    @Param('id') id: string,
+    @Body() request: { settlementPrice: string },
+  ) {
+    return this.tradeService.settleMarket(id, request.settlementPrice);
+  }
 }
@@ -6,6 +6,8 @@ import { TradeModule } from 'src/trade/trade.module';
 import { DatabaseModule } from 'src/database/database.module';
 import { StatsModule } from '../stats/stats.module';
 import { PriceModule } from 'src/price/price.module';
+import { InsuranceFundModule } from '../insurance-fund/insurance-fund.module';
+import { LiquidityModule } from '../liquidity/liquidity.module';
 
 @Module({
   imports: [
@@ -14,6 +16,8 @@ import { PriceModule } from 'src/price/price.module';
     PriceModule,
     forwardRef(() => TradeModule),
     StatsModule,
+    InsuranceFundModule,
+    LiquidityModule,
   ],
   providers: [MarketService],
   controllers: [MarketController],
@@ -3,13 +3,26 @@ import { MarketService } from './market.service';
 import { DatabaseService } from '../database/database.service';
 import { PriceService } from '../price/price.service';
 import { StatsService } from '../stats/stats.service';
+import { InsuranceFundService } from '../insurance-fund/insurance-fund.service';
+import { LiquidityService } from '../liquidity/liquidity.service';
+import { InsuranceFundEventType } from '../entities/insurance-fund.entity';
 import { CACHE_MANAGER } from '@nestjs/cache-manager';
 import { Cache } from 'cache-manager';
 import { Market } from '../entities/market.entity';
-import { CreateMarketDto, UpdateMarketDto } from '../types/market.types';
+import { LiquidityPool } from '../entities/liquidity-pool.entity';
+import {
+  CreateMarketDto,
+  MarketStatus,
+  UpdateMarketDto,
+} from '../types/market.types';
 import { TokenType } from '../types/token.types';
+import { PriceSourceName } from '../types/price.types';
 import { OrderSide } from '../types/trade.types';
-import { ConflictException, NotFoundException } from '@nestjs/common';
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
 
 describe('MarketService', () => {
   let service: MarketService;
@@ -17,6 +30,8 @@ describe('MarketService', () => {
   let priceService: jest.Mocked<PriceService>;
   let statsService: jest.Mocked<StatsService>;
   let cacheManager: jest.Mocked<Cache>;
+  let insuranceFundService: jest.Mocked<InsuranceFundService>;
+  let liquidityService: jest.Mocked<LiquidityService>;
 
   const mockMarket: Market = {
     id: 'market-1',
@@ -59,8 +74,11 @@ describe('MarketService', () => {
           provide: PriceService,
           useValue: {
             getCurrentPrice: jest.fn(),
+            getMarkPrice: jest.fn(),
+            getLivePrice: jest.fn(),
             getVirtualPrice: jest.fn(),
             getUsdcPrice: jest.fn(),
+            getSolPrice: jest.fn().mockResolvedValue(100),
             updateVirtualPrice: jest.fn(),
           },
         },
@@ -71,6 +89,23 @@ describe('MarketService', () => {
             getMarketStats: jest.fn(),
           },
         },
+        {
+          provide: InsuranceFundService,
+          useValue: {
+            deposit: jest.fn(),
+          },
+        },
+        {
+          provide: LiquidityService,
+          useValue: {
+            // The mock market's 1800 is all the open interest the pool backs
+            getOpenInterestCapacity: jest.fn().mockResolvedValue({
+              totalOpenInterest: '1800',
+              maxOpenInterest: '10000',
+            }),
+            creditFees: jest.fn(),
+          },
+        },
         {
           provide: CACHE_MANAGER,
           useValue: {
@@ -87,6 +122,8 @@ describe('MarketService', () => {
     priceService = module.get(PriceService);
     statsService = module.get(StatsService);
     cacheManager = module.get(CACHE_MANAGER);
+    insuranceFundService = module.get(InsuranceFundService);
+    liquidityService = module.get(LiquidityService);
   });
 
   afterEach(() => {
@@ -116,6 +153,93 @@ describe('MarketService', () => {
       expect(statsService.addVolume).toHaveBeenCalled();
     });
 
+    it("should back the market with the liquidity pool's liquidity", async () => {
+      databaseService.select.mockImplementation(async (table) =>
+        table === 'liquidity_pool' ? [{ totalLiquidity: '250000' }] : [],
+      );
+
+      await service.createMarket(createMarketDto);
+
+      expect(databaseService.insert).toHaveBeenCalledWith(
+        'markets',
+        expect.objectContaining({ availableLiquidity: '250000' }),
+      );
+    });
+
+    it('should default the liquidation fee', async () => {
+      await service.createMarket(createMarketDto);
+      expect(databaseService.insert).toHaveBeenCalledWith(
+        'markets',
+        expect.objectContaining({ liquidationFee: '0.01' }),
+      );
+    });
+
+    it('should reject risk params that are liquidatable at max leverage', async () => {
+      await expect(
+        service.createMarket({
+          ...createMarketDto,
+          maxLeverage: '20',
+          liquidationFee: '0.01',
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(databaseService.insert).not.toHaveBeenCalled();
+    });
+
+    it('should reject risk tiers whose leverage grows with notional', async () => {
+      await expect(
+        service.createMarket({
+          ...createMarketDto,
+          riskTiers: [
+            {
+              maxNotional: '10000',
+              maxLeverage: '5',
+              maintenanceMarginRate: '0.05',
+            },
+            { maxLeverage: '10', maintenanceMarginRate: '0.05' },
+          ],
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reject risk tiers that are liquidatable at their max leverage', async () => {
+      await expect(
+        service.createMarket({
+          ...createMarketDto,
+          riskTiers: [
+            {
+              maxNotional: '10000',
+              maxLeverage: '10',
+              maintenanceMarginRate: '0.05',
+            },
+            { maxLeverage: '5', maintenanceMarginRate: '0.2' },
+          ],
+        }),
+      ).rejects.toThrow(
+        'Maintenance margin plus liquidation fee must be below the initial margin (1 / maxLeverage)',
+      );
+    });
+
+    it('should reject a price source quorum above the number of sources', async () => {
+      await expect(
+        service.createMarket({
+          ...createMarketDto,
+          priceSources: [
+            PriceSourceName.DAOS_FUN_CURVE,
+            PriceSourceName.JUPITER,
+          ],
+          minPriceSources: 3,
+        }),
+      ).rejects.toThrow(
+        'Min price sources must be between 1 and the number of price sources',
+      );
+    });
+
+    it('should reject negative open interest caps', async () => {
+      await expect(
+        service.createMarket({ ...createMarketDto, maxSkew: '-1' }),
+      ).rejects.toThrow('Open interest caps cannot be negative');
+    });
+
     it('should throw ConflictException if market already exists', async () => {
       databaseService.select.mockResolvedValue([mockMarket]);
       await expect(service.createMarket(createMarketDto)).rejects.toThrow(
@@ -142,6 +266,97 @@ describe('MarketService', () => {
       expect(result).toMatchObject(updateMarketDto);
       expect(databaseService.update).toHaveBeenCalled();
     });
+
+    it('should pause an active market', async () => {
+      databaseService.select.mockResolvedValue([
+        { ...mockMarket, status: MarketStatus.ACTIVE },
+      ]);
+
+      await service.updateMarket('market-1', { status: MarketStatus.PAUSED });
+
+      expect(databaseService.update).toHaveBeenCalledWith(
+        'markets',
+        expect.objectContaining({ status: MarketStatus.PAUSED }),
+        { id: 'market-1' },
+      );
+    });
+
+    it('should not close a market through an update', async () => {
+      await expect(
+        service.updateMarket('market-1', { status: MarketStatus.CLOSED }),
+      ).rejects.toThrow('Markets are closed through the settle endpoint');
+      expect(databaseService.update).not.toHaveBeenCalled();
+    });
+
+    it('should not reopen a closed market', async () => {
+      databaseService.select.mockResolvedValue([
+        { ...mockMarket, status: MarketStatus.CLOSED },
+      ]);
+
+      await expect(
+        service.updateMarket('market-1', { status: MarketStatus.ACTIVE }),
+      ).rejects.toThrow(BadRequestException);
+      expect(databaseService.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getRiskTiers', () => {
+    it('should return the configured tiers', async () => {
+      const riskTiers = [
+        {
+          maxNotional: '10000',
+          maxLeverage: '10',
+          maintenanceMarginRate: '0.05',
+        },
+        { maxLeverage: '5', maintenanceMarginRate: '0.1' },
+      ];
+      databaseService.select.mockResolvedValue([{ ...mockMarket, riskTiers }]);
+
+      expect(await service.getRiskTiers('market-1')).toEqual(riskTiers);
+    });
+
+    it('should default to a single tier at the market max leverage', async () => {
+      databaseService.select.mockResolvedValue([mockMarket]);
+
+      expect(await service.getRiskTiers('market-1')).toEqual([
+        { maxLeverage: '10', maintenanceMarginRate: '0.05' },
+      ]);
+    });
+  });
+
+  describe('closeMarket', () => {
+    it('should close the market at the settlement price', async () => {
+      databaseService.select.mockResolvedValue([
+        { ...mockMarket, status: MarketStatus.ACTIVE },
+      ]);
+      databaseService.update.mockResolvedValue([
+        {
+          ...mockMarket,
+          status: MarketStatus.CLOSED,
+          settlementPrice: '55000',
+        },
+      ]);
+
+      const result = await service.closeMarket('market-1', '55000');
+
+      expect(result.status).toBe(MarketStatus.CLOSED);
+      expect(databaseService.update).toHaveBeenCalledWith(
+        'markets',
+        { status: MarketStatus.CLOSED, settlementPrice: '55000' },
+        { id: 'market-1' },
+      );
+    });
+
+    it('should reject a market that is already closed', async () => {
+      databaseService.select.mockResolvedValue([
+        { ...mockMarket, status: MarketStatus.CLOSED },
+      ]);
+
+      await expect(service.closeMarket('market-1', '55000')).rejects.toThrow(
+        'Market BTC-USD is already closed',
+      );
+      expect(databaseService.update).not.toHaveBeenCalled();
+    });
   });
 
   describe('getMarketById', () => {
@@ -199,6 +414,53 @@ describe('MarketService', () => {
       });
     });
 
+    it('should expose the remaining open interest capacity per side', async () => {
+      databaseService.select.mockResolvedValue([
+        { ...mockMarket, maxShortOpenInterest: '1000', maxSkew: '500' },
+      ]);
+
+      const [result] = await service.getAllMarkets();
+
+      // Long: skew 500 - (1000 - 800) = 300, short: cap 1000 - 800 = 200
+      expect(result.remainingLongCapacity).toBe('300');
+      expect(result.remainingShortCapacity).toBe('200');
+    });
+
+    it('should cap the remaining capacity at what the pool can still back', async () => {
+      // Other markets use up all but 100 of the pool's capacity
+      liquidityService.getOpenInterestCapacity.mockResolvedValueOnce({
+        totalOpenInterest: '7900',
+        maxOpenInterest: '8000',
+      });
+
+      const [result] = await service.getAllMarkets();
+
+      expect(result.remainingLongCapacity).toBe('100');
+      expect(result.remainingShortCapacity).toBe('100');
+    });
+
+    it('should expose the mark price next to the vAMM price', async () => {
+      priceService.getMarkPrice.mockResolvedValue('49500');
+
+      const [result] = await service.getAllMarkets();
+
+      expect(result.lastPrice).toBe('50000');
+      expect(result.markPrice).toBe('49500');
+    });
+
+    it('should list markets without a mark price while the oracle is down', async () => {
+      priceService.getMarkPrice.mockRejectedValue(
+        new Error(
+          'Only 0 of 1 required price sources are available for BTC-USD',
+        ),
+      );
+
+      const [result] = await service.getAllMarkets();
+
+      expect(result.lastPrice).toBe('50000');
+      expect(result.markPrice).toBeUndefined();
+    });
+
     it('should handle missing market stats', async () => {
       statsService.getMarketStats.mockRejectedValue(new Error());
       const result = await service.getAllMarkets();
@@ -251,61 +513,487 @@ describe('MarketService', () => {
       databaseService.select.mockResolvedValue([mockMarket]);
     });
 
-    it('should add SOL trading fees', async () => {
+    it('should add SOL trading fees less the insurance fund and pool shares', async () => {
       await service.addTradingFees('market-1', '10', TokenType.SOL);
       expect(databaseService.update).toHaveBeenCalledWith(
         'markets',
         {
-          cumulativeFeesSol: '10',
-          unclaimedFeesSol: '10',
+          cumulativeFeesSol: '9',
+          unclaimedFeesSol: '2.7',
         },
         { id: 'market-1' },
       );
+      expect(insuranceFundService.deposit).toHaveBeenCalledWith(
+        InsuranceFundEventType.TRADING_FEE,
+        TokenType.SOL,
+        '1',
+        'market-1',
+        undefined,
+      );
+      // 6.3 SOL at 100 USDC
+      expect(liquidityService.creditFees).toHaveBeenCalledWith('630');
     });
 
-    it('should add USDC trading fees', async () => {
+    it('should add USDC trading fees less the insurance fund and pool shares', async () => {
       await service.addTradingFees('market-1', '100', TokenType.USDC);
       expect(databaseService.update).toHaveBeenCalledWith(
         'markets',
         {
-          cumulativeFeesUsdc: '100',
-          unclaimedFeesUsdc: '100',
+          cumulativeFeesUsdc: '90',
+          unclaimedFeesUsdc: '27',
         },
         { id: 'market-1' },
       );
+      expect(insuranceFundService.deposit).toHaveBeenCalledWith(
+        InsuranceFundEventType.TRADING_FEE,
+        TokenType.USDC,
+        '10',
+        'market-1',
+        undefined,
+      );
+      expect(liquidityService.creditFees).toHaveBeenCalledWith('63');
     });
   });
 
-  describe('getFundingRate', () => {
+  describe('addLiquidationFees', () => {
     beforeEach(() => {
       databaseService.select.mockResolvedValue([mockMarket]);
-      priceService.getVirtualPrice.mockResolvedValue('50000');
-      priceService.getCurrentPrice.mockResolvedValue('49000');
     });
 
-    it('should calculate funding rate based on price difference', async () => {
-      const result = await service.getFundingRate('market-1');
-      expect(result).toBeDefined();
-      expect(typeof result).toBe('string');
+    it('should split liquidation penalties with the insurance fund', async () => {
+      await service.addLiquidationFees(
+        'market-1',
+        '100',
+        TokenType.USDC,
+        'position-1',
+      );
+      expect(databaseService.update).toHaveBeenCalledWith(
+        'markets',
+        {
+          cumulativeFeesUsdc: '50',
+          unclaimedFeesUsdc: '15',
+        },
+        { id: 'market-1' },
+      );
+      expect(insuranceFundService.deposit).toHaveBeenCalledWith(
+        InsuranceFundEventType.LIQUIDATION_PENALTY,
+        TokenType.USDC,
+        '50',
+        'market-1',
+        'position-1',
+      );
+      expect(liquidityService.creditFees).toHaveBeenCalledWith('35');
     });
   });
 
-  describe('updateFundingRates', () => {
+  describe('funding', () => {
+    const NOW = new Date('2026-01-01T00:00:00Z').getTime();
+    const MINUTE = 60 * 1000;
+    const HOUR = 60 * MINUTE;
+
+    const fundingMarket: Market = {
+      ...mockMarket,
+      fundingRate: '0',
+      fundingRateVelocity: '0',
+      premiumIndex: undefined,
+      maxFundingRate: '0.05',
+      maxFundingVelocity: '0.01',
+      longOpenInterest: '1500',
+      shortOpenInterest: '500',
+      lastUpdatedTimestamp: NOW - MINUTE,
+    };
+
+    const updatedFunding = (call = 0) =>
+      databaseService.update.mock.calls[call][1] as Partial<Market>;
+
     beforeEach(() => {
-      databaseService.select.mockResolvedValue([mockMarket]);
-      priceService.getVirtualPrice.mockResolvedValue('50000');
-      priceService.getCurrentPrice.mockResolvedValue('49000');
+      jest.useFakeTimers();
+      jest.setSystemTime(NOW);
+      databaseService.select.mockResolvedValue([fundingMarket]);
+      priceService.getVirtualPrice.mockResolvedValue('50500');
+      priceService.getLivePrice.mockResolvedValue('50000');
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    describe('updateFundingRates', () => {
+      it('should set the rate from the vAMM premium over the oracle', async () => {
+        await service.updateFundingRates();
+
+        // (50500 - 50000) / 50000 = 1% premium, nothing to drift from yet
+        expect(databaseService.update).toHaveBeenCalledWith(
+          'markets',
+          {
+            fundingRate: '0.01',
+            fundingRateVelocity: '0.005',
+            premiumIndex: '0.01',
+            cumulativeFundingIndex: '0',
+            lastUpdatedTimestamp: NOW,
+          },
+          { id: fundingMarket.id },
+        );
+      });
+
+      it('should accrue the funding index at the outgoing rate', async () => {
+        databaseService.select.mockResolvedValue([
+          {
+            ...fundingMarket,
+            fundingRate: '0.01',
+            cumulativeFundingIndex: '0.1',
+            lastUpdatedTimestamp: NOW - 12 * HOUR,
+          },
+        ]);
+
+        await service.updateFundingRates();
+
+        // 0.1 + 0.01 per day * 0.5 days
+        expect(updatedFunding().cumulativeFundingIndex).toBe('0.105');
+      });
+
+      it('should charge shorts when the vAMM trades below the oracle', async () => {
+        priceService.getVirtualPrice.mockResolvedValue('49000');
+
+        await service.updateFundingRates();
+
+        expect(updatedFunding().fundingRate).toBe('-0.02');
+      });
+
+      it('should average the premium over the funding interval', async () => {
+        await service.updateFundingRates();
+
+        jest.setSystemTime(NOW + MINUTE);
+        priceService.getVirtualPrice.mockResolvedValue('49000');
+        await service.updateFundingRates();
+
+        // Average of the +1% and -2% samples
+        expect(updatedFunding(1).premiumIndex).toBe('-0.005');
+      });
+
+      it('should drop samples older than the funding interval', async () => {
+        await service.updateFundingRates();
+
+        jest.setSystemTime(NOW + HOUR);
+        priceService.getVirtualPrice.mockResolvedValue('49000');
+        await service.updateFundingRates();
+
+        expect(updatedFunding(1).premiumIndex).toBe('-0.02');
+      });
+
+      it('should drift the rate by the last velocity since the last update', async () => {
+        databaseService.select.mockResolvedValue([
+          {
+            ...fundingMarket,
+            fundingRate: '0.012',
+            premiumIndex: '0.01',
+            fundingRateVelocity: '0.01',
+            lastUpdatedTimestamp: NOW - 12 * HOUR,
+          },
+        ]);
+
+        await service.updateFundingRates();
+
+        // 0.01 premium + 0.002 carried drift + 0.01/day * 0.5 days
+        expect(updatedFunding().fundingRate).toBe('0.017');
+      });
+
+      it('should clamp the rate to the max funding rate', async () => {
+        databaseService.select.mockResolvedValue([
+          { ...fundingMarket, maxFundingRate: '0.0003' },
+        ]);
+
+        await service.updateFundingRates();
+
+        expect(updatedFunding().fundingRate).toBe('0.0003');
+
+        priceService.getVirtualPrice.mockResolvedValue('49000');
+        jest.setSystemTime(NOW + HOUR);
+        await service.updateFundingRates();
+
+        expect(updatedFunding(1).fundingRate).toBe('-0.0003');
+      });
+
+      it('should not wind up drift past the clamped rate', async () => {
+        // The last rate was clamped at 0.0003 with a 1% premium index, so the
+        // premium falling to 0 takes the rate straight down with it
+        databaseService.select.mockResolvedValue([
+          {
+            ...fundingMarket,
+            fundingRate: '0.0003',
+            premiumIndex: '0.01',
+            maxFundingRate: '0.0003',
+          },
+        ]);
+        priceService.getVirtualPrice.mockResolvedValue('50000');
+
+        await service.updateFundingRates();
+
+        expect(updatedFunding().fundingRate).toBe('-0.0003');
+      });
+
+      it.each([
+        ['long heavy', '1500', '500', '0.005'],
+        ['short heavy', '0', '1000', '-0.01'],
+        ['balanced', '700', '700', '0'],
+        ['empty', '0', '0', '0'],
+      ])(
+        'should set the velocity from the open interest skew when %s',
+        async (_, longOpenInterest, shortOpenInterest, velocity) => {
+          databaseService.select.mockResolvedValue([
+            { ...fundingMarket, longOpenInterest, shortOpenInterest },
+          ]);
+
+          await service.updateFundingRates();
+
+          expect(updatedFunding().fundingRateVelocity).toBe(velocity);
+        },
+      );
+
+      it('should record the rate of every update in the funding history', async () => {
+        await service.updateFundingRates();
+
+        expect(databaseService.insert).toHaveBeenCalledWith('funding_rates', {
+          id: expect.any(String),
+          marketId: fundingMarket.id,
+          fundingRate: '0.01',
+          fundingRateVelocity: '0.005',
+          premiumIndex: '0.01',
+          longOpenInterest: '1500',
+          shortOpenInterest: '500',
+          createdAt: new Date(NOW),
+        });
+      });
+
+      it('should keep the last rate of a market whose oracle is down', async () => {
+        databaseService.select.mockResolvedValue([
+          fundingMarket,
+          { ...fundingMarket, id: 'market-2' },
+        ]);
+        priceService.getLivePrice.mockImplementation(async (marketId) => {
+          if (marketId === fundingMarket.id) {
+            throw new Error('Only 0 of 1 required price sources are available');
+          }
+          return '50000';
+        });
+
+        await service.updateFundingRates();
+
+        expect(databaseService.update).toHaveBeenCalledTimes(1);
+        expect(databaseService.update).toHaveBeenCalledWith(
+          'markets',
+          expect.any(Object),
+          { id: 'market-2' },
+        );
+      });
+    });
+
+    describe('getFundingRate', () => {
+      it('should use the sampled premium index without querying prices', async () => {
+        await service.updateFundingRates();
+        databaseService.select.mockResolvedValue([
+          {
+            ...fundingMarket,
+            fundingRate: '0.01',
+            premiumIndex: '0.01',
+            fundingRateVelocity: '0.005',
+            lastUpdatedTimestamp: NOW,
+          },
+        ]);
+        priceService.getLivePrice.mockClear();
+
+        jest.setSystemTime(NOW + 6 * HOUR);
+        const result = await service.getFundingRate(fundingMarket.id);
+
+        // 0.01 premium + 0.005/day * 0.25 days
+        expect(result).toBe('0.01125');
+        expect(priceService.getLivePrice).not.toHaveBeenCalled();
+      });
+
+      it('should fall back to the persisted premium index before any sample', async () => {
+        databaseService.select.mockResolvedValue([
+          {
+            ...fundingMarket,
+            fundingRate: '0.002',
+            premiumIndex: '0.001',
+            fundingRateVelocity: '-0.004',
+            lastUpdatedTimestamp: NOW - 12 * HOUR,
+          },
+        ]);
+
+        const result = await service.getFundingRate(fundingMarket.id);
+
+        // 0.001 premium + 0.001 carried drift - 0.004/day * 0.5 days
+        expect(result).toBe('0');
+      });
+
+      it('should be zero for a new market', async () => {
+        expect(await service.getFundingRate(fundingMarket.id)).toBe('0');
+      });
+    });
+
+    describe('getFundingHistory', () => {
+      const snapshot = {
+        id: 'snapshot-1',
+        marketId: fundingMarket.id,
+        fundingRate: '0.01',
+        fundingRateVelocity: '0.005',
+        premiumIndex: '0.01',
+        longOpenInterest: '1500',
+        shortOpenInterest: '500',
+        createdAt: new Date(NOW),
+      };
+
+      it('should return the funding rates in a time range', async () => {
+        databaseService.select.mockResolvedValue([snapshot]);
+
+        const result = await service.getFundingHistory(
+          fundingMarket.id,
+          '2026-01-01T00:00:00Z',
+          '2026-01-02T00:00:00Z',
+        );
+
+        expect(result).toEqual([snapshot]);
+        expect(databaseService.select).toHaveBeenCalledWith('funding_rates', {
+          eq: { marketId: fundingMarket.id },
+          gte: { createdAt: '2026-01-01T00:00:00Z' },
+          lte: { createdAt: '2026-01-02T00:00:00Z' },
+          order: { column: 'createdAt', ascending: false },
+        });
+        expect(cacheManager.set).toHaveBeenCalledWith(
+          'funding:history:market-1:2026-01-01T00:00:00Z:2026-01-02T00:00:00Z',
+          [snapshot],
+          5 * 60 * 1000,
+        );
+      });
+
+      it('should serve cached history', async () => {
+        cacheManager.get.mockResolvedValue([snapshot]);
+
+        const result = await service.getFundingHistory(fundingMarket.id);
+
+        expect(result).toEqual([snapshot]);
+        expect(databaseService.select).not.toHaveBeenCalled();
+      });
+
+      it('should reject a start time after the end time', async () => {
+        await expect(
+          service.getFundingHistory(
+            fundingMarket.id,
+            '2026-01-02T00:00:00Z',
+            '2026-01-01T00:00:00Z',
+          ),
+        ).rejects.toThrow('Start time must be before end time');
+      });
+    });
+  });
+  describe('updateBorrowingRates', () => {
+    const mockMarkets = (
+      markets: Partial<Market>[],
+      pool: Partial<LiquidityPool> | null = { totalLiquidity: '10000' },
+    ) =>
+      databaseService.select.mockImplementation(async (table) => {
+        if (table === 'liquidity_pool') {
+          return pool ? [pool] : [];
+        }
+        return markets.map((market) => ({ ...mockMarket, ...market }));
+      });
+
+    const updatedBorrowingRate = () =>
+      (databaseService.update.mock.calls[0][1] as Partial<Market>)
+        .borrowingRate;
+
+    it.each([
+      // 0.0001 + 0.0004 * u / 0.8 up to the kink
+      ['unused', '0', '0', '0.0001'],
+      ['below the kink', '1000', '800', '0.00019'],
+      ['at the kink', '5000', '3000', '0.0005'],
+      // 0.0005 + 0.01 * (u - 0.8) / 0.2 past it
+      ['past the kink', '5000', '4000', '0.0055'],
+      ['fully utilized', '6000', '4000', '0.0105'],
+      ['over utilized', '8000', '4000', '0.0105'],
+    ])(
+      'should price borrowing %s',
+      async (_, longOpenInterest, shortOpenInterest, borrowingRate) => {
+        mockMarkets([{ longOpenInterest, shortOpenInterest }]);
+
+        await service.updateBorrowingRates();
+
+        expect(databaseService.update).toHaveBeenCalledWith(
+          'markets',
+          expect.objectContaining({ borrowingRate }),
+          { id: mockMarket.id },
+        );
+      },
+    );
+
+    it('should accrue the borrowing index at the outgoing rate', async () => {
+      const now = Date.now();
+      mockMarkets([
+        {
+          borrowingRate: '0.0002',
+          cumulativeBorrowingIndex: '0.01',
+          borrowingIndexUpdatedAt: now - 6 * 60 * 60 * 1000,
+        },
+      ]);
+
+      await service.updateBorrowingRates();
+
+      // 0.01 + 0.0002 per day * 0.25 days
+      const update = databaseService.update.mock.calls[0][1] as Partial<Market>;
+      expect(Number(update.cumulativeBorrowingIndex)).toBeCloseTo(0.01005, 8);
+      expect(update.borrowingIndexUpdatedAt).toBeGreaterThanOrEqual(now);
+    });
+
+    it("should kink at the pool's max utilization rate", async () => {
+      mockMarkets([{}], { totalLiquidity: '10000', maxUtilizationRate: '0.5' });
+
+      await service.updateBorrowingRates();
+
+      // 0.0001 + 0.0004 * 0.18 / 0.5
+      expect(updatedBorrowingRate()).toBe('0.000244');
+    });
+
+    it('should fall back to the default kink for an invalid pool rate', async () => {
+      mockMarkets([{}], { totalLiquidity: '10000', maxUtilizationRate: '0' });
+
+      await service.updateBorrowingRates();
+
+      expect(updatedBorrowingRate()).toBe('0.00019');
     });
 
-    it('should update funding rates for all markets', async () => {
-      await service.updateFundingRates();
+    it('should price a market without liquidity as fully utilized', async () => {
+      mockMarkets([{}], null);
+
+      await service.updateBorrowingRates();
+
+      expect(updatedBorrowingRate()).toBe('0.0105');
+    });
+
+    it("should back every market with the pool's current liquidity", async () => {
+      mockMarkets([{ availableLiquidity: '10000' }], {
+        totalLiquidity: '25000',
+      });
+
+      await service.updateBorrowingRates();
+
+      // 1800 of open interest over 25000 of liquidity
       expect(databaseService.update).toHaveBeenCalledWith(
         'markets',
         expect.objectContaining({
-          fundingRate: expect.any(String),
+          availableLiquidity: '25000',
+          borrowingRate: '0.000136',
         }),
         { id: mockMarket.id },
       );
     });
+
+    it('should invalidate the cached market', async () => {
+      mockMarkets([{}]);
+
+      await service.updateBorrowingRates();
+
+      expect(cacheManager.del).toHaveBeenCalledWith(`market:${mockMarket.id}`);
+    });
   });
 });
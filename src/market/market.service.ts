@@ -2,6 +2,7 @@ import {
   Injectable,
   NotFoundException,
   ConflictException,
+  BadRequestException,
   Inject,
   forwardRef,
 } from '@nestjs/common';
@@ -13,13 +14,51 @@ import {
   CreateMarketDto,
   UpdateMarketDto,
   MarketInfo,
+  MarketStatus,
+  RiskTier,
 } from '../types/market.types';
 import { PriceService } from '../price/price.service';
 import { StatsService } from '../stats/stats.service';
 import { Cron, CronExpression } from '@nestjs/schedule';
-import { add, clamp, divide, multiply, subtract } from 'src/lib/math';
+import { add, compare, divide, multiply, subtract } from 'src/lib/math';
+import { getRiskTiers } from 'src/lib/marketRisk';
+import { PriceSourceName } from '../types/price.types';
+import { calculateRemainingCapacity } from 'src/lib/openInterest';
+import {
+  PremiumSample,
+  calculateFundingRate,
+  calculateFundingVelocity,
+  calculatePremium,
+  calculatePremiumIndex,
+  getCurrentFundingIndex,
+} from 'src/lib/funding';
+import {
+  calculateBorrowingRate,
+  calculateUtilization,
+  getCurrentBorrowingIndex,
+} from 'src/lib/borrowing';
 import { TokenType } from 'src/types/token.types';
-import { SECONDS_IN_DAY } from 'src/common/config';
+import {
+  INSURANCE_FUND_FEE_SHARE,
+  INSURANCE_FUND_LIQUIDATION_SHARE,
+  DEFAULT_PRICE_SOURCES,
+  LIQUIDATION_FEE_RATE,
+  LP_FEE_SHARE,
+  FUNDING_INTERVAL_MS,
+} from 'src/common/config';
+import { InsuranceFundService } from '../insurance-fund/insurance-fund.service';
+import { LiquidityService } from '../liquidity/liquidity.service';
+import { FundingRateSnapshot } from '../entities/funding.entity';
+import { LiquidityPool } from '../entities/liquidity-pool.entity';
+import { getMaxUtilizationRate } from 'src/lib/liquidity';
+import {
+  CACHE_KEY,
+  CACHE_TTL,
+  getCacheKey,
+  getMarketCacheKeys,
+} from '../constants/cache.constants';
+import { validateTimeRange } from 'src/common/validators';
+import { InsuranceFundEventType } from '../entities/insurance-fund.entity';
 import { OrderSide } from 'src/types/trade.types';
 import {
   INITIAL_RESERVE_BALANCE,
@@ -29,35 +68,112 @@ import {
 
 @Injectable()
 export class MarketService {
+  private premiumSamples: Map<string, PremiumSample[]> = new Map();
+
   constructor(
     private readonly databaseService: DatabaseService,
     @Inject(forwardRef(() => PriceService))
     private readonly priceService: PriceService,
     @Inject(CACHE_MANAGER) private cacheManager: Cache,
     private readonly statsService: StatsService,
+    private readonly insuranceFundService: InsuranceFundService,
+    private readonly liquidityService: LiquidityService,
   ) {}
 
+  /**
+   * @dev Samples each market's premium and moves its funding rate on from the
+   * last update. A market whose oracle is down keeps its last rate.
+   */
   @Cron(CronExpression.EVERY_MINUTE)
   async updateFundingRates(): Promise<void> {
     const markets = await this.databaseService.select<Market>('markets', {});
+    const now = Date.now();
 
     await Promise.all(
       markets.map(async (market) => {
-        // Calculate the new rate and velocity
-        const [currentFundingRate, newFundingRateVelocity] = await Promise.all([
-          this.getCurrentFundingRate(market),
-          this.getCurrentVelocity(market),
-        ]);
+        try {
+          const [vammPrice, oraclePrice] = await Promise.all([
+            this.priceService.getVirtualPrice(market.id),
+            this.priceService.getLivePrice(market.id),
+          ]);
+          this.samplePremium(
+            market.id,
+            calculatePremium(vammPrice, oraclePrice),
+            now,
+          );
+
+          const premiumIndex = this.getPremiumIndex(market, now);
+          const fundingRate = calculateFundingRate(market, premiumIndex, now);
+          const fundingRateVelocity = calculateFundingVelocity(market);
+
+          await this.databaseService.update<Market>(
+            'markets',
+            {
+              // Accrued at the outgoing rate before it is replaced
+              cumulativeFundingIndex: getCurrentFundingIndex(market, now),
+              fundingRate,
+              fundingRateVelocity,
+              premiumIndex,
+              lastUpdatedTimestamp: now,
+            },
+            { id: market.id },
+          );
+
+          await this.databaseService.insert<FundingRateSnapshot>(
+            'funding_rates',
+            {
+              id: crypto.randomUUID(),
+              marketId: market.id,
+              fundingRate,
+              fundingRateVelocity,
+              premiumIndex,
+              longOpenInterest: market.longOpenInterest,
+              shortOpenInterest: market.shortOpenInterest,
+              createdAt: new Date(now),
+            },
+          );
+
+          await this.invalidateMarketCache(market);
+        } catch (error) {
+          console.error(
+            `Error updating funding rate for market ${market.id}:`,
+            error,
+          );
+        }
+      }),
+    );
+  }
+
+  /**
+   * @dev Reprices borrowing off each market's utilization of the pool's
+   * liquidity, kinked at the pool's max utilization rate.
+   */
+  @Cron(CronExpression.EVERY_MINUTE)
+  async updateBorrowingRates(): Promise<void> {
+    const [markets, pool] = await Promise.all([
+      this.databaseService.select<Market>('markets', {}),
+      this.getLiquidityPool(),
+    ]);
+    const kink = getMaxUtilizationRate(pool);
+    const availableLiquidity = pool?.totalLiquidity || '0';
+    const now = Date.now();
 
-        // Update them in the database
+    await Promise.all(
+      markets.map(async (market) => {
         await this.databaseService.update<Market>(
           'markets',
           {
-            fundingRate: currentFundingRate,
-            fundingRateVelocity: newFundingRateVelocity,
+            cumulativeBorrowingIndex: getCurrentBorrowingIndex(market, now),
+            borrowingIndexUpdatedAt: now,
+            borrowingRate: calculateBorrowingRate(
+              calculateUtilization({ ...market, availableLiquidity }),
+              kink,
+            ),
+            availableLiquidity,
           },
           { id: market.id },
         );
+        await this.invalidateMarketCache(market);
       }),
     );
   }
@@ -78,6 +194,16 @@ export class MarketService {
       throw new ConflictException(`Market ${dto.symbol} already exists`);
     }
 
+    const liquidationFee = dto.liquidationFee || LIQUIDATION_FEE_RATE;
+    this.validateRiskParams({
+      maxLeverage: dto.maxLeverage,
+      maintainanceMargin: dto.maintainanceMargin,
+      liquidationFee,
+      riskTiers: dto.riskTiers,
+    });
+    this.validateOpenInterestCaps(dto);
+    this.validatePriceSources(dto);
+
     // Get initial oracle price
     const initialPrice = await this.priceService.getCurrentPrice(
       dto.tokenAddress,
@@ -99,17 +225,25 @@ export class MarketService {
     const quoteReserve = multiply(baseReserve, USDC_BASE_UNIT);
     const k = multiply(baseReserve, quoteReserve);
 
+    // Every market draws on the one liquidity pool
+    const pool = await this.getLiquidityPool();
+
     const [market] = await this.databaseService.insert<Market>('markets', {
       ...dto,
       longOpenInterest: '0',
       shortOpenInterest: '0',
       fundingRate: '0',
       fundingRateVelocity: '0',
+      cumulativeFundingIndex: '0',
+      cumulativeBorrowingIndex: '0',
+      borrowingIndexUpdatedAt: Date.now(),
+      liquidationFee,
+      status: MarketStatus.ACTIVE,
       maxFundingRate: dto.maxFundingRate || '0.0003',
       maxFundingVelocity: dto.maxFundingVelocity || '0.01',
       borrowingRate: dto.borrowingRate || '0.0003',
       lastUpdatedTimestamp: Date.now(),
-      availableLiquidity: dto.availableLiquidity || '0',
+      availableLiquidity: pool?.totalLiquidity || '0',
       cumulativeFeesSol: '0',
       cumulativeFeesUsdc: '0',
       unclaimedFeesSol: '0',
@@ -130,6 +264,35 @@ export class MarketService {
   async updateMarket(marketId: string, dto: UpdateMarketDto): Promise<Market> {
     const updateData: Partial<Market> = { ...dto };
 
+    if (dto.status) {
+      await this.validateStatusChange(marketId, dto.status);
+    }
+
+    if (
+      dto.maxLeverage ||
+      dto.maintainanceMargin ||
+      dto.liquidationFee ||
+      dto.riskTiers
+    ) {
+      const market = await this.getMarketById(marketId);
+      this.validateRiskParams({
+        maxLeverage: dto.maxLeverage || market.maxLeverage,
+        maintainanceMargin: dto.maintainanceMargin || market.maintainanceMargin,
+        liquidationFee: dto.liquidationFee || market.liquidationFee,
+        riskTiers: dto.riskTiers || market.riskTiers,
+      });
+    }
+
+    this.validateOpenInterestCaps(dto);
+
+    if (dto.priceSources || dto.minPriceSources !== undefined) {
+      const market = await this.getMarketById(marketId);
+      this.validatePriceSources({
+        priceSources: dto.priceSources || market.priceSources,
+        minPriceSources: dto.minPriceSources ?? market.minPriceSources,
+      });
+    }
+
     if (dto.longOpenInterest) {
       updateData.longOpenInterest = dto.longOpenInterest;
     }
@@ -150,10 +313,6 @@ export class MarketService {
       updateData.maxFundingVelocity = dto.maxFundingVelocity;
     }
 
-    if (dto.availableLiquidity) {
-      updateData.availableLiquidity = dto.availableLiquidity;
-    }
-
     const [updatedMarket] = await this.databaseService.update<Market>(
       'markets',
       updateData,
@@ -164,6 +323,185 @@ export class MarketService {
     return updatedMarket;
   }
 
+  /**
+   * @dev Closes the market at its final settlement price. Open positions are
+   * settled by TradeService.settleMarket, which calls this first so nothing can
+   * open or fill while they are.
+   */
+  async closeMarket(
+    marketId: string,
+    settlementPrice: string,
+  ): Promise<Market> {
+    const market = await this.getMarketById(marketId);
+
+    if (market.status === MarketStatus.CLOSED) {
+      throw new BadRequestException(
+        `Market ${market.symbol} is already closed`,
+      );
+    }
+
+    const [closedMarket] = await this.databaseService.update<Market>(
+      'markets',
+      { status: MarketStatus.CLOSED, settlementPrice },
+      { id: marketId },
+    );
+
+    await this.invalidateMarketCache();
+    return closedMarket;
+  }
+
+  /**
+   * @dev CLOSED is terminal and only reachable through closeMarket, so that open
+   * positions are always settled.
+   */
+  private async validateStatusChange(
+    marketId: string,
+    status: MarketStatus,
+  ): Promise<void> {
+    if (!Object.values(MarketStatus).includes(status)) {
+      throw new BadRequestException('Invalid market status');
+    }
+
+    if (status === MarketStatus.CLOSED) {
+      throw new BadRequestException(
+        'Markets are closed through the settle endpoint',
+      );
+    }
+
+    const market = await this.getMarketById(marketId);
+    if (market.status === MarketStatus.CLOSED) {
+      throw new BadRequestException(`Market ${market.symbol} is closed`);
+    }
+  }
+
+  /**
+   * @dev Returns the market's leverage tiers, a single tier at the market's max
+   * leverage when none are configured.
+   */
+  async getRiskTiers(marketId: string): Promise<RiskTier[]> {
+    const market = await this.getMarketById(marketId);
+    return getRiskTiers(market);
+  }
+
+  /**
+   * @dev A position opened at max leverage must start above its maintenance
+   * requirement, otherwise it would be liquidatable immediately. This holds
+   * for every tier, and tiers get stricter as notional grows.
+   */
+  private validateRiskParams(
+    market: Pick<
+      Market,
+      'maxLeverage' | 'maintainanceMargin' | 'liquidationFee' | 'riskTiers'
+    >,
+  ): void {
+    if (!market.maxLeverage || compare(market.maxLeverage, '0') <= 0) {
+      throw new BadRequestException('Max leverage must be greater than 0');
+    }
+
+    const liquidationFeeRate = market.liquidationFee || LIQUIDATION_FEE_RATE;
+    if (compare(liquidationFeeRate, '0') < 0) {
+      throw new BadRequestException('Liquidation fee cannot be negative');
+    }
+
+    const tiers = getRiskTiers(market);
+
+    tiers.forEach((tier, i) => {
+      const previousTier = tiers[i - 1];
+
+      if (
+        !tier.maxLeverage ||
+        compare(tier.maxLeverage, '0') <= 0 ||
+        compare(tier.maxLeverage, market.maxLeverage) > 0
+      ) {
+        throw new BadRequestException(
+          `Risk tier ${i + 1} leverage must be between 0 and the market max leverage`,
+        );
+      }
+
+      if (
+        !tier.maintenanceMarginRate ||
+        compare(tier.maintenanceMarginRate, '0') < 0
+      ) {
+        throw new BadRequestException('Maintenance margin cannot be negative');
+      }
+
+      if (
+        compare(
+          add(tier.maintenanceMarginRate, liquidationFeeRate),
+          divide('1', tier.maxLeverage),
+        ) >= 0
+      ) {
+        throw new BadRequestException(
+          'Maintenance margin plus liquidation fee must be below the initial margin (1 / maxLeverage)',
+        );
+      }
+
+      if (!tier.maxNotional && i < tiers.length - 1) {
+        throw new BadRequestException(
+          'Only the last risk tier can be unbounded',
+        );
+      }
+
+      if (
+        previousTier &&
+        ((tier.maxNotional &&
+          compare(tier.maxNotional, previousTier.maxNotional) <= 0) ||
+          compare(tier.maxLeverage, previousTier.maxLeverage) > 0 ||
+          compare(
+            tier.maintenanceMarginRate,
+            previousTier.maintenanceMarginRate,
+          ) < 0)
+      ) {
+        throw new BadRequestException(
+          'Risk tiers must grow in notional with non-increasing leverage and non-decreasing maintenance margin',
+        );
+      }
+    });
+  }
+
+  private validatePriceSources(
+    market: Pick<Market, 'priceSources' | 'minPriceSources'>,
+  ): void {
+    const sources = market.priceSources?.length
+      ? market.priceSources
+      : DEFAULT_PRICE_SOURCES;
+
+    const unknownSource = sources.find(
+      (source) => !Object.values(PriceSourceName).includes(source),
+    );
+    if (unknownSource) {
+      throw new BadRequestException(`Unknown price source ${unknownSource}`);
+    }
+
+    const minSources = market.minPriceSources ?? 1;
+    if (
+      !Number.isInteger(minSources) ||
+      minSources < 1 ||
+      minSources > sources.length
+    ) {
+      throw new BadRequestException(
+        'Min price sources must be between 1 and the number of price sources',
+      );
+    }
+  }
+
+  private validateOpenInterestCaps(
+    caps: Pick<
+      Market,
+      'maxLongOpenInterest' | 'maxShortOpenInterest' | 'maxSkew'
+    >,
+  ): void {
+    for (const cap of [
+      caps.maxLongOpenInterest,
+      caps.maxShortOpenInterest,
+      caps.maxSkew,
+    ]) {
+      if (cap && compare(cap, '0') < 0) {
+        throw new BadRequestException('Open interest caps cannot be negative');
+      }
+    }
+  }
+
   /**
    * @dev No caching here --> always fetch fresh virtual AMM values.
    */
@@ -181,7 +519,7 @@ export class MarketService {
   }
 
   async getMarketBySymbol(symbol: string): Promise<Market> {
-    const cacheKey = `market:symbol:${symbol}`;
+    const cacheKey = getCacheKey.marketBySymbol(symbol);
     const cachedMarket = await this.cacheManager.get<Market>(cacheKey);
 
     if (cachedMarket) {
@@ -202,21 +540,29 @@ export class MarketService {
   }
 
   async getAllMarkets(): Promise<MarketInfo[]> {
-    const cacheKey = 'markets:all';
+    const cacheKey = CACHE_KEY.ALL_MARKETS;
     const cachedMarkets = await this.cacheManager.get<MarketInfo[]>(cacheKey);
 
     if (cachedMarkets) {
       return cachedMarkets;
     }
 
-    const markets = await this.databaseService.select<Market>('markets', {
-      order: { column: 'symbol', ascending: true },
-    });
+    const [markets, poolCapacity] = await Promise.all([
+      this.databaseService.select<Market>('markets', {
+        order: { column: 'symbol', ascending: true },
+      }),
+      this.liquidityService.getOpenInterestCapacity(),
+    ]);
 
     // Transform markets into MarketInfo array
     const marketsInfo: MarketInfo[] = await Promise.all(
       markets.map(async (market) => {
         const lastPrice = await this.priceService.getCurrentPrice(market.id);
+        const markPrice = await this.getMarkPrice(market.id);
+        const remainingCapacity = calculateRemainingCapacity(
+          market,
+          poolCapacity,
+        );
 
         let volume24h = '0';
         try {
@@ -233,18 +579,28 @@ export class MarketService {
           poolAddress: market.poolAddress,
           maxLeverage: market.maxLeverage,
           maintainanceMargin: market.maintainanceMargin,
+          liquidationFee: market.liquidationFee,
           borrowingRate: market.borrowingRate,
           fundingRate: market.fundingRate,
           fundingRateVelocity: market.fundingRateVelocity,
+          premiumIndex: market.premiumIndex,
           lastUpdatedTimestamp: market.lastUpdatedTimestamp,
           longOpenInterest: market.longOpenInterest,
           shortOpenInterest: market.shortOpenInterest,
           virtualBaseReserve: market.virtualBaseReserve,
           virtualQuoteReserve: market.virtualQuoteReserve,
           virtualK: market.virtualK,
+          maxLongOpenInterest: market.maxLongOpenInterest,
+          maxShortOpenInterest: market.maxShortOpenInterest,
+          maxSkew: market.maxSkew,
           availableLiquidity: market.availableLiquidity,
+          remainingLongCapacity: remainingCapacity.long,
+          remainingShortCapacity: remainingCapacity.short,
+          status: market.status,
+          settlementPrice: market.settlementPrice,
           volume24h,
           lastPrice,
+          markPrice,
         };
       }),
     );
@@ -253,10 +609,27 @@ export class MarketService {
     return marketsInfo;
   }
 
+  /**
+   * @dev The mark price needs the oracle, markets are listed without one while
+   * it is unavailable.
+   */
+  private async getMarkPrice(marketId: string): Promise<string | undefined> {
+    try {
+      return await this.priceService.getMarkPrice(marketId);
+    } catch (error) {
+      return undefined;
+    }
+  }
+
   async getMarketInfo(marketId: string): Promise<MarketInfo> {
     const market = await this.getMarketById(marketId);
 
     const lastPrice = await this.priceService.getCurrentPrice(market.id);
+    const markPrice = await this.getMarkPrice(market.id);
+    const remainingCapacity = calculateRemainingCapacity(
+      market,
+      await this.liquidityService.getOpenInterestCapacity(),
+    );
 
     let volume24h = '0';
     try {
@@ -273,38 +646,44 @@ export class MarketService {
       poolAddress: market.poolAddress,
       maxLeverage: market.maxLeverage,
       maintainanceMargin: market.maintainanceMargin,
+      liquidationFee: market.liquidationFee,
       borrowingRate: market.borrowingRate,
       fundingRate: market.fundingRate,
       fundingRateVelocity: market.fundingRateVelocity,
+      premiumIndex: market.premiumIndex,
       lastUpdatedTimestamp: market.lastUpdatedTimestamp,
       longOpenInterest: market.longOpenInterest,
       shortOpenInterest: market.shortOpenInterest,
+      maxLongOpenInterest: market.maxLongOpenInterest,
+      maxShortOpenInterest: market.maxShortOpenInterest,
+      maxSkew: market.maxSkew,
       availableLiquidity: market.availableLiquidity,
+      remainingLongCapacity: remainingCapacity.long,
+      remainingShortCapacity: remainingCapacity.short,
+      status: market.status,
+      settlementPrice: market.settlementPrice,
       volume24h,
       lastPrice,
+      markPrice,
     };
 
     return marketInfo;
   }
 
+  /**
+   * @returns The market's daily funding rate as of now, positive when longs pay
+   */
   async getFundingRate(marketId: string): Promise<string> {
     const market = await this.getMarketById(marketId);
+    const now = Date.now();
 
-    return await this.calculateFundingRate(market);
+    return calculateFundingRate(market, this.getPremiumIndex(market, now), now);
   }
 
   private async invalidateMarketCache(market?: Market): Promise<void> {
-    const keys = ['markets:all'];
-
-    if (market) {
-      keys.push(
-        `market:${market.id}`,
-        `market:symbol:${market.symbol}`,
-        `market:stats:${market.id}`,
-      );
-    }
-
-    await Promise.all(keys.map((key) => this.cacheManager.del(key)));
+    await Promise.all(
+      getMarketCacheKeys(market).map((key) => this.cacheManager.del(key)),
+    );
   }
 
   /**
@@ -338,20 +717,73 @@ export class MarketService {
     return { claimedAmount };
   }
 
+  /**
+   * @dev Credits trading, funding and borrowing fees to the market, less the
+   * insurance fund's share and the liquidity pool's.
+   */
   async addTradingFees(
     marketId: string,
     fees: string,
     token: TokenType,
+  ): Promise<void> {
+    await this.creditFees(
+      marketId,
+      fees,
+      token,
+      INSURANCE_FUND_FEE_SHARE,
+      InsuranceFundEventType.TRADING_FEE,
+    );
+  }
+
+  /**
+   * @dev Credits a liquidation penalty to the market, less the insurance fund's
+   * share and the liquidity pool's.
+   */
+  async addLiquidationFees(
+    marketId: string,
+    fees: string,
+    token: TokenType,
+    positionId: string,
+  ): Promise<void> {
+    await this.creditFees(
+      marketId,
+      fees,
+      token,
+      INSURANCE_FUND_LIQUIDATION_SHARE,
+      InsuranceFundEventType.LIQUIDATION_PENALTY,
+      positionId,
+    );
+  }
+
+  private async creditFees(
+    marketId: string,
+    fees: string,
+    token: TokenType,
+    insuranceShare: string,
+    eventType: InsuranceFundEventType,
+    positionId?: string,
   ): Promise<void> {
     const market = await this.getMarketById(marketId);
     const updateData: Partial<Market> = {};
 
+    const insuranceFees = multiply(fees, insuranceShare);
+    const marketFees = subtract(fees, insuranceFees);
+    // Cumulative fees count the pool's share too, only the rest can be claimed
+    const lpFees = multiply(marketFees, LP_FEE_SHARE);
+    const claimableFees = subtract(marketFees, lpFees);
+
     if (token === TokenType.SOL) {
-      updateData.cumulativeFeesSol = add(market.cumulativeFeesSol, fees);
-      updateData.unclaimedFeesSol = add(market.unclaimedFeesSol, fees);
+      updateData.cumulativeFeesSol = add(market.cumulativeFeesSol, marketFees);
+      updateData.unclaimedFeesSol = add(market.unclaimedFeesSol, claimableFees);
     } else if (token === TokenType.USDC) {
-      updateData.cumulativeFeesUsdc = add(market.cumulativeFeesUsdc, fees);
-      updateData.unclaimedFeesUsdc = add(market.unclaimedFeesUsdc, fees);
+      updateData.cumulativeFeesUsdc = add(
+        market.cumulativeFeesUsdc,
+        marketFees,
+      );
+      updateData.unclaimedFeesUsdc = add(
+        market.unclaimedFeesUsdc,
+        claimableFees,
+      );
     } else {
       throw new Error('Invalid token type');
     }
@@ -360,6 +792,21 @@ export class MarketService {
       id: marketId,
     });
 
+    await this.insuranceFundService.deposit(
+      eventType,
+      token,
+      insuranceFees,
+      marketId,
+      positionId,
+    );
+
+    // The pool holds USDC
+    await this.liquidityService.creditFees(
+      token === TokenType.SOL
+        ? multiply(lpFees, await this.priceService.getSolPrice())
+        : lpFees,
+    );
+
     await this.invalidateMarketCache();
   }
 
@@ -410,100 +857,67 @@ export class MarketService {
   }
 
   /**
-   * Calculate funding rate based on difference between virtual price and oracle price
-   * @audit Need new formula --> this doesn't work
-   * @param market Current market state
-   * @returns Updated funding rate
+   * @returns The market's funding rate at every update in the range, newest first
    */
-  private async calculateFundingRate(market: Market): Promise<string> {
-    // Get latest oracle price
-    const [virtualPrice, oraclePrice] = await Promise.all([
-      this.priceService.getVirtualPrice(market.id),
-      this.priceService.getCurrentPrice(market.id),
-    ]);
-
-    // Calculate price difference percentage
-    const priceDiff = divide(subtract(virtualPrice, oraclePrice), oraclePrice);
-
-    // Funding rate is proportional to price difference
-    // If virtual price > oracle price, longs pay shorts
-    // If virtual price < oracle price, shorts pay longs
-    const fundingRate = multiply(priceDiff, '0.01'); // 1% dampening factor
+  async getFundingHistory(
+    marketId: string,
+    startTime?: string,
+    endTime?: string,
+  ): Promise<FundingRateSnapshot[]> {
+    validateTimeRange(startTime, endTime);
+
+    const cacheKey = getCacheKey.fundingHistory(marketId, startTime, endTime);
+    const cachedHistory =
+      await this.cacheManager.get<FundingRateSnapshot[]>(cacheKey);
+    if (cachedHistory) {
+      return cachedHistory;
+    }
 
-    // Clamp funding rate to max
-    return clamp(
-      fundingRate,
-      multiply(market.maxFundingRate, '-1'),
-      market.maxFundingRate,
+    const history = await this.databaseService.select<FundingRateSnapshot>(
+      'funding_rates',
+      {
+        eq: { marketId },
+        ...(startTime && { gte: { createdAt: startTime } }),
+        ...(endTime && { lte: { createdAt: endTime } }),
+        order: { column: 'createdAt', ascending: false },
+      },
     );
+
+    await this.cacheManager.set(cacheKey, history, CACHE_TTL.FUNDING_HISTORY);
+    return history;
   }
 
-  /**
-   * @dev currentFundingRate = fundingRate + fundingRateVelocity * timeElapsed
-   */
-  private async getCurrentFundingRate(market: Market): Promise<string> {
-    const proportionalTimeElapsed = divide(
-      Date.now() - market.lastUpdatedTimestamp,
-      SECONDS_IN_DAY,
+  private async getLiquidityPool(): Promise<LiquidityPool | undefined> {
+    const [pool] = await this.databaseService.select<LiquidityPool>(
+      'liquidity_pool',
+      { limit: 1 },
     );
 
-    const currentFundingRate = add(
-      market.fundingRate,
-      multiply(market.fundingRateVelocity, proportionalTimeElapsed),
-    );
+    return pool;
+  }
 
-    let clampedFundingRate = clamp(
-      currentFundingRate,
-      multiply(market.maxFundingRate, -1),
-      market.maxFundingRate,
+  private samplePremium(marketId: string, premium: string, now: number) {
+    const samples = (this.premiumSamples.get(marketId) || []).filter(
+      (sample) => sample.timestamp > now - FUNDING_INTERVAL_MS,
     );
+    samples.push({ premium, timestamp: now });
 
-    return clampedFundingRate;
+    this.premiumSamples.set(marketId, samples);
   }
 
   /**
-   * Calculates the funding rate velocity based on price divergence
-   *
-   * Formula:
-   * 1. Calculate price divergence percentage: (virtualPrice - oraclePrice) / oraclePrice
-   * 2. Apply dampening factor to prevent over-correction: divergence * dampening
-   * 3. Scale velocity based on max velocity parameter: scaledVelocity = dampened * maxVelocity
-   * 4. Clamp final velocity to prevent extreme changes
-   *
-   * Examples:
-   * - If virtual > oracle: Positive velocity to increase funding rate (penalize longs)
-   * - If virtual < oracle: Negative velocity to decrease funding rate (penalize shorts)
-   * - Magnitude increases with greater price divergence
-   * - Dampening prevents oscillation
+   * @dev Samples are kept in memory, so after a restart the premium index
+   * persisted at the last update stands in until the first new sample.
    */
-  private async getCurrentVelocity(market: Market): Promise<string> {
-    // Get current prices
-    const [virtualPrice, oraclePrice] = await Promise.all([
-      this.priceService.getVirtualPrice(market.id),
-      this.priceService.getCurrentPrice(market.id),
-    ]);
-
-    if (!virtualPrice || !oraclePrice) {
-      return '0';
-    }
-
-    // Calculate price divergence as a percentage
-    const priceDivergence = divide(
-      subtract(virtualPrice, oraclePrice),
-      oraclePrice,
-    );
-
-    // Apply dampening factor (10%) to prevent over-correction
-    const DAMPENING_FACTOR = '0.1';
-    const dampened = multiply(priceDivergence, DAMPENING_FACTOR);
-
-    // Scale by max velocity to get final velocity
-    const velocity = multiply(dampened, market.maxFundingVelocity);
-
-    return clamp(
-      velocity,
-      multiply(market.maxFundingVelocity, '-1'),
-      market.maxFundingVelocity,
+  private getPremiumIndex(market: Market, now: number): string {
+    return (
+      calculatePremiumIndex(
+        this.premiumSamples.get(market.id) || [],
+        now,
+        FUNDING_INTERVAL_MS,
+      ) ||
+      market.premiumIndex ||
+      '0'
     );
   }
 
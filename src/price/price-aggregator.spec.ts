@@ -0,0 +1,115 @@
+import { PriceAggregator } from './price-aggregator';
+import { PriceSource } from './sources/price-source';
+import { MockPriceSource } from './sources/mock.source';
+import { PriceFeed, PriceSourceName } from '../types/price.types';
+
+describe('PriceAggregator', () => {
+  const asset = { symbol: 'AI16Z', tokenAddress: 'token-address' };
+
+  const mockSource = (
+    name: PriceSourceName,
+    feed: Partial<PriceFeed> | undefined,
+  ): jest.Mocked<PriceSource> => ({
+    name,
+    getPrice: jest
+      .fn()
+      .mockResolvedValue(
+        feed && { source: name, updatedAt: Date.now(), ...feed },
+      ),
+  });
+
+  const config = {
+    sources: [
+      PriceSourceName.BINANCE,
+      PriceSourceName.JUPITER,
+      PriceSourceName.DAOS_FUN_CURVE,
+    ],
+    minSources: 1,
+    maxStalenessMs: 60_000,
+  };
+
+  it('should return the median of the configured sources', async () => {
+    const aggregator = new PriceAggregator([
+      mockSource(PriceSourceName.BINANCE, { price: 1.2 }),
+      mockSource(PriceSourceName.JUPITER, { price: 1 }),
+      mockSource(PriceSourceName.DAOS_FUN_CURVE, { price: 5 }),
+    ]);
+
+    expect(await aggregator.getPrice(asset, config)).toBe('1.2');
+  });
+
+  it('should average the middle two prices of an even count', async () => {
+    const aggregator = new PriceAggregator([
+      mockSource(PriceSourceName.BINANCE, { price: 1 }),
+      mockSource(PriceSourceName.JUPITER, { price: 2 }),
+    ]);
+
+    expect(await aggregator.getPrice(asset, config)).toBe('1.5');
+  });
+
+  it('should only query the sources configured for the market', async () => {
+    const jupiter = mockSource(PriceSourceName.JUPITER, { price: 2 });
+    const aggregator = new PriceAggregator([
+      mockSource(PriceSourceName.DAOS_FUN_CURVE, { price: 1 }),
+      jupiter,
+    ]);
+
+    const price = await aggregator.getPrice(asset, {
+      ...config,
+      sources: [PriceSourceName.DAOS_FUN_CURVE],
+    });
+
+    expect(price).toBe('1');
+    expect(jupiter.getPrice).not.toHaveBeenCalled();
+  });
+
+  it('should ignore stale, failing and uncovering sources', async () => {
+    const failing = mockSource(PriceSourceName.BINANCE, undefined);
+    failing.getPrice.mockRejectedValue(new Error('socket hang up'));
+
+    const aggregator = new PriceAggregator([
+      failing,
+      mockSource(PriceSourceName.JUPITER, {
+        price: 3,
+        updatedAt: Date.now() - 120_000,
+      }),
+      mockSource(PriceSourceName.DAOS_FUN_CURVE, { price: 1 }),
+      mockSource(PriceSourceName.MOCK, undefined),
+    ]);
+
+    const price = await aggregator.getPrice(asset, {
+      ...config,
+      sources: [...config.sources, PriceSourceName.MOCK],
+    });
+
+    expect(price).toBe('1');
+  });
+
+  it('should throw when fewer fresh sources than the quorum respond', async () => {
+    const aggregator = new PriceAggregator([
+      mockSource(PriceSourceName.BINANCE, undefined),
+      mockSource(PriceSourceName.JUPITER, { price: 2 }),
+    ]);
+
+    await expect(
+      aggregator.getPrice(asset, { ...config, minSources: 2 }),
+    ).rejects.toThrow(
+      'Only 1 of 2 required price sources are available for AI16Z',
+    );
+  });
+
+  it('should serve deterministic prices from the mock source', async () => {
+    const aggregator = new PriceAggregator([
+      new MockPriceSource({ AI16Z: 0.75 }),
+    ]);
+
+    const mockConfig = { ...config, sources: [PriceSourceName.MOCK] };
+
+    expect(await aggregator.getPrice(asset, mockConfig)).toBe('0.75');
+    await expect(
+      aggregator.getPrice({ symbol: 'TOPKEK' }, mockConfig),
+    ).rejects.toThrow(
+      'Only 0 of 1 required price sources are available for TOPKEK',
+    );
+  });
+});
@@ -0,0 +1,56 @@
+import { median } from 'src/lib/math';
+import { PriceSourceName } from 'src/types/price.types';
+import { PriceAsset, PriceSource } from './sources/price-source';
+
+export interface PriceAggregationConfig {
+  sources: PriceSourceName[];
+  minSources: number; // Quorum of fresh sources needed to price the asset
+  maxStalenessMs: number;
+}
+
+/**
+ * Prices an asset as the median of its configured sources, ignoring sources
+ * that fail, don't cover the asset or are stale.
+ */
+export class PriceAggregator {
+  constructor(private readonly sources: PriceSource[]) {}
+
+  async getPrice(
+    asset: PriceAsset,
+    config: PriceAggregationConfig,
+  ): Promise<string> {
+    const sources = this.sources.filter((source) =>
+      config.sources.includes(source.name),
+    );
+
+    const feeds = await Promise.all(
+      sources.map((source) =>
+        source.getPrice(asset).catch((error) => {
+          console.error(
+            `${source.name} price for ${asset.symbol} failed:`,
+            error instanceof Error ? error.message : error,
+          );
+          return undefined;
+        }),
+      ),
+    );
+
+    const now = Date.now();
+    const prices = feeds
+      .filter(
+        (feed) =>
+          feed &&
+          feed.price > 0 &&
+          now - feed.updatedAt <= config.maxStalenessMs,
+      )
+      .map((feed) => feed.price);
+
+    if (prices.length < config.minSources) {
+      throw new Error(
+        `Only ${prices.length} of ${config.minSources} required price sources are available for ${asset.symbol}`,
+      );
+    }
+
+    return median(...prices);
+  }
+}
@@ -7,14 +7,17 @@ import {
 } from '@nestjs/common';
 import { PriceService } from './price.service';
 import { PublicKey } from '@solana/web3.js';
+import { MarketPrices, PriceFeedHealth } from '../types/price.types';
 
 @Controller('price')
 export class PriceController {
   constructor(private readonly priceService: PriceService) {}
 
   @Get('market/:marketId')
-  async getCurrentPrice(@Param('marketId') marketId: string): Promise<string> {
-    return this.priceService.getCurrentPrice(marketId);
+  async getMarketPrices(
+    @Param('marketId') marketId: string,
+  ): Promise<MarketPrices> {
+    return this.priceService.getMarketPrices(marketId);
   }
 
   @Get('virtual-price/:marketId')
@@ -32,6 +35,11 @@ export class PriceController {
     return await this.priceService.getUsdcPrice();
   }
 
+  @Get('health')
+  getPriceHealth(): PriceFeedHealth[] {
+    return this.priceService.getPriceHealth();
+  }
+
   @Get('ohlcv')
   async getOHLCV(
     @Query('marketId') marketId: string,
@@ -2,8 +2,11 @@ import { Test, TestingModule } from '@nestjs/testing';
 import { CACHE_MANAGER } from '@nestjs/cache-manager';
 import { PriceService } from './price.service';
 import { MarketService } from '../market/market.service';
+import { DatabaseService } from '../database/database.service';
 import { OrderSide } from '../types/trade.types';
 import { Market } from '../entities/market.entity';
+import { MarketStatus } from '../types/market.types';
+import { PriceSourceName } from '../types/price.types';
 import { multiply, divide, add, subtract } from '../lib/math';
 
 describe('PriceService - Virtual AMM', () => {
@@ -22,6 +25,7 @@ describe('PriceService - Virtual AMM', () => {
     virtualBaseReserve: '1000000000000', // 1000 in base-9
     virtualQuoteReserve: '1000000000', // 1000 in base-6
     virtualK: '1000000000000000000000000', // baseReserve * quoteReserve
+    status: MarketStatus.ACTIVE,
   } as Market;
 
   const BASE_UNIT_DELTA = '1000'; // base-3 (9-6)
@@ -35,9 +39,27 @@ describe('PriceService - Virtual AMM', () => {
   const mockCacheManager = {
     get: jest.fn(),
     set: jest.fn(),
+    del: jest.fn(),
+  };
+
+  const mockDatabaseService = {
+    select: jest.fn().mockResolvedValue([mockMarket]),
+    update: jest.fn(),
   };
 
   beforeEach(async () => {
+    // Keep the constructor off the network
+    for (const method of [
+      'connectBinanceWebSocket',
+      'connectDaoWebSocket',
+      'refreshDaoPrices',
+      'fetchInitialPrices',
+    ]) {
+      jest
+        .spyOn(PriceService.prototype as any, method)
+        .mockImplementation(async () => undefined);
+    }
+
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         PriceService,
@@ -49,6 +71,10 @@ describe('PriceService - Virtual AMM', () => {
           provide: CACHE_MANAGER,
           useValue: mockCacheManager,
         },
+        {
+          provide: DatabaseService,
+          useValue: mockDatabaseService,
+        },
       ],
     }).compile();
 
@@ -61,6 +87,10 @@ describe('PriceService - Virtual AMM', () => {
       const marketId = 'test-market';
       const cachedPrice = '1.5';
       (service as any).virtualPrices.set(marketId, cachedPrice);
+      (service as any).marketReserves.set(marketId, {
+        baseReserve: mockMarket.virtualBaseReserve,
+        quoteReserve: mockMarket.virtualQuoteReserve,
+      });
 
       const result = await service.getVirtualPrice(marketId);
       expect(result).toBe(cachedPrice);
@@ -88,25 +118,20 @@ describe('PriceService - Virtual AMM', () => {
       const side = OrderSide.LONG;
       const sizeUsd = '100'; // 100 USD
 
-      // Convert USD size to USDC base-6 units
-      const sizeInBaseUnits = multiply(sizeUsd, USDC_BASE_UNIT);
+      // Convert USD size to base token units (base-9) at the current price of 1
+      const sizeInBaseUnits = multiply(sizeUsd, SPL_BASE_UNIT);
 
       const result = await service.previewPrice(marketId, side, sizeUsd);
 
-      // Calculate expected values
-      const baseOut = divide(
-        multiply(sizeInBaseUnits, mockMarket.virtualBaseReserve),
-        mockMarket.virtualQuoteReserve,
-      );
-      const newBaseReserve = subtract(mockMarket.virtualBaseReserve, baseOut);
-      const newQuoteReserve = add(
-        mockMarket.virtualQuoteReserve,
+      // Buying base tokens takes them out of the pool
+      const newBaseReserve = subtract(
+        mockMarket.virtualBaseReserve,
         sizeInBaseUnits,
       );
 
       // Calculate execution price with base unit adjustment
       const executionPrice = multiply(
-        divide(newQuoteReserve, newBaseReserve),
+        divide(mockMarket.virtualQuoteReserve, newBaseReserve),
         BASE_UNIT_DELTA,
       );
 
@@ -132,11 +157,10 @@ describe('PriceService - Virtual AMM', () => {
         mockMarket.virtualBaseReserve,
         sizeInBaseUnits,
       );
-      const newQuoteReserve = divide(mockMarket.virtualK, newBaseReserve);
 
       // Calculate execution price with base unit adjustment
       const executionPrice = multiply(
-        divide(newQuoteReserve, newBaseReserve),
+        divide(mockMarket.virtualQuoteReserve, newBaseReserve),
         BASE_UNIT_DELTA,
       );
 
@@ -242,4 +266,190 @@ describe('PriceService - Virtual AMM', () => {
       expect(result).toBe(expectedPrice);
     });
   });
+
+  describe('stale feeds', () => {
+    const curveMarket = {
+      ...mockMarket,
+      priceSources: [PriceSourceName.DAOS_FUN_CURVE],
+      minPriceSources: 1,
+    };
+
+    beforeEach(() => {
+      (service as any).wsConnected = true;
+      mockDatabaseService.select.mockResolvedValue([curveMarket]);
+    });
+
+    afterEach(() => {
+      mockDatabaseService.select.mockResolvedValue([mockMarket]);
+    });
+
+    it('should return a fresh SOL price', async () => {
+      (service as any).solPrice = {
+        price: 150,
+        source: PriceSourceName.BINANCE,
+        updatedAt: Date.now() - 30_000,
+      };
+
+      await expect(service.getSolPrice()).resolves.toBe(150);
+    });
+
+    it('should reject a SOL price older than its max staleness', async () => {
+      (service as any).solPrice = {
+        price: 150,
+        source: PriceSourceName.BINANCE,
+        updatedAt: Date.now() - 61_000,
+      };
+
+      await expect(service.getSolPrice()).rejects.toThrow('SOL price is stale');
+    });
+
+    it('should price a market from a fresh curve feed', async () => {
+      (service as any).daoPrices.set('TEST', {
+        price: 2,
+        source: PriceSourceName.DAOS_FUN_CURVE,
+        updatedAt: Date.now(),
+      });
+
+      await expect(service.getLivePrice('test-market')).resolves.toBe('2');
+    });
+
+    it('should reject a market whose only feed is stale', async () => {
+      (service as any).daoPrices.set('TEST', {
+        price: 2,
+        source: PriceSourceName.DAOS_FUN_CURVE,
+        updatedAt: Date.now() - 181_000,
+      });
+
+      await expect(service.getLivePrice('test-market')).rejects.toThrow(
+        'Only 0 of 1 required price sources are available for TEST',
+      );
+    });
+  });
+
+  describe('getPriceHealth', () => {
+    const now = 1_700_000_000_000;
+
+    beforeEach(() => {
+      jest.useFakeTimers({ now });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should report the age and staleness of every feed', () => {
+      (service as any).solPrice = {
+        price: 150,
+        source: PriceSourceName.BINANCE,
+        updatedAt: now - 90_000,
+      };
+      (service as any).usdcPrice = {
+        price: 1,
+        source: PriceSourceName.BINANCE,
+        updatedAt: now - 10_000,
+      };
+      (service as any).daoPrices.set('TEST', {
+        price: 2,
+        source: PriceSourceName.DAOS_FUN_CURVE,
+        updatedAt: now - 5_000,
+      });
+      (service as any).circuitBreakerTrips.set('TEST', now - 1_000);
+
+      expect(service.getPriceHealth()).toEqual([
+        {
+          feed: 'SOL',
+          price: 150,
+          source: PriceSourceName.BINANCE,
+          updatedAt: now - 90_000,
+          ageMs: 90_000,
+          maxStalenessMs: 60_000,
+          isStale: true,
+          lastCircuitBreakerAt: undefined,
+        },
+        {
+          feed: 'USDC',
+          price: 1,
+          source: PriceSourceName.BINANCE,
+          updatedAt: now - 10_000,
+          ageMs: 10_000,
+          maxStalenessMs: 300_000,
+          isStale: false,
+          lastCircuitBreakerAt: undefined,
+        },
+        {
+          feed: 'TEST',
+          price: 2,
+          source: PriceSourceName.DAOS_FUN_CURVE,
+          updatedAt: now - 5_000,
+          ageMs: 5_000,
+          maxStalenessMs: 180_000,
+          isStale: false,
+          lastCircuitBreakerAt: now - 1_000,
+        },
+      ]);
+    });
+
+    it('should leave out feeds that never reported', () => {
+      (service as any).solPrice = undefined;
+      (service as any).usdcPrice = undefined;
+
+      expect(service.getPriceHealth()).toEqual([]);
+    });
+  });
+
+  describe('circuit breaker', () => {
+    beforeEach(() => {
+      mockDatabaseService.update.mockClear();
+      mockCacheManager.del.mockClear();
+    });
+
+    it('should pause the market when its price moves more than 20% in one update', async () => {
+      await (service as any).updateDaoPrice('test', 1);
+      await (service as any).updateDaoPrice('test', 1.3);
+
+      expect(mockDatabaseService.update).toHaveBeenCalledWith(
+        'markets',
+        { status: MarketStatus.PAUSED },
+        { id: 'test-market' },
+      );
+      expect(mockCacheManager.del).toHaveBeenCalledWith('markets:all');
+      expect(mockCacheManager.del).toHaveBeenCalledWith('market:test-market');
+      expect(mockCacheManager.del).toHaveBeenCalledWith('market:symbol:TEST');
+      expect(mockCacheManager.del).toHaveBeenCalledWith(
+        'market:stats:test-market',
+      );
+      expect((service as any).circuitBreakerTrips.get('TEST')).toBeDefined();
+    });
+
+    it('should pause the market on a drop of more than 20%', async () => {
+      await (service as any).updateDaoPrice('test', 1);
+      await (service as any).updateDaoPrice('test', 0.7);
+
+      expect(mockDatabaseService.update).toHaveBeenCalledWith(
+        'markets',
+        { status: MarketStatus.PAUSED },
+        { id: 'test-market' },
+      );
+    });
+
+    it('should not pause the market on a move of exactly 20%', async () => {
+      await (service as any).updateDaoPrice('test', 1);
+      await (service as any).updateDaoPrice('test', 1.2);
+
+      expect(mockDatabaseService.update).not.toHaveBeenCalled();
+      expect((service as any).daoPrices.get('TEST').price).toBe(1.2);
+    });
+
+    it('should leave a market that is not open for trading as it is', async () => {
+      mockDatabaseService.select.mockResolvedValueOnce([
+        { ...mockMarket, status: MarketStatus.REDUCE_ONLY },
+      ]);
+
+      await (service as any).updateDaoPrice('test', 1);
+      await (service as any).updateDaoPrice('test', 2);
+
+      expect(mockDatabaseService.update).not.toHaveBeenCalled();
+      expect(mockCacheManager.del).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -9,10 +9,42 @@ import { Program, BN, AnchorProvider } from '@coral-xyz/anchor';
 import { VIRTUAL_XYK_IDL } from 'src/lib/idl/virtual_xyk';
 import { VirtualXyk } from 'src/lib/idl/virtual_xyk.types';
 import { CurveUtil } from 'src/lib/virtual-helpers';
-import { multiply, divide, add, subtract, clamp } from 'src/lib/math';
-import { getListedDaos, SOLANA_CONFIG } from 'src/common/config';
+import {
+  multiply,
+  divide,
+  add,
+  subtract,
+  clamp,
+  abs,
+  compare,
+  median,
+} from 'src/lib/math';
+import {
+  DEFAULT_PRICE_FEED_MAX_STALENESS_MS,
+  DEFAULT_PRICE_SOURCES,
+  MOCK_PRICES,
+  getListedDaos,
+  MARK_PRICE_PREMIUM_EMA_ALPHA,
+  PRICE_DEVIATION_CIRCUIT_BREAKER,
+  PRICE_FEED_MAX_STALENESS_MS,
+  SOLANA_CONFIG,
+} from 'src/common/config';
 import { OrderSide } from 'src/types/trade.types';
+import { MarketStatus } from 'src/types/market.types';
+import {
+  MarketPrices,
+  PriceFeed,
+  PriceFeedHealth,
+  PriceSourceName,
+} from 'src/types/price.types';
+import { PriceAggregator } from './price-aggregator';
+import { BinancePriceSource } from './sources/binance.source';
+import { CurvePriceSource } from './sources/curve.source';
+import { JupiterPriceSource } from './sources/jupiter.source';
+import { MockPriceSource } from './sources/mock.source';
+import { isOpeningAllowed } from 'src/lib/marketStatus';
 import { Market } from 'src/entities/market.entity';
+import { getMarketCacheKeys } from 'src/constants/cache.constants';
 import {
   BASE_UNIT_DELTA,
   INITIAL_RESERVE_BALANCE,
@@ -33,9 +65,9 @@ export class PriceService {
   private wsConnected: boolean = false;
 
   // USDC/USD price from Binance
-  private usdcPrice: number;
+  private usdcPrice: PriceFeed;
   // SOL/USD price from Binance
-  private solPrice: number;
+  private solPrice: PriceFeed;
 
   // Store virtual AMM prices in memory
   private virtualPrices: Map<string, string> = new Map();
@@ -43,18 +75,21 @@ export class PriceService {
   // Number of seconds to converge to the oracle price (4 HRS)
   private CONVERGENCE_TRAJECTORY: number = 14400;
 
-  // Rate limiter --> increase once updated to Metis v6 endpoint
-  private solanaLimiter = new RateLimiter({
-    tokensPerInterval: 600,
-    interval: 'minute', // 600 requests per minute
-  });
-
   private geckoTerminalLimiter = new RateLimiter({
     tokensPerInterval: 30,
     interval: 'minute',
   });
 
-  private daoPrices: Map<string, number> = new Map(); // ticker -> price
+  private daoPrices: Map<string, PriceFeed> = new Map(); // ticker -> price
+
+  // ticker -> last time a price jump paused its market
+  private circuitBreakerTrips: Map<string, number> = new Map();
+
+  // Median of each market's configured oracle sources
+  private priceAggregator: PriceAggregator;
+
+  // marketId -> EMA of the vAMM premium over the oracle, for the mark price
+  private premiumEmas: Map<string, string> = new Map();
 
   private marketReserves: Map<
     string,
@@ -75,9 +110,31 @@ export class PriceService {
     @Inject(CACHE_MANAGER) private cacheManager: Cache,
     private readonly databaseService: DatabaseService,
   ) {
+    this.priceAggregator = new PriceAggregator([
+      new BinancePriceSource((symbol) =>
+        symbol === 'SOL'
+          ? this.solPrice
+          : symbol === 'USDC'
+            ? this.usdcPrice
+            : undefined,
+      ),
+      new JupiterPriceSource(
+        this.cacheManager,
+        new RateLimiter({
+          tokensPerInterval: 600,
+          interval: 'minute', // 600 requests per minute
+        }),
+        () => this.usdcPrice?.price,
+      ),
+      new CurvePriceSource(this.daoPrices),
+      new MockPriceSource(MOCK_PRICES),
+    ]);
+
     // Initialize WebSocket connections
     this.connectBinanceWebSocket();
     this.connectDaoWebSocket();
+    // Initialize DAO prices
+    this.refreshDaoPrices();
     // Fetch initial prices
     this.fetchInitialPrices();
   }
@@ -110,6 +167,9 @@ export class PriceService {
             oraclePrice,
           );
 
+          // Sampled here every 10 seconds for the mark price
+          this.updatePremiumEma(market.id, priceDiff);
+
           // If price difference is less than 0.1%, don't adjust
           if (Math.abs(Number(priceDiff)) < 0.001) {
             return;
@@ -164,6 +224,29 @@ export class PriceService {
     }
   }
 
+  /**
+   * @dev Curve accounts only change on swaps, so quiet markets are re-read
+   * to keep their prices fresh.
+   */
+  @Cron(CronExpression.EVERY_MINUTE)
+  async refreshDaoPrices(): Promise<void> {
+    const listedDaos = getListedDaos();
+
+    await Promise.all(
+      Object.entries(listedDaos).map(async ([ticker, curvePda]) => {
+        try {
+          const price = await this.getDaoPrice(new PublicKey(curvePda));
+          await this.updateDaoPrice(ticker, Number(price));
+        } catch (error) {
+          console.error(
+            `Error refreshing ${ticker} price:`,
+            this.getErrorMessage(error),
+          );
+        }
+      }),
+    );
+  }
+
   /**
    * Update OHLCV data for all markets and timeframes
    */
@@ -237,20 +320,57 @@ export class PriceService {
    * ========================== Public Methods ==========================
    */
 
+  /**
+   * @dev The vAMM price trades execute around. Use getMarkPrice for anything
+   * that triggers on price, since a single trade can move the vAMM.
+   */
   async getCurrentPrice(marketId: string): Promise<string> {
     return this.getVirtualPrice(marketId);
   }
 
-  async getLivePrice(marketId: string): Promise<string> {
-    const market = await this.getMarketById(marketId);
+  /**
+   * @dev Median of the oracle, the vAMM and the oracle plus the EMA of the vAMM
+   * premium. Moving it takes moving the oracle or holding the vAMM away from it
+   * for minutes, so it drives liquidations and order triggers.
+   */
+  async getMarkPrice(marketId: string): Promise<string> {
+    const [oraclePrice, vammPrice] = await Promise.all([
+      this.getLivePrice(marketId),
+      this.getVirtualPrice(marketId),
+    ]);
 
-    const price = this.daoPrices.get(market.symbol.toUpperCase());
+    const premiumEma = this.premiumEmas.get(marketId) || '0';
+    const emaPrice = multiply(oraclePrice, add('1', premiumEma));
 
-    if (!price) {
-      throw new Error(`Price not found for ${market.symbol}`);
-    }
+    return median(oraclePrice, vammPrice, emaPrice);
+  }
+
+  async getMarketPrices(marketId: string): Promise<MarketPrices> {
+    const [markPrice, vammPrice] = await Promise.all([
+      this.getMarkPrice(marketId),
+      this.getVirtualPrice(marketId),
+    ]);
+
+    return { markPrice, vammPrice };
+  }
+
+  /**
+   * @dev Median of the market's fresh oracle sources, throws without a quorum.
+   */
+  async getLivePrice(marketId: string): Promise<string> {
+    const market = await this.getMarketById(marketId);
+    const symbol = market.symbol.toUpperCase();
 
-    return price.toString();
+    return this.priceAggregator.getPrice(
+      { symbol, tokenAddress: market.tokenAddress },
+      {
+        sources: market.priceSources?.length
+          ? market.priceSources
+          : DEFAULT_PRICE_SOURCES,
+        minSources: market.minPriceSources || 1,
+        maxStalenessMs: this.getMaxStalenessMs(symbol),
+      },
+    );
   }
 
   /**
@@ -289,23 +409,54 @@ export class PriceService {
   }
 
   async getSolPrice(): Promise<number> {
-    if (!this.wsConnected || !this.solPrice) {
+    if (!this.wsConnected || this.isStale('SOL', this.solPrice)) {
       await this.fetchInitialPrices();
     }
     if (!this.solPrice) {
       throw new Error('Unable to fetch SOL price');
     }
-    return this.solPrice;
+    if (this.isStale('SOL', this.solPrice)) {
+      throw new Error('SOL price is stale');
+    }
+    return this.solPrice.price;
   }
 
   async getUsdcPrice(): Promise<number> {
-    if (!this.wsConnected || !this.usdcPrice) {
+    if (!this.wsConnected || this.isStale('USDC', this.usdcPrice)) {
       await this.fetchInitialPrices();
     }
     if (!this.usdcPrice) {
       throw new Error('Unable to fetch USDC price');
     }
-    return this.usdcPrice;
+    if (this.isStale('USDC', this.usdcPrice)) {
+      throw new Error('USDC price is stale');
+    }
+    return this.usdcPrice.price;
+  }
+
+  /**
+   * Freshness of every price feed, for monitoring
+   */
+  getPriceHealth(): PriceFeedHealth[] {
+    const now = Date.now();
+    const feeds: [string, PriceFeed][] = [
+      ['SOL', this.solPrice],
+      ['USDC', this.usdcPrice],
+      ...this.daoPrices.entries(),
+    ];
+
+    return feeds
+      .filter(([, feed]) => !!feed)
+      .map(([name, feed]) => ({
+        feed: name,
+        price: feed.price,
+        source: feed.source,
+        updatedAt: feed.updatedAt,
+        ageMs: now - feed.updatedAt,
+        maxStalenessMs: this.getMaxStalenessMs(name),
+        isStale: this.isStale(name, feed),
+        lastCircuitBreakerAt: this.circuitBreakerTrips.get(name),
+      }));
   }
 
   /**
@@ -538,85 +689,6 @@ export class PriceService {
    * ========================== Private Methods ==========================
    */
 
-  /**
-   * @dev Returns the price from Jupiter Swap API.
-   * We can potentially just implement this ourselves as it may be more accurate for
-   * blue chip prices like AI16Z.
-   */
-  private async getDexPrice(
-    tokenAddress: string,
-    ticker: string,
-  ): Promise<number> {
-    const cacheKey = `solana-price-${tokenAddress}`;
-    const cachedPrice = await this.cacheManager.get<number>(cacheKey);
-    if (cachedPrice) {
-      return cachedPrice;
-    }
-
-    const jupiterUrl = 'https://api.jup.ag/price/v2';
-
-    try {
-      // Apply rate limiting
-      await this.solanaLimiter.removeTokens(1);
-
-      const jupiterResponse = await fetch(
-        `${jupiterUrl}?ids=${tokenAddress}&showExtraInfo=true`,
-      ).then((res) => res.json());
-
-      const jupiterData = jupiterResponse;
-
-      if (!jupiterData.data || !jupiterData.data[tokenAddress]) {
-        throw new Error(`Price not found for ${ticker}`);
-      }
-
-      const tokenData = jupiterData.data[tokenAddress];
-
-      // Get the most accurate price based on available data
-      let priceInUsdc: number;
-
-      if (tokenData.extraInfo?.quotedPrice) {
-        // Use the average of buy and sell prices if available
-        const buyPrice = parseFloat(tokenData.extraInfo.quotedPrice.buyPrice);
-
-        // If 0, undefined or null, we don't have a sell price
-        const hasSellPrice =
-          tokenData.extraInfo.quotedPrice.sellPrice !== undefined &&
-          tokenData.extraInfo.quotedPrice.sellPrice !== null &&
-          tokenData.extraInfo.quotedPrice.sellPrice !== 0;
-
-        if (hasSellPrice) {
-          const sellPrice = parseFloat(
-            tokenData.extraInfo.quotedPrice.sellPrice || 0,
-          );
-
-          priceInUsdc = (buyPrice + sellPrice) / 2;
-        } else {
-          priceInUsdc = buyPrice;
-        }
-      } else {
-        // Fall back to derived price if quoted prices aren't available
-        priceInUsdc = parseFloat(tokenData.price);
-      }
-
-      // USDC/USD price from Binance WS connection --> set to 1 if N/A
-      const usdcUsdPrice = this.usdcPrice > 0 ? this.usdcPrice : 1;
-
-      // Convert USDC price to USD
-      const price = priceInUsdc * usdcUsdPrice;
-
-      // Cache the result for 5 seconds
-      await this.cacheManager.set(cacheKey, price, 5_000);
-
-      return price;
-    } catch (error) {
-      console.error(
-        `Error fetching Solana price for ${ticker}:`,
-        this.getErrorMessage(error),
-      );
-      throw new Error(`Failed to fetch price for ${ticker}`);
-    }
-  }
-
   async getAllCurves(): Promise<PublicKey[]> {
     const connection = new Connection(
       'https://spring-snowy-telescope.solana-mainnet.quiknode.pro/734a01c9192bece76b7b324bc0c19e91cbdd8ce1',
@@ -707,10 +779,16 @@ export class PriceService {
       const symbol = priceObject.data.s.slice(0, -4);
       const price = parseFloat(priceObject.data.p);
 
+      const feed = {
+        price,
+        source: PriceSourceName.BINANCE,
+        updatedAt: Date.now(),
+      };
+
       if (symbol === 'SOL') {
-        this.solPrice = price;
+        this.solPrice = feed;
       } else if (symbol === 'USDC') {
-        this.usdcPrice = price;
+        this.usdcPrice = feed;
       }
     });
 
@@ -757,7 +835,7 @@ export class PriceService {
         async () => {
           try {
             const price = await this.getDaoPrice(pubkey);
-            this.daoPrices.set(ticker.toUpperCase(), Number(price));
+            await this.updateDaoPrice(ticker, Number(price));
           } catch (error) {
             console.error(
               `Error updating ${ticker} price:`,
@@ -771,27 +849,59 @@ export class PriceService {
       );
     });
 
-    // Initialize prices
-    this.initializeDaoPrices();
-
     console.log('Dao Websocket Connected');
   }
 
-  private async initializeDaoPrices() {
-    const listedDaos = getListedDaos();
+  /**
+   * @dev Records a new DAO price. A jump above PRICE_DEVIATION_CIRCUIT_BREAKER
+   * from the previous price pauses the market until an admin resumes it.
+   */
+  private async updateDaoPrice(ticker: string, price: number): Promise<void> {
+    const feedName = ticker.toUpperCase();
+    const previous = this.daoPrices.get(feedName);
+
+    this.daoPrices.set(feedName, {
+      price,
+      source: PriceSourceName.DAOS_FUN_CURVE,
+      updatedAt: Date.now(),
+    });
+
+    if (!previous || !previous.price) return;
 
+    const deviation = abs(
+      divide(subtract(price, previous.price), previous.price),
+    );
+    if (compare(deviation, PRICE_DEVIATION_CIRCUIT_BREAKER) > 0) {
+      await this.tripCircuitBreaker(feedName, deviation);
+    }
+  }
+
+  private async tripCircuitBreaker(
+    feedName: string,
+    deviation: string,
+  ): Promise<void> {
+    this.circuitBreakerTrips.set(feedName, Date.now());
+
+    const markets = await this.databaseService.select<Market>('markets', {});
+    const market = markets.find(
+      (market) => market.symbol.toUpperCase() === feedName,
+    );
+
+    // Only active markets are paused, reduce-only and closed ones stay as they are
+    if (!market || !isOpeningAllowed(market.status)) return;
+
+    await this.databaseService.update<Market>(
+      'markets',
+      { status: MarketStatus.PAUSED },
+      { id: market.id },
+    );
+    // MarketService caches markets with their status
     await Promise.all(
-      Object.entries(listedDaos).map(async ([ticker, curvePda]) => {
-        try {
-          const price = await this.getDaoPrice(new PublicKey(curvePda));
-          this.daoPrices.set(ticker.toUpperCase(), Number(price));
-        } catch (error) {
-          console.error(
-            `Error initializing ${ticker} price:`,
-            this.getErrorMessage(error),
-          );
-        }
-      }),
+      getMarketCacheKeys(market).map((key) => this.cacheManager.del(key)),
+    );
+
+    console.error(
+      `Paused market ${market.symbol}: oracle moved ${multiply(deviation, '100')}% in one update`,
     );
   }
 
@@ -818,11 +928,19 @@ export class PriceService {
       );
       const prices = await response.json();
 
+      const updatedAt = Date.now();
+
       for (const price of prices) {
+        const feed = {
+          price: parseFloat(price.price),
+          source: PriceSourceName.BINANCE,
+          updatedAt,
+        };
+
         if (price.symbol === 'SOLUSDT') {
-          this.solPrice = parseFloat(price.price);
+          this.solPrice = feed;
         } else if (price.symbol === 'USDCUSDT') {
-          this.usdcPrice = parseFloat(price.price);
+          this.usdcPrice = feed;
         }
       }
     } catch (error) {
@@ -834,11 +952,38 @@ export class PriceService {
   }
 
   public getDaoPriceByTicker(ticker: string): number {
-    const price = this.daoPrices.get(ticker.toUpperCase());
-    if (!price) {
+    const feed = this.daoPrices.get(ticker.toUpperCase());
+    if (!feed) {
       throw new Error(`Price not found for ${ticker}`);
     }
-    return price;
+    return feed.price;
+  }
+
+  private updatePremiumEma(marketId: string, premium: string): void {
+    const previousEma = this.premiumEmas.get(marketId);
+
+    this.premiumEmas.set(
+      marketId,
+      previousEma === undefined
+        ? premium
+        : add(
+            multiply(premium, MARK_PRICE_PREMIUM_EMA_ALPHA),
+            multiply(previousEma, subtract('1', MARK_PRICE_PREMIUM_EMA_ALPHA)),
+          ),
+    );
+  }
+
+  private getMaxStalenessMs(feedName: string): number {
+    return (
+      PRICE_FEED_MAX_STALENESS_MS[feedName] ??
+      DEFAULT_PRICE_FEED_MAX_STALENESS_MS
+    );
+  }
+
+  private isStale(feedName: string, feed?: PriceFeed): boolean {
+    return (
+      !feed || Date.now() - feed.updatedAt > this.getMaxStalenessMs(feedName)
+    );
   }
 
   /**
@@ -929,7 +1074,7 @@ export class PriceService {
 
   private async initializeVirtualAMM(market: Market): Promise<Market> {
     // Get initial oracle price
-    const initialPrice = this.daoPrices.get(market.symbol.toUpperCase());
+    const initialPrice = this.daoPrices.get(market.symbol.toUpperCase())?.price;
 
     // Calculate $1M in the market's token
     const baseReserve = Math.round(
@@ -0,0 +1,38 @@
+import { PriceFeed, PriceSourceName } from 'src/types/price.types';
+import { PriceAsset, PriceSource } from './price-source';
+
+/**
+ * Binance spot prices against USDT. Streamed prices are used while they are
+ * available, other assets are read from the REST ticker.
+ */
+export class BinancePriceSource implements PriceSource {
+  readonly name = PriceSourceName.BINANCE;
+
+  constructor(
+    private readonly getStreamedPrice: (
+      symbol: string,
+    ) => PriceFeed | undefined,
+  ) {}
+
+  async getPrice(asset: PriceAsset): Promise<PriceFeed | undefined> {
+    const streamedPrice = this.getStreamedPrice(asset.symbol);
+    if (streamedPrice) {
+      return streamedPrice;
+    }
+
+    const response = await fetch(
+      `https://api.binance.com/api/v3/ticker/price?symbol=${asset.symbol}USDT`,
+    );
+    // Binance answers 400 for pairs it doesn't list
+    if (!response.ok) {
+      return undefined;
+    }
+
+    const ticker = await response.json();
+    return {
+      price: parseFloat(ticker.price),
+      source: this.name,
+      updatedAt: Date.now(),
+    };
+  }
+}
@@ -0,0 +1,16 @@
+import { PriceFeed, PriceSourceName } from 'src/types/price.types';
+import { PriceAsset, PriceSource } from './price-source';
+
+/**
+ * DAO token prices read from their daos.fun curve accounts. The accounts are
+ * watched by PriceService, so this only serves the latest value it recorded.
+ */
+export class CurvePriceSource implements PriceSource {
+  readonly name = PriceSourceName.DAOS_FUN_CURVE;
+
+  constructor(private readonly curvePrices: Map<string, PriceFeed>) {}
+
+  async getPrice(asset: PriceAsset): Promise<PriceFeed | undefined> {
+    return this.curvePrices.get(asset.symbol);
+  }
+}
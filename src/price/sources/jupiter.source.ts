@@ -0,0 +1,86 @@
+import { Cache } from 'cache-manager';
+import { RateLimiter } from 'limiter';
+import { PriceFeed, PriceSourceName } from 'src/types/price.types';
+import { PriceAsset, PriceSource } from './price-source';
+
+const JUPITER_PRICE_URL = 'https://api.jup.ag/price/v2';
+
+/**
+ * DEX prices from the Jupiter Price API, quoted in USDC and converted to USD.
+ */
+export class JupiterPriceSource implements PriceSource {
+  readonly name = PriceSourceName.JUPITER;
+
+  constructor(
+    private readonly cacheManager: Cache,
+    // Rate limiter --> increase once updated to Metis v6 endpoint
+    private readonly limiter: RateLimiter,
+    private readonly getUsdcPrice: () => number | undefined,
+  ) {}
+
+  async getPrice(asset: PriceAsset): Promise<PriceFeed | undefined> {
+    const { tokenAddress } = asset;
+    if (!tokenAddress) {
+      return undefined;
+    }
+
+    const cacheKey = `solana-price-${tokenAddress}`;
+    const cachedPrice = await this.cacheManager.get<PriceFeed>(cacheKey);
+    if (cachedPrice) {
+      return cachedPrice;
+    }
+
+    await this.limiter.removeTokens(1);
+
+    const jupiterData = await fetch(
+      `${JUPITER_PRICE_URL}?ids=${tokenAddress}&showExtraInfo=true`,
+    ).then((res) => res.json());
+
+    if (!jupiterData.data || !jupiterData.data[tokenAddress]) {
+      return undefined;
+    }
+
+    const tokenData = jupiterData.data[tokenAddress];
+
+    // Get the most accurate price based on available data
+    let priceInUsdc: number;
+
+    if (tokenData.extraInfo?.quotedPrice) {
+      // Use the average of buy and sell prices if available
+      const buyPrice = parseFloat(tokenData.extraInfo.quotedPrice.buyPrice);
+
+      // If 0, undefined or null, we don't have a sell price
+      const hasSellPrice =
+        tokenData.extraInfo.quotedPrice.sellPrice !== undefined &&
+        tokenData.extraInfo.quotedPrice.sellPrice !== null &&
+        tokenData.extraInfo.quotedPrice.sellPrice !== 0;
+
+      if (hasSellPrice) {
+        const sellPrice = parseFloat(
+          tokenData.extraInfo.quotedPrice.sellPrice || 0,
+        );
+
+        priceInUsdc = (buyPrice + sellPrice) / 2;
+      } else {
+        priceInUsdc = buyPrice;
+      }
+    } else {
+      // Fall back to derived price if quoted prices aren't available
+      priceInUsdc = parseFloat(tokenData.price);
+    }
+
+    // USDC/USD price from Binance WS connection --> set to 1 if N/A
+    const usdcUsdPrice = this.getUsdcPrice() > 0 ? this.getUsdcPrice() : 1;
+
+    const feed: PriceFeed = {
+      price: priceInUsdc * usdcUsdPrice,
+      source: this.name,
+      updatedAt: Date.now(),
+    };
+
+    // Cache the result for 5 seconds
+    await this.cacheManager.set(cacheKey, feed, 5_000);
+
+    return feed;
+  }
+}
@@ -0,0 +1,20 @@
+import { PriceFeed, PriceSourceName } from 'src/types/price.types';
+import { PriceAsset, PriceSource } from './price-source';
+
+/**
+ * Fixed prices for tests and devnet markets. Always fresh.
+ */
+export class MockPriceSource implements PriceSource {
+  readonly name = PriceSourceName.MOCK;
+
+  constructor(private readonly prices: Record<string, number>) {}
+
+  async getPrice(asset: PriceAsset): Promise<PriceFeed | undefined> {
+    const price = this.prices[asset.symbol];
+    if (price === undefined) {
+      return undefined;
+    }
+
+    return { price, source: this.name, updatedAt: Date.now() };
+  }
+}
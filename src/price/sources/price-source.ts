@@ -0,0 +1,15 @@
+import { PriceFeed, PriceSourceName } from 'src/types/price.types';
+
+export interface PriceAsset {
+  symbol: string; // Upper-case ticker, e.g. SOL or AI16Z
+  tokenAddress?: string; // SPL mint, for on-chain and DEX sources
+}
+
+/**
+ * A place prices can be read from. Sources return undefined for assets they
+ * don't cover and throw when they are unreachable.
+ */
+export interface PriceSource {
+  readonly name: PriceSourceName;
+  getPrice(asset: PriceAsset): Promise<PriceFeed | undefined>;
+}
@@ -8,6 +8,7 @@ import { CACHE_MANAGER } from '@nestjs/cache-manager';
 import { Cache } from 'cache-manager';
 import { Inject } from '@nestjs/common';
 import { MarketStats } from '../entities/market-stats.entity';
+import { getCacheKey } from '../constants/cache.constants';
 import { add } from '../lib/math';
 import { Cron, CronExpression } from '@nestjs/schedule';
 
@@ -19,7 +20,7 @@ export class StatsService {
   ) {}
 
   async getMarketStats(marketId: string): Promise<MarketStats> {
-    const cacheKey = `market:stats:${marketId}`;
+    const cacheKey = getCacheKey.marketStats(marketId);
     const cachedStats = await this.cacheManager.get<MarketStats>(cacheKey);
 
     if (cachedStats) {
@@ -113,7 +114,7 @@ export class StatsService {
   }
 
   private async invalidateStatsCache(marketId: string): Promise<void> {
-    const cacheKey = `market:stats:${marketId}`;
+    const cacheKey = getCacheKey.marketStats(marketId);
     await this.cacheManager.del(cacheKey);
   }
 }
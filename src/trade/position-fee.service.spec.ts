@@ -0,0 +1,319 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { PositionFeeService } from './position-fee.service';
+import { DatabaseService } from '../database/database.service';
+import { PriceService } from '../price/price.service';
+import { MarginService } from '../margin/margin.service';
+import { MarketService } from '../market/market.service';
+import { EventsService } from '../events/events.service';
+import { Position, PositionStatus } from '../entities/position.entity';
+import { Market } from '../entities/market.entity';
+import { BorrowingPayment } from '../entities/borrowing.entity';
+import { OrderSide } from '../types/trade.types';
+import { TokenType } from '../types/token.types';
+
+describe('PositionFeeService', () => {
+  let service: PositionFeeService;
+  let databaseService: jest.Mocked<DatabaseService>;
+  let marginService: jest.Mocked<MarginService>;
+  let marketService: jest.Mocked<MarketService>;
+  let eventsService: jest.Mocked<EventsService>;
+
+  const NOW = new Date('2026-01-01T00:00:00Z');
+  const HOUR = 60 * 60 * 1000;
+
+  // Rates of zero keep the indices where they are between updates
+  const market = {
+    id: 'market1',
+    symbol: 'BTC-USD',
+    fundingRate: '0',
+    cumulativeFundingIndex: '0.02',
+    lastUpdatedTimestamp: NOW.getTime(),
+    borrowingRate: '0',
+    cumulativeBorrowingIndex: '0.005',
+    borrowingIndexUpdatedAt: NOW.getTime(),
+  } as Market;
+
+  // Owes 10000 * (0.02 - 0.01) = 100 of funding and 10000 * 0.003 = 30 of borrowing
+  const position: Position = {
+    id: 'position1',
+    userId: 'user1',
+    marketId: market.id,
+    symbol: 'BTC-USD',
+    side: OrderSide.LONG,
+    size: '10000',
+    leverage: '10',
+    margin: '1000',
+    entryPrice: '20000',
+    token: TokenType.USDC,
+    status: PositionStatus.OPEN,
+    lockedMarginSOL: '0',
+    lockedMarginUSDC: '1000',
+    accumulatedFunding: '5',
+    accumulatedBorrowingFee: '1',
+    fundingIndex: '0.01',
+    borrowingIndex: '0.002',
+    lastFundingUpdate: new Date(NOW.getTime() - HOUR),
+    lastBorrowingFeeUpdate: new Date(NOW.getTime() - HOUR),
+    createdAt: new Date('2025-12-01T00:00:00Z'),
+    updatedAt: new Date('2025-12-01T00:00:00Z'),
+  };
+
+  const positionUpdate = (call = 0) =>
+    databaseService.update.mock.calls[call][1] as Partial<Position>;
+
+  const insertedRows = (table: string) =>
+    databaseService.insert.mock.calls
+      .filter(([insertTable]) => insertTable === table)
+      .flatMap(([, rows]) => rows);
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PositionFeeService,
+        {
+          provide: DatabaseService,
+          useValue: {
+            select: jest.fn(),
+            update: jest.fn(async (_, data, { id }) => [{ id, ...data }]),
+            insert: jest.fn(async (_, rows) => rows),
+          },
+        },
+        {
+          provide: PriceService,
+          useValue: {
+            getSolPrice: jest.fn().mockResolvedValue('100'),
+            getUsdcPrice: jest.fn().mockResolvedValue('1'),
+          },
+        },
+        {
+          provide: MarginService,
+          useValue: {
+            reduceLockedMargin: jest.fn(),
+            addToLockedMargin: jest.fn(),
+          },
+        },
+        {
+          provide: MarketService,
+          useValue: {
+            addTradingFees: jest.fn(),
+          },
+        },
+        {
+          provide: EventsService,
+          useValue: {
+            emitFundingFeeCharged: jest.fn(),
+            emitBorrowingFeeCharged: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<PositionFeeService>(PositionFeeService);
+    databaseService = module.get(DatabaseService);
+    marginService = module.get(MarginService);
+    marketService = module.get(MarketService);
+    eventsService = module.get(EventsService);
+
+    jest.useFakeTimers();
+    jest.setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('settlePosition', () => {
+    it('should charge a long the funding and borrowing accrued since its snapshots', async () => {
+      const settled = await service.settlePosition(position, market);
+
+      expect(marginService.reduceLockedMargin).toHaveBeenCalledWith(
+        'user1',
+        TokenType.USDC,
+        '130',
+      );
+      expect(marketService.addTradingFees).toHaveBeenCalledWith(
+        market.id,
+        '130',
+        TokenType.USDC,
+      );
+      expect(positionUpdate()).toEqual({
+        accumulatedFunding: '105',
+        accumulatedBorrowingFee: '31',
+        fundingIndex: '0.02',
+        borrowingIndex: '0.005',
+        lastFundingUpdate: NOW,
+        lastBorrowingFeeUpdate: NOW,
+      });
+      expect(settled).toMatchObject({ id: position.id, fundingIndex: '0.02' });
+    });
+
+    it('should pay a short the funding and only credit the market its borrowing', async () => {
+      await service.settlePosition(
+        { ...position, side: OrderSide.SHORT },
+        market,
+      );
+
+      // Receives 100 of funding, pays 30 of borrowing
+      expect(marginService.addToLockedMargin).toHaveBeenCalledWith(
+        'user1',
+        TokenType.USDC,
+        '70',
+      );
+      expect(marginService.reduceLockedMargin).not.toHaveBeenCalled();
+      expect(marketService.addTradingFees).toHaveBeenCalledWith(
+        market.id,
+        '30',
+        TokenType.USDC,
+      );
+      expect(positionUpdate().accumulatedFunding).toBe('-95');
+    });
+
+    it('should convert fees to SOL at the SOL price', async () => {
+      await service.settlePosition(
+        { ...position, token: TokenType.SOL },
+        market,
+      );
+
+      expect(marginService.reduceLockedMargin).toHaveBeenCalledWith(
+        'user1',
+        TokenType.SOL,
+        '1.3',
+      );
+    });
+
+    it('should record and emit the payments with their average daily rates', async () => {
+      await service.settlePosition(position, market);
+
+      const [fundingPayment] = insertedRows('funding_payments');
+      const [borrowingPayment] = insertedRows(
+        'borrowing_payments',
+      ) as BorrowingPayment[];
+
+      // 100 / 10000 over 1/24 of a day
+      expect(fundingPayment).toMatchObject({
+        positionId: position.id,
+        side: OrderSide.LONG,
+        fundingRate: '0.24',
+        periodSeconds: '3600',
+        feeUsd: '100',
+        feeToken: '100',
+      });
+      expect(borrowingPayment).toMatchObject({
+        positionId: position.id,
+        feeUsd: '30',
+      });
+      expect(Number(borrowingPayment.borrowingRate)).toBeCloseTo(0.072, 12);
+      expect(eventsService.emitFundingFeeCharged).toHaveBeenCalledWith(
+        fundingPayment,
+      );
+      expect(eventsService.emitBorrowingFeeCharged).toHaveBeenCalledWith(
+        borrowingPayment,
+      );
+    });
+
+    it('should leave a position with nothing pending untouched', async () => {
+      const upToDate = {
+        ...position,
+        fundingIndex: '0.02',
+        borrowingIndex: '0.005',
+      };
+
+      expect(await service.settlePosition(upToDate, market)).toBe(upToDate);
+      expect(databaseService.update).not.toHaveBeenCalled();
+      expect(databaseService.insert).not.toHaveBeenCalled();
+      expect(marketService.addTradingFees).not.toHaveBeenCalled();
+    });
+
+    it('should snapshot the indices on a position without them, free of charge', async () => {
+      await service.settlePosition(
+        { ...position, fundingIndex: undefined, borrowingIndex: undefined },
+        market,
+      );
+
+      expect(positionUpdate()).toMatchObject({
+        accumulatedFunding: '5',
+        fundingIndex: '0.02',
+        borrowingIndex: '0.005',
+      });
+      expect(marginService.reduceLockedMargin).not.toHaveBeenCalled();
+      expect(databaseService.insert).not.toHaveBeenCalled();
+    });
+
+    it('should accrue the indices at the current rates since the market update', async () => {
+      await service.settlePosition(position, {
+        ...market,
+        fundingRate: '0.024',
+        lastUpdatedTimestamp: NOW.getTime() - HOUR,
+      });
+
+      // 0.02 + 0.024 per day * 1/24 of a day
+      expect(Number(positionUpdate().fundingIndex)).toBeCloseTo(0.021, 12);
+      expect(Number(positionUpdate().accumulatedFunding)).toBeCloseTo(115, 8);
+    });
+  });
+
+  describe('settleAllPositionFees', () => {
+    const positions = [
+      position,
+      { ...position, id: 'position2', userId: 'user2' },
+      { ...position, id: 'position3', token: TokenType.SOL },
+      { ...position, id: 'orphan', marketId: 'delisted' },
+    ];
+
+    beforeEach(() => {
+      databaseService.select.mockImplementation(async (table) =>
+        table === 'markets' ? [market] : positions,
+      );
+      databaseService.update.mockImplementation(async (_, data, { id }) => [
+        { ...positions.find((open) => open.id === id), ...data },
+      ]);
+    });
+
+    it('should settle every open position of a listed market', async () => {
+      await service.settleAllPositionFees();
+
+      expect(databaseService.select).toHaveBeenCalledWith('positions', {
+        eq: { status: PositionStatus.OPEN },
+      });
+      expect(
+        databaseService.update.mock.calls.map(([, , { id }]) => id),
+      ).toEqual(['position1', 'position2', 'position3']);
+    });
+
+    it('should credit each market once per token', async () => {
+      await service.settleAllPositionFees();
+
+      expect(marketService.addTradingFees).toHaveBeenCalledTimes(2);
+      expect(marketService.addTradingFees).toHaveBeenCalledWith(
+        market.id,
+        '260',
+        TokenType.USDC,
+      );
+      expect(marketService.addTradingFees).toHaveBeenCalledWith(
+        market.id,
+        '1.3',
+        TokenType.SOL,
+      );
+    });
+
+    it('should write the ledgers in one insert per table', async () => {
+      await service.settleAllPositionFees();
+
+      expect(databaseService.insert).toHaveBeenCalledTimes(2);
+      expect(insertedRows('funding_payments')).toHaveLength(3);
+      expect(insertedRows('borrowing_payments')).toHaveLength(3);
+      expect(eventsService.emitFundingFeeCharged).toHaveBeenCalledTimes(3);
+    });
+
+    it('should keep settling the batch past a failing position', async () => {
+      marginService.reduceLockedMargin.mockRejectedValueOnce(
+        new Error('Insufficient locked margin'),
+      );
+
+      await service.settleAllPositionFees();
+
+      expect(databaseService.update).toHaveBeenCalledTimes(2);
+      expect(insertedRows('funding_payments')).toHaveLength(2);
+    });
+  });
+});
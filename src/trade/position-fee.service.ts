@@ -0,0 +1,293 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Interval } from '@nestjs/schedule';
+import { DatabaseService } from '../database/database.service';
+import { Position, PositionStatus } from '../entities/position.entity';
+import { Market } from '../entities/market.entity';
+import { FundingPayment } from '../entities/funding.entity';
+import { BorrowingPayment } from '../entities/borrowing.entity';
+import { PriceService } from '../price/price.service';
+import { MarginService } from '../margin/margin.service';
+import { MarketService } from '../market/market.service';
+import { EventsService } from '../events/events.service';
+import { TokenType } from 'src/types/token.types';
+import { OrderSide } from 'src/types/trade.types';
+import { FEE_SETTLEMENT_INTERVAL_MS, SECONDS_IN_DAY } from 'src/common/config';
+import { add, compare, divide, isZero, max, multiply } from 'src/lib/math';
+import { PendingFees, calculatePendingFees } from 'src/lib/positionFees';
+
+interface FeeSettlement {
+  position: Position;
+  fundingPayment?: FundingPayment;
+  borrowingPayment?: BorrowingPayment;
+  marketFees: string; // Token amount credited to the market
+}
+
+/**
+ * @dev Funding and borrowing accrue through per-market cumulative indices.
+ * Positions snapshot the indices and owe size * (index - snapshot), which is
+ * settled for every open position at FEE_SETTLEMENT_INTERVAL_MS, and for a
+ * single position before any change to its size.
+ */
+@Injectable()
+export class PositionFeeService {
+  private readonly logger = new Logger(PositionFeeService.name);
+
+  constructor(
+    private readonly databaseService: DatabaseService,
+    private readonly priceService: PriceService,
+    private readonly marginService: MarginService,
+    private readonly marketService: MarketService,
+    private readonly eventsService: EventsService,
+  ) {}
+
+  @Interval(FEE_SETTLEMENT_INTERVAL_MS)
+  async settleAllPositionFees(): Promise<void> {
+    const [positions, markets, solPrice, usdcPrice] = await Promise.all([
+      this.databaseService.select<Position>('positions', {
+        eq: { status: PositionStatus.OPEN },
+      }),
+      this.databaseService.select<Market>('markets', {}),
+      this.priceService.getSolPrice(),
+      this.priceService.getUsdcPrice(),
+    ]);
+    const marketById = new Map(markets.map((market) => [market.id, market]));
+    const now = new Date();
+
+    const settlements: FeeSettlement[] = [];
+    for (const position of positions) {
+      const market = marketById.get(position.marketId);
+      if (!market) continue;
+
+      try {
+        settlements.push(
+          await this.settleFees(
+            position,
+            market,
+            position.token === TokenType.SOL ? solPrice : usdcPrice,
+            now,
+          ),
+        );
+      } catch (error) {
+        this.logger.error(
+          `Error settling fees for position ${position.id}:`,
+          error,
+        );
+      }
+    }
+
+    // Credit each market once per token for the whole batch
+    const marketFees = new Map<string, string>();
+    for (const { position, marketFees: fees } of settlements) {
+      const key = `${position.marketId}:${position.token}`;
+      marketFees.set(key, add(marketFees.get(key) || '0', fees));
+    }
+    for (const [key, fees] of marketFees) {
+      if (compare(fees, '0') <= 0) continue;
+      const [marketId, token] = key.split(':');
+      await this.marketService.addTradingFees(
+        marketId,
+        fees,
+        token as TokenType,
+      );
+    }
+
+    await this.recordPayments(settlements);
+  }
+
+  /**
+   * Settles the fees a position has pending and snapshots the current indices
+   * on it. Called before a position changes size, as fees accrue on size.
+   * @returns The updated position
+   */
+  async settlePosition(position: Position, market: Market): Promise<Position> {
+    const tokenPrice =
+      position.token === TokenType.SOL
+        ? await this.priceService.getSolPrice()
+        : await this.priceService.getUsdcPrice();
+
+    const settlement = await this.settleFees(
+      position,
+      market,
+      tokenPrice,
+      new Date(),
+    );
+
+    if (compare(settlement.marketFees, '0') > 0) {
+      await this.marketService.addTradingFees(
+        market.id,
+        settlement.marketFees,
+        position.token,
+      );
+    }
+    await this.recordPayments([settlement]);
+
+    return settlement.position;
+  }
+
+  private async settleFees(
+    position: Position,
+    market: Market,
+    tokenPrice: string | number,
+    now: Date,
+  ): Promise<FeeSettlement> {
+    const pendingFees = calculatePendingFees(position, market, now.getTime());
+
+    const hasSnapshots =
+      position.fundingIndex !== undefined &&
+      position.fundingIndex !== null &&
+      position.borrowingIndex !== undefined &&
+      position.borrowingIndex !== null;
+    if (
+      hasSnapshots &&
+      isZero(pendingFees.fundingUsd) &&
+      isZero(pendingFees.borrowingUsd)
+    ) {
+      return { position, marketFees: '0' };
+    }
+
+    const fundingToken = divide(pendingFees.fundingUsd, tokenPrice);
+    const borrowingToken = divide(pendingFees.borrowingUsd, tokenPrice);
+    const netFeeToken = add(fundingToken, borrowingToken);
+
+    // Fees paid come out of the locked margin, funding received goes into it
+    if (compare(netFeeToken, '0') > 0) {
+      await this.marginService.reduceLockedMargin(
+        position.userId,
+        position.token,
+        netFeeToken,
+      );
+    } else if (compare(netFeeToken, '0') < 0) {
+      await this.marginService.addToLockedMargin(
+        position.userId,
+        position.token,
+        multiply(netFeeToken, '-1'),
+      );
+    }
+
+    const [updatedPosition] = await this.databaseService.update<Position>(
+      'positions',
+      {
+        accumulatedFunding: add(
+          position.accumulatedFunding || '0',
+          fundingToken,
+        ),
+        accumulatedBorrowingFee: add(
+          position.accumulatedBorrowingFee || '0',
+          borrowingToken,
+        ),
+        fundingIndex: pendingFees.fundingIndex,
+        borrowingIndex: pendingFees.borrowingIndex,
+        lastFundingUpdate: now,
+        lastBorrowingFeeUpdate: now,
+      },
+      { id: position.id },
+    );
+
+    return {
+      position: updatedPosition,
+      ...this.buildPayments(
+        position,
+        pendingFees,
+        fundingToken,
+        borrowingToken,
+        now,
+      ),
+      marketFees: add(max(fundingToken, '0'), borrowingToken),
+    };
+  }
+
+  private buildPayments(
+    position: Position,
+    pendingFees: PendingFees,
+    fundingToken: string,
+    borrowingToken: string,
+    now: Date,
+  ): Pick<FeeSettlement, 'fundingPayment' | 'borrowingPayment'> {
+    const secondsSince = (lastUpdate?: Date) =>
+      (
+        (now.getTime() - new Date(lastUpdate || position.createdAt).getTime()) /
+        1000
+      ).toString();
+    // Average daily rate over the period, from the fee it accrued
+    const averageRate = (feeUsd: string, seconds: string) =>
+      compare(seconds, '0') > 0
+        ? divide(divide(feeUsd, position.size), divide(seconds, SECONDS_IN_DAY))
+        : '0';
+
+    const fundingSeconds = secondsSince(position.lastFundingUpdate);
+    const borrowingSeconds = secondsSince(position.lastBorrowingFeeUpdate);
+    const longFundingUsd =
+      position.side === OrderSide.LONG
+        ? pendingFees.fundingUsd
+        : multiply(pendingFees.fundingUsd, '-1');
+
+    return {
+      fundingPayment: isZero(pendingFees.fundingUsd)
+        ? undefined
+        : {
+            id: crypto.randomUUID(),
+            positionId: position.id,
+            userId: position.userId,
+            marketId: position.marketId,
+            side: position.side,
+            size: position.size,
+            fundingRate: averageRate(longFundingUsd, fundingSeconds),
+            periodSeconds: fundingSeconds,
+            feeUsd: pendingFees.fundingUsd,
+            feeToken: fundingToken,
+            token: position.token,
+            createdAt: now,
+          },
+      borrowingPayment: isZero(pendingFees.borrowingUsd)
+        ? undefined
+        : {
+            id: crypto.randomUUID(),
+            positionId: position.id,
+            userId: position.userId,
+            marketId: position.marketId,
+            size: position.size,
+            borrowingRate: averageRate(
+              pendingFees.borrowingUsd,
+              borrowingSeconds,
+            ),
+            periodSeconds: borrowingSeconds,
+            feeUsd: pendingFees.borrowingUsd,
+            feeToken: borrowingToken,
+            token: position.token,
+            createdAt: now,
+          },
+    };
+  }
+
+  /**
+   * @dev Writes the ledger rows of a batch in one insert per table
+   */
+  private async recordPayments(settlements: FeeSettlement[]): Promise<void> {
+    const fundingPayments = settlements
+      .map((settlement) => settlement.fundingPayment)
+      .filter(Boolean);
+    const borrowingPayments = settlements
+      .map((settlement) => settlement.borrowingPayment)
+      .filter(Boolean);
+
+    if (fundingPayments.length) {
+      const payments = await this.databaseService.insert<FundingPayment>(
+        'funding_payments',
+        fundingPayments,
+      );
+      payments.forEach((payment) =>
+        this.eventsService.emitFundingFeeCharged(payment),
+      );
+    }
+
+    if (borrowingPayments.length) {
+      const payments = await this.databaseService.insert<BorrowingPayment>(
+        'borrowing_payments',
+        borrowingPayments,
+      );
+      payments.forEach((payment) =>
+        this.eventsService.emitBorrowingFeeCharged(payment),
+      );
+    }
+  }
+}
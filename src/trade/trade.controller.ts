@@ -13,6 +13,11 @@ export class TradeController {
     return this.tradeService.openPosition(orderRequest);
   }
 
+  @Post('quote')
+  async quoteOrder(@Body() orderRequest: OrderRequest) {
+    return this.tradeService.quotePosition(orderRequest);
+  }
+
   @Post('position/:positionId/margin')
   async editMargin(
     @Param('positionId') positionId: string,
@@ -55,6 +60,20 @@ export class TradeController {
     );
   }
 
+  @Post('position/:positionId/trailing-stop')
+  async editTrailingStop(
+    @Param('positionId') positionId: string,
+    @Body() request: { trailingStopDistance: string | null },
+    @Query('publicKey') publicKey: string,
+  ) {
+    validatePublicKey(publicKey);
+    return this.tradeService.editTrailingStop(
+      positionId,
+      publicKey,
+      request.trailingStopDistance,
+    );
+  }
+
   @Post('position/:positionId/close')
   async closePosition(
     @Param('positionId') positionId: string,
@@ -71,7 +90,7 @@ export class TradeController {
 
   @Get('positions')
   async getUserPositions(@Query('publicKey') publicKey: string) {
-    return this.tradeService.getUserPositions(publicKey);
+    return this.tradeService.getUserPositionViews(publicKey);
   }
 
   @Get('position/:positionId')
@@ -79,7 +98,29 @@ export class TradeController {
     @Param('positionId') positionId: string,
     @Query('publicKey') publicKey: string,
   ) {
-    return this.tradeService.getPosition(positionId);
+    return this.tradeService.getPositionView(positionId);
+  }
+
+  @Get('position/:positionId/funding')
+  async getPositionFunding(
+    @Param('positionId') positionId: string,
+    @Query('startTime') startTime?: string,
+    @Query('endTime') endTime?: string,
+  ) {
+    return this.tradeService.getPositionFunding(positionId, startTime, endTime);
+  }
+
+  @Get('position/:positionId/borrowing')
+  async getPositionBorrowing(
+    @Param('positionId') positionId: string,
+    @Query('startTime') startTime?: string,
+    @Query('endTime') endTime?: string,
+  ) {
+    return this.tradeService.getPositionBorrowing(
+      positionId,
+      startTime,
+      endTime,
+    );
   }
 
   @Get('trades')
@@ -1,5 +1,6 @@
 import { Module, forwardRef } from '@nestjs/common';
 import { TradeService } from './trade.service';
+import { PositionFeeService } from './position-fee.service';
 import { UserModule } from '../users/user.module';
 import { PriceModule } from '../price/price.module';
 import { UtilsModule } from '../utils/utils.module';
@@ -9,6 +10,7 @@ import { EventsModule } from 'src/events/events.module';
 import { MarketModule } from 'src/market/market.module';
 import { DatabaseModule } from 'src/database/database.module';
 import { StatsModule } from 'src/stats/stats.module';
+import { LiquidityModule } from 'src/liquidity/liquidity.module';
 
 @Module({
   imports: [
@@ -20,9 +22,10 @@ import { StatsModule } from 'src/stats/stats.module';
     EventsModule,
     forwardRef(() => MarketModule),
     StatsModule,
+    LiquidityModule,
   ],
   controllers: [TradeController],
-  providers: [TradeService],
-  exports: [TradeService],
+  providers: [TradeService, PositionFeeService],
+  exports: [TradeService, PositionFeeService],
 })
 export class TradeModule {}
@@ -1,5 +1,6 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { TradeService } from './trade.service';
+import { PositionFeeService } from './position-fee.service';
 import { PriceService } from '../price/price.service';
 import { CacheService } from '../utils/cache.service';
 import { MarginService } from '../margin/margin.service';
@@ -7,9 +8,18 @@ import { EventsService } from '../events/events.service';
 import { MarketService } from '../market/market.service';
 import { DatabaseService } from '../database/database.service';
 import { StatsService } from '../stats/stats.service';
-import { OrderRequest, OrderSide, Trade } from '../types/trade.types';
+import { UserService } from '../users/user.service';
+import { LiquidityService } from '../liquidity/liquidity.service';
+import { PositionMode } from '../entities/user.entity';
+import {
+  OrderRequest,
+  OrderSide,
+  Trade,
+  TradeType,
+} from '../types/trade.types';
 import { Position, PositionStatus } from '../entities/position.entity';
 import { Market } from '../entities/market.entity';
+import { MarketStatus } from '../types/market.types';
 import { TokenType } from '../types/token.types';
 import { MarginBalance } from '../entities/margin-balance.entity';
 import {
@@ -28,6 +38,9 @@ describe('TradeService', () => {
   let marketService: jest.Mocked<MarketService>;
   let databaseService: jest.Mocked<DatabaseService>;
   let statsService: jest.Mocked<StatsService>;
+  let userService: jest.Mocked<UserService>;
+  let positionFeeService: jest.Mocked<PositionFeeService>;
+  let liquidityService: jest.Mocked<LiquidityService>;
 
   const mockMarket: Market = {
     id: 'market-1',
@@ -73,9 +86,10 @@ describe('TradeService', () => {
         {
           provide: PriceService,
           useValue: {
-            getCurrentPrice: jest.fn(),
+            getMarkPrice: jest.fn(),
             previewPrice: jest.fn(),
             getSolPrice: jest.fn(),
+            getUsdcPrice: jest.fn(),
           },
         },
         {
@@ -107,6 +121,8 @@ describe('TradeService', () => {
             updateVirtualReserves: jest.fn(),
             updateMarket: jest.fn(),
             addTradingFees: jest.fn(),
+            getFundingRate: jest.fn(),
+            closeMarket: jest.fn(),
           },
         },
         {
@@ -123,6 +139,29 @@ describe('TradeService', () => {
             addVolume: jest.fn(),
           },
         },
+        {
+          provide: UserService,
+          useValue: {
+            getPositionMode: jest.fn().mockResolvedValue(PositionMode.HEDGE),
+          },
+        },
+        {
+          provide: PositionFeeService,
+          useValue: {
+            settlePosition: jest.fn(async (position) => position),
+          },
+        },
+        {
+          provide: LiquidityService,
+          useValue: {
+            // The mock market's 1800 is all the open interest the pool backs
+            getOpenInterestCapacity: jest.fn().mockResolvedValue({
+              totalOpenInterest: '1800',
+              maxOpenInterest: '10000',
+            }),
+            settleTraderPnl: jest.fn(),
+          },
+        },
       ],
     }).compile();
 
@@ -134,9 +173,16 @@ describe('TradeService', () => {
     marketService = module.get(MarketService);
     databaseService = module.get(DatabaseService);
     statsService = module.get(StatsService);
+    userService = module.get(UserService);
+    positionFeeService = module.get(PositionFeeService);
+    liquidityService = module.get(LiquidityService);
 
     databaseService.select.mockImplementation((table, query) => {
-      if (query?.and?.some((q) => q.stopLossPrice || q.takeProfitPrice)) {
+      if (
+        query?.and?.some(
+          (q) => q.stopLossPrice || q.takeProfitPrice || q.trailingStopDistance,
+        )
+      ) {
         return Promise.resolve([]);
       }
       return Promise.resolve([mockPosition]);
@@ -182,6 +228,24 @@ describe('TradeService', () => {
       expect(databaseService.insert).toHaveBeenCalled();
     });
 
+    it("should snapshot the market's fee indices on a new position", async () => {
+      marketService.getMarketById.mockResolvedValue({
+        ...mockMarket,
+        cumulativeFundingIndex: '0.02',
+        cumulativeBorrowingIndex: '0.01',
+      });
+
+      await service.openPosition(mockOrderRequest);
+
+      expect(databaseService.insert).toHaveBeenCalledWith(
+        'positions',
+        expect.objectContaining({
+          fundingIndex: '0.02',
+          borrowingIndex: '0.01',
+        }),
+      );
+    });
+
     it('should throw BadRequestException for invalid leverage', async () => {
       const invalidRequest = { ...mockOrderRequest, leverage: '11' };
       await expect(service.openPosition(invalidRequest)).rejects.toThrow(
@@ -195,13 +259,696 @@ describe('TradeService', () => {
         BadRequestException,
       );
     });
+
+    it('should reject trades past the open interest the pool backs across markets', async () => {
+      // Other markets hold 7700 of the pool's 10000, this market's 1800 takes it to 9500
+      liquidityService.getOpenInterestCapacity.mockResolvedValue({
+        totalOpenInterest: '9500',
+        maxOpenInterest: '10000',
+      });
+
+      await expect(service.openPosition(mockOrderRequest)).rejects.toThrow(
+        'Insufficient liquidity',
+      );
+      expect(marginService.lockMargin).not.toHaveBeenCalled();
+    });
+
+    it('should reject leverage above the tier for the position size', async () => {
+      marketService.getMarketById.mockResolvedValue({
+        ...mockMarket,
+        riskTiers: [
+          {
+            maxNotional: '500',
+            maxLeverage: '10',
+            maintenanceMarginRate: '0.05',
+          },
+          { maxLeverage: '4', maintenanceMarginRate: '0.1' },
+        ],
+      });
+
+      await expect(service.openPosition(mockOrderRequest)).rejects.toThrow(
+        'Max leverage for a 1000 position is 4x',
+      );
+      expect(marginService.lockMargin).not.toHaveBeenCalled();
+    });
+
+    it('should reject positions larger than the last bounded tier', async () => {
+      marketService.getMarketById.mockResolvedValue({
+        ...mockMarket,
+        riskTiers: [
+          {
+            maxNotional: '500',
+            maxLeverage: '10',
+            maintenanceMarginRate: '0.05',
+          },
+        ],
+      });
+
+      await expect(service.openPosition(mockOrderRequest)).rejects.toThrow(
+        "Position size exceeds the market's largest risk tier of 500",
+      );
+    });
+
+    it('should reject longs past the max long open interest', async () => {
+      marketService.getMarketById.mockResolvedValue({
+        ...mockMarket,
+        maxLongOpenInterest: '1500',
+      });
+
+      await expect(service.openPosition(mockOrderRequest)).rejects.toThrow(
+        'Max long open interest of 1500 exceeded',
+      );
+      expect(marginService.lockMargin).not.toHaveBeenCalled();
+    });
+
+    it('should reject trades that widen the skew past the max skew', async () => {
+      // Long 1000 vs short 800, another 1000 long takes the skew to 1200
+      marketService.getMarketById.mockResolvedValue({
+        ...mockMarket,
+        maxSkew: '500',
+      });
+
+      await expect(service.openPosition(mockOrderRequest)).rejects.toThrow(
+        'Max open interest skew of 500 exceeded',
+      );
+    });
+
+    it('should allow trades that narrow a skew already past the cap', async () => {
+      marketService.getMarketById.mockResolvedValue({
+        ...mockMarket,
+        maxSkew: '100',
+      });
+
+      const result = await service.openPosition({
+        ...mockOrderRequest,
+        side: OrderSide.SHORT,
+        size: '150',
+      });
+
+      expect(result).toBe(true);
+    });
+
+    it.each([
+      MarketStatus.PAUSED,
+      MarketStatus.REDUCE_ONLY,
+      MarketStatus.CLOSED,
+    ])('should reject new positions while the market is %s', async (status) => {
+      marketService.getMarketById.mockResolvedValue({
+        ...mockMarket,
+        status,
+      });
+
+      await expect(service.openPosition(mockOrderRequest)).rejects.toThrow(
+        `Market BTC-USD is ${status}, new positions are not allowed`,
+      );
+      expect(marginService.lockMargin).not.toHaveBeenCalled();
+    });
+
+    describe('adding to an existing position', () => {
+      const addRequest = { ...mockOrderRequest, size: '3000' };
+
+      beforeEach(() => {
+        priceService.previewPrice.mockResolvedValue({
+          executionPrice: '100000',
+          priceImpact: '0',
+        });
+        cacheService.wrap.mockImplementation(async (key, fn) => {
+          if (key.includes('position')) {
+            return mockPosition;
+          }
+          return fn();
+        });
+        databaseService.update.mockResolvedValue([
+          { ...mockPosition, size: '4000' },
+        ]);
+      });
+
+      it('should open a new position in hedge mode', async () => {
+        await service.openPosition(addRequest);
+
+        expect(databaseService.insert).toHaveBeenCalledWith(
+          'positions',
+          expect.objectContaining({ size: '3000' }),
+        );
+        expect(databaseService.update).not.toHaveBeenCalled();
+      });
+
+      it('should settle fees at the old size before adding to it', async () => {
+        userService.getPositionMode.mockResolvedValueOnce(PositionMode.NETTING);
+        const settledPosition = { ...mockPosition, fundingIndex: '0.02' };
+        positionFeeService.settlePosition.mockResolvedValueOnce(
+          settledPosition,
+        );
+
+        await service.openPosition(addRequest);
+
+        expect(positionFeeService.settlePosition).toHaveBeenCalledWith(
+          expect.objectContaining({ id: mockPosition.id, size: '1000' }),
+          mockMarket,
+        );
+        expect(
+          positionFeeService.settlePosition.mock.invocationCallOrder[0],
+        ).toBeLessThan(databaseService.update.mock.invocationCallOrder[0]);
+      });
+
+      it('should merge into the open same-side position in netting mode', async () => {
+        userService.getPositionMode.mockResolvedValueOnce(PositionMode.NETTING);
+
+        await service.openPosition(addRequest);
+
+        expect(databaseService.select).toHaveBeenCalledWith('positions', {
+          eq: {
+            userId: 'user-1',
+            marketId: 'market-1',
+            side: OrderSide.LONG,
+            status: PositionStatus.OPEN,
+          },
+          order: { column: 'createdAt', ascending: true },
+          limit: 1,
+        });
+        expect(databaseService.insert).not.toHaveBeenCalledWith(
+          'positions',
+          expect.anything(),
+        );
+        // 1000 @ 50000 + 3000 @ 100000 --> 4000 / (0.02 + 0.03) = 80000
+        expect(databaseService.update).toHaveBeenCalledWith(
+          'positions',
+          {
+            size: '4000',
+            entryPrice: '80000',
+            margin: '800',
+            leverage: '5',
+            lockedMarginSOL: '0',
+            lockedMarginUSDC: '797',
+          },
+          { id: 'position-1' },
+        );
+      });
+
+      it('should re-lock the existing margin together with the added margin', async () => {
+        await service.openPosition({
+          ...addRequest,
+          positionId: 'position-1',
+        });
+
+        expect(marginService.releaseMargin).toHaveBeenCalledWith(
+          'user-1',
+          TokenType.USDC,
+          'position-1',
+        );
+        expect(marginService.lockMargin).toHaveBeenCalledWith(
+          'user-1',
+          TokenType.USDC,
+          '797',
+          'position-1',
+        );
+      });
+
+      it('should record a trade for the added size', async () => {
+        await service.openPosition({
+          ...addRequest,
+          positionId: 'position-1',
+        });
+
+        expect(databaseService.insert).toHaveBeenCalledWith(
+          'trades',
+          expect.objectContaining({
+            positionId: 'position-1',
+            side: OrderSide.LONG,
+            size: '3000',
+            price: '100000',
+            fee: '3',
+          }),
+        );
+      });
+
+      it('should reject adding to a position on the other side', async () => {
+        await expect(
+          service.openPosition({
+            ...addRequest,
+            side: OrderSide.SHORT,
+            positionId: 'position-1',
+          }),
+        ).rejects.toThrow(
+          'Order market, side and token must match the position',
+        );
+      });
+
+      it('should reject adding margin in another token to a position', async () => {
+        await expect(
+          service.openPosition({
+            ...addRequest,
+            token: TokenType.SOL,
+            positionId: 'position-1',
+          }),
+        ).rejects.toThrow(
+          'Order market, side and token must match the position',
+        );
+        expect(marginService.lockMargin).not.toHaveBeenCalled();
+      });
+
+      it('should reject merging into a position margined in another token', async () => {
+        userService.getPositionMode.mockResolvedValueOnce(PositionMode.NETTING);
+
+        await expect(
+          service.openPosition({ ...addRequest, token: TokenType.SOL }),
+        ).rejects.toThrow('Open LONG position is margined in USDC');
+        expect(marginService.lockMargin).not.toHaveBeenCalled();
+      });
+
+      it('should reject adding to another user position', async () => {
+        await expect(
+          service.openPosition({
+            ...addRequest,
+            userId: 'user-2',
+            positionId: 'position-1',
+          }),
+        ).rejects.toThrow(UnauthorizedException);
+      });
+    });
+
+    describe('one-way mode', () => {
+      beforeEach(() => {
+        userService.getPositionMode.mockResolvedValue(PositionMode.ONE_WAY);
+        // The user holds a 1000 USD long opened at 50000
+        databaseService.select.mockImplementation((table, query) =>
+          Promise.resolve(
+            query?.eq?.side === OrderSide.LONG ? [mockPosition] : [],
+          ),
+        );
+        priceService.previewPrice.mockResolvedValue({
+          executionPrice: '55000',
+          priceImpact: '0',
+        });
+        databaseService.update.mockResolvedValue([
+          { ...mockPosition, status: PositionStatus.CLOSED },
+        ]);
+        databaseService.insert.mockImplementation((table, data) =>
+          Promise.resolve([data]),
+        );
+      });
+
+      it('should close the opposing position and open the residual on the new side', async () => {
+        await service.openPosition({
+          ...mockOrderRequest,
+          side: OrderSide.SHORT,
+          size: '1500',
+        });
+
+        expect(databaseService.update).toHaveBeenCalledWith(
+          'positions',
+          expect.objectContaining({
+            status: PositionStatus.CLOSED,
+            closingPrice: '55000',
+            realizedPnl: '100',
+          }),
+          { id: 'position-1' },
+        );
+        expect(databaseService.insert).toHaveBeenCalledWith(
+          'positions',
+          expect.objectContaining({
+            side: OrderSide.SHORT,
+            size: '500',
+            entryPrice: '55000',
+          }),
+        );
+        expect(marketService.updateMarket).toHaveBeenCalledWith('market-1', {
+          longOpenInterest: '0',
+          shortOpenInterest: '800',
+        });
+        expect(marketService.updateMarket).toHaveBeenCalledWith('market-1', {
+          longOpenInterest: '1000',
+          shortOpenInterest: '1300',
+        });
+      });
+
+      it('should price the whole order with a single price impact', async () => {
+        await service.openPosition({
+          ...mockOrderRequest,
+          side: OrderSide.SHORT,
+          size: '1500',
+        });
+
+        expect(priceService.previewPrice).toHaveBeenCalledTimes(1);
+        expect(priceService.previewPrice).toHaveBeenCalledWith(
+          'market-1',
+          OrderSide.SHORT,
+          '1500',
+        );
+        expect(marketService.updateVirtualReserves).toHaveBeenCalledTimes(1);
+        expect(marketService.updateVirtualReserves).toHaveBeenCalledWith(
+          'market-1',
+          OrderSide.SHORT,
+          '1500',
+        );
+      });
+
+      it('should only reduce the opposing position when the order is smaller', async () => {
+        databaseService.update.mockResolvedValue([
+          { ...mockPosition, size: '600' },
+        ]);
+
+        const result = await service.openPosition({
+          ...mockOrderRequest,
+          side: OrderSide.SHORT,
+          size: '400',
+        });
+
+        expect(result).toBe(true);
+        expect(databaseService.update).toHaveBeenCalledWith(
+          'positions',
+          expect.objectContaining({ size: '600' }),
+          { id: 'position-1' },
+        );
+        expect(databaseService.insert).not.toHaveBeenCalledWith(
+          'positions',
+          expect.anything(),
+        );
+      });
+
+      it('should not close the position when the residual cannot be margined', async () => {
+        await expect(
+          service.openPosition({
+            ...mockOrderRequest,
+            side: OrderSide.SHORT,
+            size: '3000',
+            leverage: '1',
+          }),
+        ).rejects.toThrow('Insufficient margin');
+
+        expect(marginService.releaseMargin).not.toHaveBeenCalled();
+        expect(databaseService.update).not.toHaveBeenCalled();
+      });
+
+      it('should still merge same-side orders', async () => {
+        databaseService.update.mockResolvedValue([
+          { ...mockPosition, size: '2000' },
+        ]);
+
+        await service.openPosition(mockOrderRequest);
+
+        expect(databaseService.update).toHaveBeenCalledWith(
+          'positions',
+          expect.objectContaining({ size: '2000' }),
+          { id: 'position-1' },
+        );
+      });
+    });
+  });
+
+  describe('quotePosition', () => {
+    const mockOrderRequest: OrderRequest = {
+      id: 'order-1',
+      marketId: 'market-1',
+      userId: 'user-1',
+      side: OrderSide.LONG,
+      size: '1000',
+      leverage: '5',
+      token: TokenType.USDC,
+    };
+
+    beforeEach(() => {
+      marketService.getMarketById.mockResolvedValue({
+        ...mockMarket,
+        borrowingRate: '0.048',
+      });
+      marketService.getFundingRate.mockResolvedValue('0.024');
+      priceService.previewPrice.mockResolvedValue({
+        executionPrice: '50000',
+        priceImpact: '0.002',
+      });
+      priceService.getSolPrice.mockResolvedValue(100);
+    });
+
+    it('should quote price, margin, fee, liquidation price and hourly costs', async () => {
+      const quote = await service.quotePosition(mockOrderRequest);
+
+      expect(quote).toEqual({
+        executionPrice: '50000',
+        priceImpact: '0.002',
+        requiredMargin: '200',
+        fee: '1',
+        // Requirement 1000 * (0.05 + 0.01) = 60, 199 locked after the fee
+        // 50000 * (1 + (60 - 199) / 1000)
+        liquidationPrice: '43050',
+        hourlyFundingFee: '1',
+        hourlyBorrowingFee: '2',
+      });
+    });
+
+    it('should quote the fee in SOL and credit funding to shorts', async () => {
+      const quote = await service.quotePosition({
+        ...mockOrderRequest,
+        side: OrderSide.SHORT,
+        token: TokenType.SOL,
+      });
+
+      expect(quote.fee).toBe('0.01');
+      expect(quote.hourlyFundingFee).toBe('-1');
+    });
+
+    it('should not write anything', async () => {
+      await service.quotePosition(mockOrderRequest);
+
+      expect(databaseService.insert).not.toHaveBeenCalled();
+      expect(databaseService.update).not.toHaveBeenCalled();
+      expect(marginService.lockMargin).not.toHaveBeenCalled();
+      expect(marginService.deductMargin).not.toHaveBeenCalled();
+      expect(marketService.updateVirtualReserves).not.toHaveBeenCalled();
+      expect(marketService.updateMarket).not.toHaveBeenCalled();
+    });
+
+    it('should reject leverage above the market maximum', async () => {
+      await expect(
+        service.quotePosition({ ...mockOrderRequest, leverage: '11' }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reject quotes while the market is paused', async () => {
+      marketService.getMarketById.mockResolvedValue({
+        ...mockMarket,
+        status: MarketStatus.PAUSED,
+      });
+
+      await expect(service.quotePosition(mockOrderRequest)).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+  });
+
+  describe('position views', () => {
+    const openPosition: Position = {
+      ...mockPosition,
+      accumulatedFunding: '2',
+      accumulatedBorrowingFee: '1',
+    };
+
+    beforeEach(() => {
+      priceService.getMarkPrice.mockResolvedValue('55000');
+      priceService.getSolPrice.mockResolvedValue(100);
+      priceService.getUsdcPrice.mockResolvedValue(1);
+      marketService.getMarketById.mockResolvedValue(mockMarket);
+      cacheService.wrap.mockImplementation(async (key, fn) => fn());
+      databaseService.select.mockResolvedValue([]);
+    });
+
+    it('should add live metrics to an open position', async () => {
+      databaseService.select.mockResolvedValueOnce([openPosition]);
+
+      const { metrics } = await service.getPositionView('position-1');
+
+      expect(metrics).toEqual(
+        expect.objectContaining({
+          markPrice: '55000',
+          unrealizedPnl: '100',
+          accumulatedFundingUsd: '2',
+          accumulatedBorrowingFeeUsd: '1',
+          // 200 locked - 3 accumulated fees
+          collateralValue: '197',
+          equity: '297',
+          // 1000 * (0.05 maintenance + 0.01 liquidation fee)
+          maintenanceMargin: '60',
+          marginRatio: '4.95',
+          // 50000 * (1 + (60 - 197) / 1000)
+          liquidationPrice: '43150',
+        }),
+      );
+      expect(Number(metrics.distanceToLiquidation)).toBeCloseTo(11850 / 55000);
+    });
+
+    it('should count fees accrued since the last settlement', async () => {
+      jest.useFakeTimers().setSystemTime(new Date('2026-01-02T00:00:00Z'));
+      marketService.getMarketById.mockResolvedValue({
+        ...mockMarket,
+        fundingRate: '0.001',
+        cumulativeFundingIndex: '0.003',
+        lastUpdatedTimestamp: new Date('2026-01-01T00:00:00Z').getTime(),
+        borrowingRate: '0.0005',
+        cumulativeBorrowingIndex: '0.0025',
+        borrowingIndexUpdatedAt: new Date('2026-01-01T00:00:00Z').getTime(),
+      });
+      databaseService.select.mockResolvedValueOnce([
+        { ...openPosition, fundingIndex: '0.002', borrowingIndex: '0.002' },
+      ]);
+
+      const { metrics } = await service.getPositionView('position-1');
+      jest.useRealTimers();
+
+      // 1000 * (0.003 + 0.001 - 0.002) pending on top of the 2 settled
+      expect(metrics.accumulatedFundingUsd).toBe('4');
+      // 1000 * (0.0025 + 0.0005 - 0.002) pending on top of the 1 settled
+      expect(metrics.accumulatedBorrowingFeeUsd).toBe('2');
+      expect(metrics.collateralValue).toBe('194');
+    });
+
+    it('should fetch mark prices once per market and skip closed positions', async () => {
+      databaseService.select.mockResolvedValueOnce([
+        openPosition,
+        { ...openPosition, id: 'position-2', side: OrderSide.SHORT },
+        { ...openPosition, id: 'position-3', status: PositionStatus.CLOSED },
+      ]);
+
+      const views = await service.getUserPositionViews('user-1');
+
+      expect(priceService.getMarkPrice).toHaveBeenCalledTimes(1);
+      expect(marketService.getMarketById).toHaveBeenCalledTimes(1);
+      expect(priceService.getSolPrice).toHaveBeenCalledTimes(1);
+      expect(views[0].metrics).toBeDefined();
+      expect(views[1].metrics.unrealizedPnl).toBe('-100');
+      expect(views[2].metrics).toBeUndefined();
+    });
+
+    it("should list positions without metrics while their market's oracle is down", async () => {
+      databaseService.select.mockResolvedValueOnce([
+        openPosition,
+        { ...openPosition, id: 'position-2', marketId: 'market-2' },
+        { ...openPosition, id: 'position-3', status: PositionStatus.CLOSED },
+      ]);
+      priceService.getMarkPrice.mockImplementation(async (marketId) => {
+        if (marketId === 'market-2') {
+          throw new Error('Price for market-2 is stale');
+        }
+        return '55000';
+      });
+
+      const views = await service.getUserPositionViews('user-1');
+
+      expect(views).toHaveLength(3);
+      expect(views[0].metrics.markPrice).toBe('55000');
+      expect(views[1].id).toBe('position-2');
+      expect(views[1].metrics).toBeUndefined();
+      expect(views[2].metrics).toBeUndefined();
+    });
+
+    it('should rank profitable positions into ADL quintiles per side', async () => {
+      databaseService.select
+        .mockResolvedValueOnce([openPosition])
+        .mockResolvedValueOnce([
+          openPosition,
+          // Same pnl at twice the leverage --> ahead in the queue
+          { ...openPosition, id: 'position-2', leverage: '10' },
+          // Losing, so not in the queue
+          { ...openPosition, id: 'position-3', entryPrice: '60000' },
+          // Other side of the market, ranked separately
+          { ...openPosition, id: 'position-4', side: OrderSide.SHORT },
+        ]);
+
+      const [view] = await service.getUserPositionViews('user-1');
+
+      expect(databaseService.select).toHaveBeenLastCalledWith('positions', {
+        eq: { marketId: 'market-1', status: PositionStatus.OPEN },
+      });
+      // Second of two queued longs
+      expect(view.metrics.adlQuintile).toBe(3);
+    });
+
+    it('should report positions outside the ADL queue as 0', async () => {
+      databaseService.select
+        .mockResolvedValueOnce([openPosition])
+        .mockResolvedValueOnce([openPosition]);
+      priceService.getMarkPrice.mockResolvedValue('45000');
+
+      const [view] = await service.getUserPositionViews('user-1');
+
+      expect(view.metrics.adlQuintile).toBe(0);
+    });
+  });
+
+  describe('deleveragePosition', () => {
+    beforeEach(() => {
+      cacheService.wrap.mockImplementation(async (key, fn) => {
+        if (key.includes('position')) {
+          return mockPosition;
+        }
+        return fn();
+      });
+      marketService.getMarketById.mockResolvedValue(mockMarket);
+      priceService.getSolPrice.mockResolvedValue(100);
+      databaseService.update.mockResolvedValue([
+        { ...mockPosition, size: '600' },
+      ]);
+      marginService.releaseMargin.mockResolvedValue();
+    });
+
+    it('should close at the bankruptcy price without a fee or vAMM move', async () => {
+      const result = await service.deleveragePosition(
+        'position-1',
+        '400',
+        '56000',
+      );
+
+      expect(result.size).toBe('600');
+      expect(marginService.deductMargin).not.toHaveBeenCalled();
+      expect(marketService.updateVirtualReserves).not.toHaveBeenCalled();
+      expect(databaseService.insert).toHaveBeenCalledWith(
+        'trades',
+        expect.objectContaining({
+          side: OrderSide.SHORT,
+          size: '400',
+          price: '56000',
+          fee: '0',
+          type: TradeType.ADL,
+        }),
+      );
+      expect(eventsService.emitPositionsUpdate).toHaveBeenCalledWith('user-1');
+    });
+
+    it('should pay out only the closed share of the margin with its PnL', async () => {
+      await service.deleveragePosition('position-1', '400', '56000');
+
+      // The 200 lock comes back with 400 * 12% = 48 of PnL, then 120 is locked
+      // again, so 80 + 48 ends up available
+      expect(marginService.releaseMargin).toHaveBeenCalledWith(
+        'user-1',
+        TokenType.USDC,
+        'position-1',
+        '48',
+      );
+      expect(marginService.lockMargin).toHaveBeenCalledWith(
+        'user-1',
+        TokenType.USDC,
+        '120',
+        'position-1',
+      );
+      expect(liquidityService.settleTraderPnl).toHaveBeenCalledWith('48');
+    });
+
+    it('should reject sizes above the position size', async () => {
+      await expect(
+        service.deleveragePosition('position-1', '2000', '56000'),
+      ).rejects.toThrow(BadRequestException);
+    });
   });
 
   describe('closePosition', () => {
     beforeEach(() => {
       databaseService.select.mockResolvedValue([mockPosition]);
       marketService.getMarketById.mockResolvedValue(mockMarket);
-      priceService.getCurrentPrice.mockResolvedValue('55000');
+      priceService.getMarkPrice.mockResolvedValue('55000');
+      priceService.previewPrice.mockResolvedValue({
+        executionPrice: '55000',
+        priceImpact: '0',
+      });
       priceService.getSolPrice.mockResolvedValue(100);
       cacheService.wrap.mockImplementation(async (key, fn) => {
         if (key.includes('position')) {
@@ -220,23 +967,132 @@ describe('TradeService', () => {
         'position-1',
         'user-1',
         '1000',
+        '100',
       );
       expect(result).toBeDefined();
       expect(marginService.releaseMargin).toHaveBeenCalled();
       expect(databaseService.update).toHaveBeenCalled();
     });
 
+    it("should settle the trader's PnL against the liquidity pool", async () => {
+      await service.closePosition('position-1', 'user-1', '1000', '100');
+
+      // 10% up on 1000
+      expect(liquidityService.settleTraderPnl).toHaveBeenCalledWith('100');
+    });
+
+    it('should settle fees before closing and close the settled position', async () => {
+      const settledPosition = {
+        ...mockPosition,
+        accumulatedFunding: '3',
+        fundingIndex: '0.02',
+      };
+      positionFeeService.settlePosition.mockResolvedValueOnce(settledPosition);
+
+      await service.closePosition('position-1', 'user-1', '1000', '100');
+
+      expect(positionFeeService.settlePosition).toHaveBeenCalledWith(
+        mockPosition,
+        mockMarket,
+      );
+      expect(databaseService.update).toHaveBeenCalledWith(
+        'positions',
+        expect.objectContaining({
+          accumulatedFunding: '3',
+          fundingIndex: '0.02',
+          status: PositionStatus.CLOSED,
+        }),
+        { id: mockPosition.id },
+      );
+    });
+
     it('should throw UnauthorizedException for unauthorized user', async () => {
       await expect(
-        service.closePosition('position-1', 'wrong-user', '1000'),
+        service.closePosition('position-1', 'wrong-user', '1000', '100'),
       ).rejects.toThrow(UnauthorizedException);
     });
 
     it('should throw BadRequestException for invalid size', async () => {
       await expect(
-        service.closePosition('position-1', 'user-1', '2000'),
+        service.closePosition('position-1', 'user-1', '2000', '100'),
       ).rejects.toThrow(BadRequestException);
     });
+
+    it('should allow closes while the market is paused', async () => {
+      marketService.getMarketById.mockResolvedValue({
+        ...mockMarket,
+        status: MarketStatus.PAUSED,
+      });
+
+      await service.closePosition('position-1', 'user-1', '1000', '100');
+
+      expect(marginService.releaseMargin).toHaveBeenCalled();
+    });
+
+    it('should reject closes once the market is closed', async () => {
+      marketService.getMarketById.mockResolvedValue({
+        ...mockMarket,
+        status: MarketStatus.CLOSED,
+      });
+
+      await expect(
+        service.closePosition('position-1', 'user-1', '1000', '100'),
+      ).rejects.toThrow('Market BTC-USD is closed');
+      expect(marginService.releaseMargin).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('settleMarket', () => {
+    beforeEach(() => {
+      databaseService.select.mockResolvedValue([mockPosition]);
+      marketService.closeMarket.mockResolvedValue({
+        ...mockMarket,
+        status: MarketStatus.CLOSED,
+        settlementPrice: '55000',
+      });
+      marketService.getMarketById.mockResolvedValue({
+        ...mockMarket,
+        status: MarketStatus.CLOSED,
+      });
+      priceService.getSolPrice.mockResolvedValue(100);
+      databaseService.update.mockResolvedValue([
+        { ...mockPosition, status: PositionStatus.CLOSED },
+      ]);
+      marginService.releaseMargin.mockResolvedValue();
+    });
+
+    it('should close the market and settle open positions at the settlement price', async () => {
+      const result = await service.settleMarket('market-1', '55000');
+
+      expect(marketService.closeMarket).toHaveBeenCalledWith(
+        'market-1',
+        '55000',
+      );
+      expect(
+        marketService.closeMarket.mock.invocationCallOrder[0],
+      ).toBeLessThan(databaseService.update.mock.invocationCallOrder[0]);
+      expect(result).toHaveLength(1);
+      expect(marginService.deductMargin).not.toHaveBeenCalled();
+      expect(marketService.updateVirtualReserves).not.toHaveBeenCalled();
+      expect(databaseService.insert).toHaveBeenCalledWith(
+        'trades',
+        expect.objectContaining({
+          side: OrderSide.SHORT,
+          size: '1000',
+          price: '55000',
+          fee: '0',
+          type: TradeType.SETTLEMENT,
+        }),
+      );
+      expect(eventsService.emitPositionsUpdate).toHaveBeenCalledWith('user-1');
+    });
+
+    it('should reject a non-positive settlement price', async () => {
+      await expect(service.settleMarket('market-1', '0')).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(marketService.closeMarket).not.toHaveBeenCalled();
+    });
   });
 
   describe('editStopLoss', () => {
@@ -310,6 +1166,153 @@ describe('TradeService', () => {
     });
   });
 
+  describe('editTrailingStop', () => {
+    beforeEach(() => {
+      priceService.getMarkPrice.mockResolvedValue('52000');
+      cacheService.wrap.mockImplementation(async (key, fn) => {
+        if (key.includes('position')) {
+          return mockPosition;
+        }
+        return fn();
+      });
+      databaseService.update.mockImplementation(async (table, data) => [
+        data as Position,
+      ]);
+    });
+
+    it('should set the trailing stop and reset the watermark to the current price', async () => {
+      const result = await service.editTrailingStop(
+        'position-1',
+        'user-1',
+        '1000',
+      );
+      expect(result.trailingStopDistance).toBe('1000');
+      expect(result.trailingStopWatermark).toBe('52000');
+    });
+
+    it('should allow removing the trailing stop by passing null', async () => {
+      const result = await service.editTrailingStop(
+        'position-1',
+        'user-1',
+        null,
+      );
+      expect(result.trailingStopDistance).toBeNull();
+      expect(result.trailingStopWatermark).toBeNull();
+    });
+
+    it('should throw BadRequestException for a non-positive distance', async () => {
+      await expect(
+        service.editTrailingStop('position-1', 'user-1', '0'),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should throw BadRequestException when the distance is omitted', async () => {
+      await expect(
+        service.editTrailingStop('position-1', 'user-1', undefined),
+      ).rejects.toThrow(BadRequestException);
+      expect(databaseService.update).not.toHaveBeenCalled();
+    });
+
+    it('should throw UnauthorizedException for unauthorized user', async () => {
+      await expect(
+        service.editTrailingStop('position-1', 'wrong-user', '1000'),
+      ).rejects.toThrow(UnauthorizedException);
+    });
+  });
+
+  describe('trailing stop monitoring', () => {
+    const trailingLong: Position = {
+      ...mockPosition,
+      trailingStopDistance: '1000',
+      trailingStopWatermark: '52000',
+    };
+    const trailingShort: Position = {
+      ...mockPosition,
+      side: OrderSide.SHORT,
+      trailingStopDistance: '1000',
+      trailingStopWatermark: '48000',
+    };
+
+    const mockTrailingPositions = (position: Position) => {
+      databaseService.select.mockImplementation(async (table, query) => {
+        if (query?.and?.some((q) => q.trailingStopDistance)) {
+          return [position];
+        }
+        return [];
+      });
+    };
+
+    beforeEach(() => {
+      jest.spyOn(service, 'closePosition').mockResolvedValue(mockPosition);
+    });
+
+    it('should ratchet the watermark up for longs as price rises', async () => {
+      mockTrailingPositions(trailingLong);
+      priceService.getMarkPrice.mockResolvedValue('53000');
+
+      await (service as any).checkPositionsForStopLossAndTakeProfit();
+
+      expect(databaseService.update).toHaveBeenCalledWith(
+        'positions',
+        { trailingStopWatermark: '53000' },
+        { id: trailingLong.id },
+      );
+      expect(service.closePosition).not.toHaveBeenCalled();
+    });
+
+    it('should not lower the watermark for longs as price falls', async () => {
+      mockTrailingPositions(trailingLong);
+      priceService.getMarkPrice.mockResolvedValue('51500');
+
+      await (service as any).checkPositionsForStopLossAndTakeProfit();
+
+      expect(databaseService.update).not.toHaveBeenCalled();
+      expect(service.closePosition).not.toHaveBeenCalled();
+    });
+
+    it('should close a long when price falls the distance below the watermark', async () => {
+      mockTrailingPositions(trailingLong);
+      priceService.getMarkPrice.mockResolvedValue('51000');
+
+      await (service as any).checkPositionsForStopLossAndTakeProfit();
+
+      expect(service.closePosition).toHaveBeenCalledWith(
+        trailingLong.id,
+        trailingLong.userId,
+        trailingLong.size,
+        '100',
+      );
+    });
+
+    it('should ratchet the watermark down for shorts as price falls', async () => {
+      mockTrailingPositions(trailingShort);
+      priceService.getMarkPrice.mockResolvedValue('47000');
+
+      await (service as any).checkPositionsForStopLossAndTakeProfit();
+
+      expect(databaseService.update).toHaveBeenCalledWith(
+        'positions',
+        { trailingStopWatermark: '47000' },
+        { id: trailingShort.id },
+      );
+      expect(service.closePosition).not.toHaveBeenCalled();
+    });
+
+    it('should close a short when price rises the distance above the watermark', async () => {
+      mockTrailingPositions(trailingShort);
+      priceService.getMarkPrice.mockResolvedValue('49000');
+
+      await (service as any).checkPositionsForStopLossAndTakeProfit();
+
+      expect(service.closePosition).toHaveBeenCalledWith(
+        trailingShort.id,
+        trailingShort.userId,
+        trailingShort.size,
+        '100',
+      );
+    });
+  });
+
   describe('editMargin', () => {
     beforeEach(() => {
       databaseService.select.mockResolvedValue([mockPosition]);
@@ -352,6 +1355,26 @@ describe('TradeService', () => {
         service.editMargin('position-1', 'user-1', '-190'),
       ).rejects.toThrow(BadRequestException);
     });
+
+    it("should cap withdrawals at the max leverage of the position's tier", async () => {
+      // 1000 / 150 = 6.67x, above the 6x allowed past 500
+      marketService.getMarketById.mockResolvedValue({
+        ...mockMarket,
+        riskTiers: [
+          {
+            maxNotional: '500',
+            maxLeverage: '10',
+            maintenanceMarginRate: '0.05',
+          },
+          { maxLeverage: '6', maintenanceMarginRate: '0.1' },
+        ],
+      });
+
+      await expect(
+        service.editMargin('position-1', 'user-1', '-50'),
+      ).rejects.toThrow('Withdrawal would exceed maximum leverage');
+      expect(marginService.releaseMargin).not.toHaveBeenCalled();
+    });
   });
 
   describe('getPosition', () => {
@@ -416,6 +1439,76 @@ describe('TradeService', () => {
     });
   });
 
+  describe('getPositionFunding', () => {
+    beforeEach(() => {
+      cacheService.wrap.mockImplementation(async (key, fn) => fn());
+      databaseService.select.mockResolvedValue([]);
+    });
+
+    it('should return the funding ledger of a position in a time range', async () => {
+      await service.getPositionFunding(
+        'position-1',
+        '2026-01-01T00:00:00Z',
+        '2026-01-02T00:00:00Z',
+      );
+
+      expect(databaseService.select).toHaveBeenCalledWith('funding_payments', {
+        eq: { positionId: 'position-1' },
+        gte: { createdAt: '2026-01-01T00:00:00Z' },
+        lte: { createdAt: '2026-01-02T00:00:00Z' },
+        order: { column: 'createdAt', ascending: false },
+      });
+    });
+
+    it('should return the whole ledger without a time range', async () => {
+      await service.getPositionFunding('position-1');
+
+      expect(databaseService.select).toHaveBeenCalledWith('funding_payments', {
+        eq: { positionId: 'position-1' },
+        order: { column: 'createdAt', ascending: false },
+      });
+    });
+
+    it.each([
+      ['an invalid start time', 'yesterday', undefined],
+      ['a start after the end', '2026-01-02T00:00:00Z', '2026-01-01T00:00:00Z'],
+    ])('should reject %s', async (_, startTime, endTime) => {
+      await expect(
+        service.getPositionFunding('position-1', startTime, endTime),
+      ).rejects.toThrow(BadRequestException);
+      expect(databaseService.select).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getPositionBorrowing', () => {
+    it('should return the borrowing fee ledger of a position in a time range', async () => {
+      cacheService.wrap.mockImplementation(async (key, fn) => fn());
+      databaseService.select.mockResolvedValue([]);
+
+      await service.getPositionBorrowing('position-1', '2026-01-01T00:00:00Z');
+
+      expect(cacheService.wrap).toHaveBeenCalledWith(
+        'borrowing:history:position-1:2026-01-01T00:00:00Z:undefined',
+        expect.any(Function),
+        5 * 60 * 1000,
+      );
+      expect(databaseService.select).toHaveBeenCalledWith(
+        'borrowing_payments',
+        {
+          eq: { positionId: 'position-1' },
+          gte: { createdAt: '2026-01-01T00:00:00Z' },
+          order: { column: 'createdAt', ascending: false },
+        },
+      );
+    });
+
+    it('should reject an invalid end time', async () => {
+      await expect(
+        service.getPositionBorrowing('position-1', undefined, 'tomorrow'),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
   describe('getUserTrades', () => {
     const mockTrades = [
       {
@@ -5,22 +5,71 @@ import {
   BadRequestException,
   InternalServerErrorException,
 } from '@nestjs/common';
-import { Position, PositionStatus } from '../entities/position.entity';
+import {
+  Position,
+  PositionMetrics,
+  PositionStatus,
+  PositionView,
+} from '../entities/position.entity';
 import { Market } from '../entities/market.entity';
+import { MarketRiskParams } from '../types/market.types';
 import { PriceService } from '../price/price.service';
+import { LiquidityService } from '../liquidity/liquidity.service';
 import { CacheService } from '../utils/cache.service';
 import { CACHE_TTL, getCacheKey } from '../constants/cache.constants';
-import { OrderRequest, OrderSide, Trade } from '../types/trade.types';
+import {
+  OrderRequest,
+  OrderSide,
+  Trade,
+  TradeQuote,
+  TradeType,
+} from '../types/trade.types';
 import { Trade as TradeEntity } from '../entities/trade.entity';
+import { FundingPayment } from '../entities/funding.entity';
+import { BorrowingPayment } from '../entities/borrowing.entity';
 import { MarginService } from '../margin/margin.service';
 import { TokenType } from 'src/types/token.types';
 import { EventsService } from '../events/events.service';
 import { TRADING_FEE } from '../common/config';
 import { MarketService } from '../market/market.service';
-import { abs, add, compare, divide, multiply, subtract } from 'src/lib/math';
+import {
+  abs,
+  add,
+  compare,
+  divide,
+  max,
+  min,
+  multiply,
+  subtract,
+} from 'src/lib/math';
 import { DatabaseService } from 'src/database/database.service';
 import { StatsService } from '../stats/stats.service';
 import { calculatePnlUSD } from 'src/lib/calculatePnlUsd';
+import {
+  calculateCollateralValue,
+  calculateLiquidationPrice,
+  calculateMaintenanceRequirement,
+} from 'src/lib/calculateLiquidationPrice';
+import {
+  findRiskTier,
+  getMarketRiskParams,
+  getRiskTiers,
+} from 'src/lib/marketRisk';
+import { calculateAdlQuintiles } from 'src/lib/adl';
+import { isOpeningAllowed, isReducingAllowed } from 'src/lib/marketStatus';
+import {
+  applyPendingFees,
+  calculatePendingFees,
+  getCurrentFeeIndices,
+} from 'src/lib/positionFees';
+import {
+  applyOpenInterestChange,
+  findOpenInterestCapBreach,
+} from 'src/lib/openInterest';
+import { UserService } from '../users/user.service';
+import { PositionFeeService } from './position-fee.service';
+import { PositionMode } from '../entities/user.entity';
+import { validateTimeRange } from 'src/common/validators';
 
 @Injectable()
 export class TradeService {
@@ -34,6 +83,9 @@ export class TradeService {
     private readonly eventsService: EventsService,
     private readonly marketService: MarketService,
     private readonly statsService: StatsService,
+    private readonly userService: UserService,
+    private readonly positionFeeService: PositionFeeService,
+    private readonly liquidityService: LiquidityService,
   ) {
     this.startMonitoring();
   }
@@ -69,10 +121,15 @@ export class TradeService {
         and: [{ status: 'OPEN' }, { takeProfitPrice: { notNull: true } }],
       });
 
+    const positionsWithTrailingStops: Position[] =
+      await this.databaseService.select('positions', {
+        and: [{ status: 'OPEN' }, { trailingStopDistance: { notNull: true } }],
+      });
+
     await Promise.all([
       ...positionsWithStopLosses.map(async (position) => {
         try {
-          const currentPrice = await this.priceService.getCurrentPrice(
+          const currentPrice = await this.priceService.getMarkPrice(
             position.marketId,
           );
 
@@ -92,7 +149,7 @@ export class TradeService {
       }),
       ...positionsWithTakeProfits.map(async (position) => {
         try {
-          const currentPrice = await this.priceService.getCurrentPrice(
+          const currentPrice = await this.priceService.getMarkPrice(
             position.marketId,
           );
 
@@ -110,9 +167,86 @@ export class TradeService {
           console.error(`Error processing position ${position.id}:`, error);
         }
       }),
+      ...positionsWithTrailingStops.map(async (position) => {
+        try {
+          const currentPrice = await this.priceService.getMarkPrice(
+            position.marketId,
+          );
+
+          const watermark = await this.updateTrailingStopWatermark(
+            position,
+            currentPrice,
+          );
+
+          if (
+            this.shouldTriggerTrailingStop(position, watermark, currentPrice)
+          ) {
+            await this.closePosition(
+              position.id,
+              position.userId,
+              position.size,
+              '100', // Set max slippage to 100%
+            );
+          }
+        } catch (error) {
+          console.error(`Error processing position ${position.id}:`, error);
+        }
+      }),
     ]);
   }
 
+  /**
+   * @dev Ratchets the trailing stop watermark in the position's favour.
+   * - Long: tracks the highest price seen since the stop was set
+   * - Short: tracks the lowest price seen since the stop was set
+   * The watermark never moves against the position, so the effective stop only tightens.
+   */
+  private async updateTrailingStopWatermark(
+    position: Position,
+    currentPrice: string,
+  ): Promise<string> {
+    const watermark = position.trailingStopWatermark || position.entryPrice;
+
+    const newWatermark =
+      position.side === OrderSide.LONG
+        ? max(watermark, currentPrice)
+        : min(watermark, currentPrice);
+
+    if (compare(newWatermark, watermark) !== 0) {
+      await this.databaseService.update<Position>(
+        'positions',
+        { trailingStopWatermark: newWatermark },
+        { id: position.id },
+      );
+      await this.invalidatePositionCache(position.id, position.userId);
+    }
+
+    return newWatermark;
+  }
+
+  private getTrailingStopPrice(position: Position, watermark: string): string {
+    return position.side === OrderSide.LONG
+      ? subtract(watermark, position.trailingStopDistance)
+      : add(watermark, position.trailingStopDistance);
+  }
+
+  private shouldTriggerTrailingStop(
+    position: Position,
+    watermark: string,
+    currentPrice: string,
+  ): boolean {
+    if (!position.trailingStopDistance) return false;
+
+    const comparison = compare(
+      currentPrice,
+      this.getTrailingStopPrice(position, watermark),
+    );
+
+    // Long: close when price falls to/below the trailing stop
+    // Short: close when price rises to/above the trailing stop
+    return position.side === OrderSide.LONG ? comparison <= 0 : comparison >= 0;
+  }
+
   private shouldTriggerOrderClose(
     position: Position,
     currentPrice: string,
@@ -137,7 +271,7 @@ export class TradeService {
     }
   }
 
-  private validateOrderPrice(
+  validateOrderPrice(
     side: OrderSide,
     entryPrice: string,
     price: string,
@@ -174,6 +308,129 @@ export class TradeService {
   // ----------------------------------------------------------------
 
   async openPosition(orderRequest: OrderRequest): Promise<boolean> {
+    const position = await this.createPosition(orderRequest);
+    return position.status === PositionStatus.OPEN;
+  }
+
+  /**
+   * @dev Runs the openPosition pricing pipeline for a new position without writing anything.
+   * Funding and borrowing rates are daily, so the hourly cost is 1/24th of the daily charge.
+   */
+  async quotePosition(orderRequest: OrderRequest): Promise<TradeQuote> {
+    try {
+      // 1. Validate basic input parameters
+      if (!orderRequest || !orderRequest.marketId || !orderRequest.side) {
+        throw new BadRequestException('Invalid order request parameters');
+      }
+      if (!orderRequest.size || compare(orderRequest.size, '0') <= 0) {
+        throw new BadRequestException('Size must be greater than 0');
+      }
+
+      // 2. Fetch market
+      const market = await this.marketService.getMarketById(
+        orderRequest.marketId,
+      );
+      if (!market) {
+        throw new NotFoundException('Market not found');
+      }
+
+      // 3. Validate market status, leverage, its tier and open interest caps
+      this.assertOpeningAllowed(market);
+
+      const leverage = parseFloat(orderRequest.leverage);
+
+      if (!leverage || leverage > parseFloat(market.maxLeverage)) {
+        throw new BadRequestException('Invalid Leverage');
+      }
+
+      this.assertWithinRiskTier(
+        market,
+        orderRequest.size,
+        orderRequest.leverage,
+      );
+      await this.assertOpenInterestCaps(
+        market,
+        orderRequest.side,
+        orderRequest.size,
+      );
+
+      // 4. Execution price and impact
+      const { executionPrice, priceImpact } =
+        await this.priceService.previewPrice(
+          market.id,
+          orderRequest.side,
+          orderRequest.size,
+        );
+
+      // 5. Margin and fee in the chosen collateral
+      const requiredMarginUSD =
+        await this.calculateRequiredMargin(orderRequest);
+      const solPrice = await this.priceService.getSolPrice();
+      const isSol = orderRequest.token === TokenType.SOL;
+
+      const fee = this.calculateFee(orderRequest.size, isSol ? solPrice : 1);
+
+      const amountToLock = subtract(
+        isSol ? divide(requiredMarginUSD, solPrice) : requiredMarginUSD,
+        fee,
+      );
+
+      // 6. Liquidation price of the position as it would be opened
+      const liquidationPrice = calculateLiquidationPrice(
+        {
+          side: orderRequest.side,
+          size: orderRequest.size,
+          entryPrice: executionPrice,
+          lockedMarginSOL: isSol ? amountToLock : '0',
+          lockedMarginUSDC: !isSol ? amountToLock : '0',
+          token: orderRequest.token,
+          accumulatedFunding: '0',
+          accumulatedBorrowingFee: '0',
+        },
+        solPrice,
+        getMarketRiskParams(market, orderRequest.size),
+      );
+
+      // 7. Hourly funding and borrowing cost
+      const fundingRate = await this.marketService.getFundingRate(market.id);
+      const hourlyFundingFee = divide(
+        multiply(orderRequest.size, fundingRate),
+        '24',
+      );
+      const hourlyBorrowingFee = divide(
+        multiply(orderRequest.size, market.borrowingRate || '0'),
+        '24',
+      );
+
+      return {
+        executionPrice,
+        priceImpact,
+        requiredMargin: requiredMarginUSD,
+        fee,
+        liquidationPrice,
+        // Longs pay positive funding, shorts receive it
+        hourlyFundingFee:
+          orderRequest.side === OrderSide.LONG
+            ? hourlyFundingFee
+            : multiply(hourlyFundingFee, '-1'),
+        hourlyBorrowingFee,
+      };
+    } catch (error) {
+      if (
+        error instanceof BadRequestException ||
+        error instanceof NotFoundException
+      ) {
+        throw error;
+      }
+      throw new InternalServerErrorException('Failed to quote position');
+    }
+  }
+
+  /**
+   * @dev Opens a position and returns it, for callers that need to track the
+   * created position (e.g. bracket orders attaching their take-profit / stop-loss legs).
+   */
+  async createPosition(orderRequest: OrderRequest): Promise<Position> {
     try {
       // PART 1: Validations and Data Gathering
       // -------------------------------------
@@ -185,6 +442,14 @@ export class TradeService {
       if (orderRequest.size === '0') {
         throw new BadRequestException('Size must be greater than 0');
       }
+      if (
+        orderRequest.trailingStopDistance &&
+        compare(orderRequest.trailingStopDistance, '0') <= 0
+      ) {
+        throw new BadRequestException(
+          'Trailing stop distance must be greater than 0',
+        );
+      }
 
       // 2. Fetch market
       let market: Market;
@@ -199,27 +464,69 @@ export class TradeService {
         throw new NotFoundException('Market not found');
       }
 
-      // 3. Validate leverage and liquidity
+      // 3. Validate leverage
       const leverage = parseFloat(orderRequest.leverage);
 
       if (leverage === 0 || leverage > parseFloat(market.maxLeverage)) {
         throw new BadRequestException('Invalid Leverage');
       }
 
-      const currentOpenInterest =
-        Number(market.longOpenInterest) + Number(market.shortOpenInterest);
+      // 4. Resolve the position to add to (explicit positionId, netting or one-way mode)
+      const positionMode = await this.userService.getPositionMode(
+        orderRequest.userId,
+      );
+      const existingPosition = await this.findPositionToIncrease(
+        orderRequest,
+        positionMode,
+      );
+
+      // One-way mode: an order against an open position on the other side nets / flips it
+      if (!existingPosition && positionMode === PositionMode.ONE_WAY) {
+        const opposingPosition = await this.findOpenPosition(
+          orderRequest.userId,
+          orderRequest.marketId,
+          orderRequest.side === OrderSide.LONG
+            ? OrderSide.SHORT
+            : OrderSide.LONG,
+        );
+
+        if (opposingPosition) {
+          return await this.netAgainstPosition(
+            orderRequest,
+            market,
+            opposingPosition,
+          );
+        }
+      }
+
+      // 5. Validate market status, open interest caps and the leverage tier
+      this.assertOpeningAllowed(market);
+      await this.assertOpenInterestCaps(
+        market,
+        orderRequest.side,
+        orderRequest.size,
+      );
 
-      if (
-        Number(orderRequest.size) + currentOpenInterest >
-        Number(market.availableLiquidity)
-      ) {
-        throw new BadRequestException('Insufficient liquidity');
+      // Adding to a position re-tiers the whole position at its blended leverage
+      if (existingPosition) {
+        const newSize = add(existingPosition.size, orderRequest.size);
+        const newMargin = add(
+          existingPosition.margin,
+          divide(orderRequest.size, orderRequest.leverage),
+        );
+        this.assertWithinRiskTier(market, newSize, divide(newSize, newMargin));
+      } else {
+        this.assertWithinRiskTier(
+          market,
+          orderRequest.size,
+          orderRequest.leverage,
+        );
       }
 
       // PART 2: Calculations and Price Checks
       // -------------------------------------
 
-      // 4. Calculate entry price using virtual AMM and check slippage
+      // 6. Calculate entry price using virtual AMM and check slippage
       const { executionPrice, priceImpact } =
         await this.priceService.previewPrice(
           market.id,
@@ -233,85 +540,153 @@ export class TradeService {
         throw new BadRequestException('Slippage exceeds maximum allowed');
       }
 
-      // 5. Calculate required margin and validate user's balance
-      const requiredMarginUSD =
-        await this.calculateRequiredMargin(orderRequest);
-      const marginBalance = await this.marginService.getBalance(
-        orderRequest.userId,
-        orderRequest.token,
+      // PART 3: Database Updates (all or nothing)
+      // -------------------------------------
+
+      // 1. Settle margin, fees and the position at the execution price
+      const position = await this.settleOpen(
+        orderRequest,
+        market,
+        executionPrice,
+        existingPosition,
       );
-      const solPrice = await this.priceService.getSolPrice();
 
-      // 6. Convert and validate available balance
-      let availableMarginUSD = marginBalance.availableBalance;
-      const isSol = orderRequest.token === TokenType.SOL;
-      if (isSol) {
-        availableMarginUSD = multiply(availableMarginUSD, solPrice);
-      }
+      // 2. Update virtual AMM state
+      await this.marketService.updateVirtualReserves(
+        market.id,
+        orderRequest.side,
+        orderRequest.size,
+      );
 
-      if (compare(availableMarginUSD, requiredMarginUSD) < 0) {
-        throw new Error('Insufficient margin');
-      }
+      // PART 4: Non-critical updates
+      // -------------------------------------
+
+      // Emit position update event (non-critical)
+      this.eventsService.emitPositionsUpdate(orderRequest.userId);
 
-      // 7. Calculate amount to lock
-      let amountToLock = requiredMarginUSD;
-      if (isSol) {
-        amountToLock = divide(requiredMarginUSD, solPrice);
+      return position;
+    } catch (error) {
+      if (
+        error instanceof BadRequestException ||
+        error instanceof InternalServerErrorException ||
+        error instanceof NotFoundException ||
+        error instanceof UnauthorizedException
+      ) {
+        throw error;
       }
+      throw new InternalServerErrorException('Failed to open position');
+    }
+  }
 
-      // 8. Calculate fees for opening position
-      const fee = this.calculateFee(orderRequest.size, isSol ? solPrice : 1);
+  /**
+   * @dev Validates the user's balance, charges the opening fee, locks margin and
+   * creates (or adds to) the position at `executionPrice`. Callers are responsible
+   * for pricing the order and moving the vAMM reserves.
+   */
+  private async settleOpen(
+    orderRequest: OrderRequest,
+    market: Market,
+    executionPrice: string,
+    existingPosition?: Position,
+  ): Promise<Position> {
+    // Calculations
+    // -------------------------------------
+
+    // 1. Calculate required margin and validate user's balance
+    const requiredMarginUSD = await this.calculateRequiredMargin(orderRequest);
+    const marginBalance = await this.marginService.getBalance(
+      orderRequest.userId,
+      orderRequest.token,
+    );
+    const solPrice = await this.priceService.getSolPrice();
+
+    // 2. Convert and validate available balance
+    let availableMarginUSD = marginBalance.availableBalance;
+    const isSol = orderRequest.token === TokenType.SOL;
+    if (isSol) {
+      availableMarginUSD = multiply(availableMarginUSD, solPrice);
+    }
 
-      // 9. Subtract fee from amount to lock
-      amountToLock = subtract(amountToLock, fee);
+    if (compare(availableMarginUSD, requiredMarginUSD) < 0) {
+      throw new Error('Insufficient margin');
+    }
 
-      // PART 3: Database Updates (all or nothing)
-      // -------------------------------------
+    // 3. Calculate amount to lock
+    let amountToLock = requiredMarginUSD;
+    if (isSol) {
+      amountToLock = divide(requiredMarginUSD, solPrice);
+    }
 
-      const positionId = crypto.randomUUID();
+    // 4. Calculate fees for opening position
+    const fee = this.calculateFee(orderRequest.size, isSol ? solPrice : 1);
 
-      // 1. Subtract fee from the user's margin balance
-      await this.marginService.deductMargin(
-        orderRequest.userId,
-        orderRequest.token,
-        fee,
+    // 5. Subtract fee from amount to lock
+    amountToLock = subtract(amountToLock, fee);
+
+    // Database Updates (all or nothing)
+    // -------------------------------------
+
+    const positionId = existingPosition?.id ?? crypto.randomUUID();
+
+    // Fees accrue on size, so settle them at the old size before adding to it
+    if (existingPosition) {
+      existingPosition = await this.positionFeeService.settlePosition(
+        existingPosition,
+        market,
       );
+    }
 
-      // 2. Increase the accumulated fees in storage
-      await this.marketService.addTradingFees(
-        market.id,
-        fee,
+    // 1. Subtract fee from the user's margin balance
+    await this.marginService.deductMargin(
+      orderRequest.userId,
+      orderRequest.token,
+      fee,
+    );
+
+    // 2. Increase the accumulated fees in storage
+    await this.marketService.addTradingFees(market.id, fee, orderRequest.token);
+
+    // 3. Lock margin
+    if (existingPosition) {
+      await this.increaseLockedMargin(
+        existingPosition,
         orderRequest.token,
+        amountToLock,
       );
-
-      // 3. Lock margin
+    } else {
       await this.marginService.lockMargin(
         orderRequest.userId,
         orderRequest.token,
         amountToLock,
         positionId,
       );
+    }
 
-      // 4. Update virtual AMM state and market's open interest
-      await this.marketService.updateVirtualReserves(
-        market.id,
-        orderRequest.side,
-        orderRequest.size,
+    // 4. Update market's open interest
+    await this.marketService.updateMarket(market.id, {
+      longOpenInterest:
+        orderRequest.side === OrderSide.LONG
+          ? add(market.longOpenInterest, orderRequest.size)
+          : market.longOpenInterest,
+      shortOpenInterest:
+        orderRequest.side === OrderSide.SHORT
+          ? add(market.shortOpenInterest, orderRequest.size)
+          : market.shortOpenInterest,
+    });
+
+    // 5. Create position, or add to the existing one
+    let position: Position;
+    if (existingPosition) {
+      position = await this.increasePosition(
+        existingPosition,
+        orderRequest,
+        executionPrice,
+        requiredMarginUSD,
+        amountToLock,
+        fee,
       );
-
-      await this.marketService.updateMarket(market.id, {
-        longOpenInterest:
-          orderRequest.side === OrderSide.LONG
-            ? add(market.longOpenInterest, orderRequest.size)
-            : market.longOpenInterest,
-        shortOpenInterest:
-          orderRequest.side === OrderSide.SHORT
-            ? add(market.shortOpenInterest, orderRequest.size)
-            : market.shortOpenInterest,
-      });
-
-      // 5. Create position
-      const [position] = await this.databaseService.insert('positions', {
+    } else {
+      [position] = await this.databaseService.insert<Position>('positions', {
         id: positionId,
         userId: orderRequest.userId,
         marketId: orderRequest.marketId,
@@ -322,30 +697,295 @@ export class TradeService {
         leverage: orderRequest.leverage,
         stopLossPrice: orderRequest.stopLossPrice,
         takeProfitPrice: orderRequest.takeProfitPrice,
+        trailingStopDistance: orderRequest.trailingStopDistance,
+        trailingStopWatermark: orderRequest.trailingStopDistance
+          ? executionPrice
+          : undefined,
         margin: requiredMarginUSD,
         token: orderRequest.token,
         lockedMarginSOL: isSol ? amountToLock : '0',
         lockedMarginUSDC: !isSol ? amountToLock : '0',
         status: PositionStatus.OPEN,
+        ...getCurrentFeeIndices(market, Date.now()),
       });
+    }
 
-      // PART 4: Non-critical updates
-      // -------------------------------------
+    return position;
+  }
 
-      // Emit position update event (non-critical)
-      this.eventsService.emitPositionsUpdate(orderRequest.userId);
+  /**
+   * @dev One-way mode: fills an order against the user's open position on the other side.
+   * The opposing position is closed (in full or in part) through the closePosition math and
+   * any residual size opens a new position on the order's side. Both legs execute at a single
+   * vAMM price for the whole order size, so the order pays one price impact.
+   */
+  private async netAgainstPosition(
+    orderRequest: OrderRequest,
+    market: Market,
+    opposingPosition: Position,
+  ): Promise<Position> {
+    const closeSize = min(orderRequest.size, opposingPosition.size);
+    const residualSize = subtract(orderRequest.size, closeSize);
+    const hasResidual = compare(residualSize, '0') > 0;
+
+    // A pure reduction is allowed wherever closes are, a flip opens a new position
+    if (hasResidual) {
+      this.assertOpeningAllowed(market);
+    } else {
+      this.assertReducingAllowed(market);
+    }
+
+    // Only the residual adds open interest, the closed size frees it
+    if (hasResidual) {
+      this.assertWithinRiskTier(market, residualSize, orderRequest.leverage);
+      await this.assertOpenInterestCaps(
+        market,
+        orderRequest.side,
+        residualSize,
+        closeSize,
+      );
+    }
+
+    // Opening on the order's side moves the vAMM the same way as closing the opposing side
+    const { executionPrice, priceImpact } =
+      await this.priceService.previewPrice(
+        market.id,
+        orderRequest.side,
+        orderRequest.size,
+      );
+
+    if (compare(abs(priceImpact), orderRequest.maxSlippage) > 0) {
+      throw new BadRequestException('Slippage exceeds maximum allowed');
+    }
+
+    // Check the residual's margin upfront so the close doesn't go through on its own
+    if (hasResidual) {
+      const requiredMarginUSD = await this.calculateRequiredMargin({
+        ...orderRequest,
+        size: residualSize,
+      });
+      const marginBalance = await this.marginService.getBalance(
+        orderRequest.userId,
+        orderRequest.token,
+      );
+      const availableMarginUSD =
+        orderRequest.token === TokenType.SOL
+          ? multiply(
+              marginBalance.availableBalance,
+              await this.priceService.getSolPrice(),
+            )
+          : marginBalance.availableBalance;
+
+      if (compare(availableMarginUSD, requiredMarginUSD) < 0) {
+        throw new BadRequestException('Insufficient margin');
+      }
+    }
+
+    // 1. Close the opposing position
+    let position = await this.settleClose(
+      opposingPosition,
+      closeSize,
+      executionPrice,
+      market,
+    );
+
+    // 2. Open the residual on the order's side at the same price
+    if (hasResidual) {
+      const updatedMarket = await this.marketService.getMarketById(market.id);
+      position = await this.settleOpen(
+        { ...orderRequest, size: residualSize },
+        updatedMarket,
+        executionPrice,
+      );
+    }
+
+    // 3. Move the vAMM once for the whole order
+    await this.marketService.updateVirtualReserves(
+      market.id,
+      orderRequest.side,
+      orderRequest.size,
+    );
+
+    this.eventsService.emitPositionsUpdate(orderRequest.userId);
+
+    return position;
+  }
+
+  /**
+   * @dev An order adds to an existing position when it names one via positionId,
+   * or when the user is in NETTING / ONE_WAY mode and already holds an open position
+   * on the same market and side.
+   */
+  private async findPositionToIncrease(
+    orderRequest: OrderRequest,
+    positionMode: PositionMode,
+  ): Promise<Position | undefined> {
+    if (orderRequest.positionId) {
+      const position = await this.getPosition(orderRequest.positionId);
+
+      if (!position) {
+        throw new NotFoundException(
+          `Position ${orderRequest.positionId} not found`,
+        );
+      }
+
+      if (position.userId !== orderRequest.userId) {
+        throw new UnauthorizedException(
+          'Not authorized to modify this position',
+        );
+      }
+
+      if (position.status !== PositionStatus.OPEN) {
+        throw new BadRequestException('Cannot add to a closed position');
+      }
 
-      return position.status === PositionStatus.OPEN;
-    } catch (error) {
       if (
-        error instanceof BadRequestException ||
-        error instanceof InternalServerErrorException ||
-        error instanceof NotFoundException
+        position.marketId !== orderRequest.marketId ||
+        position.side !== orderRequest.side ||
+        position.token !== orderRequest.token
       ) {
-        throw error;
+        throw new BadRequestException(
+          'Order market, side and token must match the position',
+        );
       }
-      throw new InternalServerErrorException('Failed to open position');
+
+      return position;
+    }
+
+    if (positionMode === PositionMode.HEDGE) {
+      return undefined;
+    }
+
+    const position = await this.findOpenPosition(
+      orderRequest.userId,
+      orderRequest.marketId,
+      orderRequest.side,
+    );
+
+    // One-way mode keeps a single position per side, its margin stays in one token
+    if (position && position.token !== orderRequest.token) {
+      throw new BadRequestException(
+        `Open ${position.side} position is margined in ${position.token}`,
+      );
+    }
+
+    return position;
+  }
+
+  private async findOpenPosition(
+    userId: string,
+    marketId: string,
+    side: OrderSide,
+  ): Promise<Position | undefined> {
+    const [position] = await this.databaseService.select<Position>(
+      'positions',
+      {
+        eq: { userId, marketId, side, status: PositionStatus.OPEN },
+        order: { column: 'createdAt', ascending: true },
+        limit: 1,
+      },
+    );
+
+    return position;
+  }
+
+  /**
+   * @dev Keeps a single margin lock per position and token by re-locking
+   * the existing amount together with the added margin.
+   */
+  private async increaseLockedMargin(
+    position: Position,
+    token: TokenType,
+    amount: string,
+  ): Promise<void> {
+    const lockedMargin =
+      token === TokenType.SOL
+        ? position.lockedMarginSOL
+        : position.lockedMarginUSDC;
+
+    if (compare(lockedMargin, '0') > 0) {
+      await this.marginService.releaseMargin(
+        position.userId,
+        token,
+        position.id,
+      );
     }
+
+    await this.marginService.lockMargin(
+      position.userId,
+      token,
+      add(lockedMargin, amount),
+      position.id,
+    );
+  }
+
+  /**
+   * @dev Adds an order to an open position:
+   * - entryPrice: size-weighted harmonic average of both entries, so the PnL of the
+   *   combined position equals the PnL of its parts at any price
+   * - margin / locked margin: increased by the order's margin
+   * - leverage: recomputed from the combined size and margin
+   */
+  private async increasePosition(
+    position: Position,
+    orderRequest: OrderRequest,
+    executionPrice: string,
+    marginUSD: string,
+    amountToLock: string,
+    fee: string,
+  ): Promise<Position> {
+    const newSize = add(position.size, orderRequest.size);
+    const newEntryPrice = divide(
+      newSize,
+      add(
+        divide(position.size, position.entryPrice),
+        divide(orderRequest.size, executionPrice),
+      ),
+    );
+    const newMargin = add(position.margin, marginUSD);
+    const isSol = orderRequest.token === TokenType.SOL;
+
+    const [updatedPosition] = await this.databaseService.update<Position>(
+      'positions',
+      {
+        size: newSize,
+        entryPrice: newEntryPrice,
+        margin: newMargin,
+        leverage: divide(newSize, newMargin),
+        lockedMarginSOL: isSol
+          ? add(position.lockedMarginSOL, amountToLock)
+          : position.lockedMarginSOL,
+        lockedMarginUSDC: !isSol
+          ? add(position.lockedMarginUSDC, amountToLock)
+          : position.lockedMarginUSDC,
+        ...(orderRequest.stopLossPrice && {
+          stopLossPrice: orderRequest.stopLossPrice,
+        }),
+        ...(orderRequest.takeProfitPrice && {
+          takeProfitPrice: orderRequest.takeProfitPrice,
+        }),
+        ...(orderRequest.trailingStopDistance && {
+          trailingStopDistance: orderRequest.trailingStopDistance,
+          trailingStopWatermark: executionPrice,
+        }),
+      },
+      { id: position.id },
+    );
+
+    await this.recordTrade({
+      id: crypto.randomUUID(),
+      positionId: position.id,
+      userId: position.userId,
+      marketId: position.marketId,
+      side: position.side,
+      size: orderRequest.size,
+      price: executionPrice,
+      leverage: orderRequest.leverage,
+      fee,
+      createdAt: new Date(),
+    });
+
+    return updatedPosition;
   }
 
   async closePosition(
@@ -383,13 +1023,11 @@ export class TradeService {
           'Close size must be less than or equal to position size',
         );
       }
-      const isPartialClose = closeSizeComparison < 0;
-      const isFullClose = closeSizeComparison === 0;
 
       // PART 2: Calculations
       // -------------------------------------
 
-      // 5. Calculate all necessary values
+      // 5. Calculate execution price and check slippage
       const { executionPrice, priceImpact } =
         await this.priceService.previewPrice(
           position.marketId,
@@ -403,213 +1041,405 @@ export class TradeService {
         throw new BadRequestException('Slippage exceeds maximum allowed');
       }
 
-      const remainingSize = subtract(position.size, sizeDelta);
-
-      const realizedPnlUSD = calculatePnlUSD(position, executionPrice);
+      // 6. Get the market
+      const market = await this.marketService.getMarketById(position.marketId);
+      if (!market) {
+        throw new NotFoundException(`Market ${position.marketId} not found`);
+      }
+      this.assertReducingAllowed(market);
 
-      const solPrice = await this.priceService.getSolPrice();
+      // PART 3: Database Updates (all or nothing)
+      // -------------------------------------
 
-      const closeProportion = divide(sizeDelta, position.size);
+      // 1. Settle margin, fees and the position at the execution price
+      await this.settleClose(position, sizeDelta, executionPrice, market);
 
-      const fee = this.calculateFee(
+      // 2. Update virtual AMM reserves
+      await this.marketService.updateVirtualReserves(
+        market.id,
+        position.side,
         sizeDelta,
-        position.token === TokenType.SOL ? solPrice : 1,
+        true,
       );
 
-      const solMarginToRelease = multiply(
-        position.lockedMarginSOL,
-        closeProportion,
+      // PART 4: Non-critical updates
+      // -------------------------------------
+
+      // Emit position update event (non-critical)
+      try {
+        this.eventsService.emitPositionsUpdate(position.userId);
+      } catch (error) {
+        console.error('Failed to emit position update:', error);
+      }
+
+      return position;
+    } catch (error) {
+      console.error('Error in closePosition:', error);
+      if (
+        error instanceof BadRequestException ||
+        error instanceof NotFoundException ||
+        error instanceof UnauthorizedException ||
+        error instanceof InternalServerErrorException
+      ) {
+        throw error;
+      }
+      throw new InternalServerErrorException(
+        `Failed to close position: ${error.message}`,
       );
+    }
+  }
 
-      const usdcMarginToRelease = multiply(
-        position.lockedMarginUSDC,
-        closeProportion,
+  /**
+   * @dev Closes a market and settles every open position in it at `settlementPrice`,
+   * without trading fees or vAMM moves. Resting limit orders are cancelled by
+   * LimitOrderService once it sees the market CLOSED.
+   * @returns The settled positions
+   */
+  async settleMarket(
+    marketId: string,
+    settlementPrice: string,
+  ): Promise<Position[]> {
+    if (!settlementPrice || compare(settlementPrice, '0') <= 0) {
+      throw new BadRequestException('Settlement price must be greater than 0');
+    }
+
+    // Close first so nothing opens or fills while positions are settled
+    await this.marketService.closeMarket(marketId, settlementPrice);
+
+    const positions = await this.databaseService.select<Position>('positions', {
+      eq: { marketId, status: PositionStatus.OPEN },
+    });
+
+    const settledPositions: Position[] = [];
+
+    for (const position of positions) {
+      try {
+        // Refetch so each settlement sees the open interest left by the previous one
+        const market = await this.marketService.getMarketById(marketId);
+
+        settledPositions.push(
+          await this.settleClose(
+            position,
+            position.size,
+            settlementPrice,
+            market,
+            { tradeType: TradeType.SETTLEMENT, chargeFee: false },
+          ),
+        );
+
+        this.eventsService.emitPositionsUpdate(position.userId);
+      } catch (error) {
+        console.error(`Failed to settle position ${position.id}:`, error);
+      }
+    }
+
+    return settledPositions;
+  }
+
+  private assertOpeningAllowed(market: Market): void {
+    if (!isOpeningAllowed(market.status)) {
+      throw new BadRequestException(
+        `Market ${market.symbol} is ${market.status}, new positions are not allowed`,
+      );
+    }
+  }
+
+  private assertReducingAllowed(market: Market): void {
+    if (!isReducingAllowed(market.status)) {
+      throw new BadRequestException(`Market ${market.symbol} is closed`);
+    }
+  }
+
+  /**
+   * @dev Max leverage shrinks as a position grows, positions past the last
+   * bounded tier can't be opened at all.
+   */
+  private assertWithinRiskTier(
+    market: Market,
+    notional: string,
+    leverage: string,
+  ): void {
+    const tier = findRiskTier(market, notional);
+
+    if (!tier) {
+      const tiers = getRiskTiers(market);
+      throw new BadRequestException(
+        `Position size exceeds the market's largest risk tier of ${tiers[tiers.length - 1].maxNotional}`,
+      );
+    }
+
+    if (compare(leverage, tier.maxLeverage) > 0) {
+      throw new BadRequestException(
+        `Max leverage for a ${notional} position is ${tier.maxLeverage}x`,
       );
+    }
+  }
+
+  /**
+   * @dev Rejects trades that take the market past its per-side or skew caps,
+   * or the pool past the open interest it can back across all markets.
+   * `closeSize` is the part of the order that closes an opposing position
+   * first and frees open interest.
+   */
+  private async assertOpenInterestCaps(
+    market: Market,
+    side: OrderSide,
+    openSize: string,
+    closeSize = '0',
+  ): Promise<void> {
+    const openInterestAfter = applyOpenInterestChange(
+      market,
+      side,
+      openSize,
+      closeSize,
+    );
+    const breach = findOpenInterestCapBreach(
+      market,
+      await this.liquidityService.getOpenInterestCapacity(),
+      openInterestAfter.long,
+      openInterestAfter.short,
+    );
+
+    if (breach) {
+      throw new BadRequestException(breach);
+    }
+  }
+
+  /**
+   * @dev Force-reduces a profitable position at the bankruptcy price of a liquidated
+   * counterparty. Settles like a close, without a trading fee and without touching the
+   * vAMM, since the two positions are matched against each other.
+   */
+  async deleveragePosition(
+    positionId: string,
+    sizeDelta: string,
+    bankruptcyPrice: string,
+  ): Promise<Position> {
+    const position = await this.getPosition(positionId);
+    if (!position || position.status !== PositionStatus.OPEN) {
+      throw new NotFoundException(`Open position ${positionId} not found`);
+    }
+
+    if (compare(sizeDelta, position.size) > 0) {
+      throw new BadRequestException(
+        'Deleverage size must be less than or equal to position size',
+      );
+    }
+
+    const market = await this.marketService.getMarketById(position.marketId);
+
+    const updatedPosition = await this.settleClose(
+      position,
+      sizeDelta,
+      bankruptcyPrice,
+      market,
+      { tradeType: TradeType.ADL, chargeFee: false },
+    );
+
+    this.eventsService.emitPositionsUpdate(position.userId);
+
+    return updatedPosition;
+  }
+
+  /**
+   * @dev Realizes PnL, settles margin and fees and updates the position and open interest
+   * for closing `sizeDelta` of a position at `executionPrice`. Callers are responsible for
+   * pricing the close and moving the vAMM reserves.
+   */
+  private async settleClose(
+    position: Position,
+    sizeDelta: string,
+    executionPrice: string,
+    market: Market,
+    options: { tradeType?: TradeType; chargeFee?: boolean } = {},
+  ): Promise<Position> {
+    const { tradeType, chargeFee = true } = options;
+
+    // Fees accrue on size, so settle them at the old size before reducing it
+    position = await this.positionFeeService.settlePosition(position, market);
 
-      const totalLockedUSD = add(
-        multiply(solMarginToRelease, solPrice),
-        usdcMarginToRelease,
-      );
+    const closeSizeComparison = compare(sizeDelta, position.size);
+    const isPartialClose = closeSizeComparison < 0;
+    const isFullClose = closeSizeComparison === 0;
 
-      // Calculate PnL distribution
-      const solShare = divide(
-        multiply(solMarginToRelease, solPrice),
-        totalLockedUSD,
-      );
-      const solPnL = divide(multiply(realizedPnlUSD, solShare), solPrice);
-      const usdcShare = divide(usdcMarginToRelease, totalLockedUSD);
-      const usdcPnL = multiply(realizedPnlUSD, usdcShare);
-
-      // Prepare the trade record
-      const tradeRecord: Trade = {
-        id: crypto.randomUUID(),
-        positionId: position.id,
-        userId: position.userId,
-        marketId: position.marketId,
-        side:
-          position.side === OrderSide.LONG ? OrderSide.SHORT : OrderSide.LONG,
-        size: sizeDelta,
-        price: executionPrice,
-        leverage: position.leverage,
-        realizedPnl: realizedPnlUSD,
-        fee: fee,
-        createdAt: new Date(),
-      };
+    const remainingSize = subtract(position.size, sizeDelta);
 
-      // 6. Get the market
-      const market = await this.marketService.getMarketById(position.marketId);
-      if (!market) {
-        throw new NotFoundException(`Market ${position.marketId} not found`);
-      }
+    const realizedPnlUSD = calculatePnlUSD(
+      { ...position, size: sizeDelta },
+      executionPrice,
+    );
 
-      // PART 3: Database Updates (all or nothing)
-      // -------------------------------------
+    const solPrice = await this.priceService.getSolPrice();
 
-      // 1. Handle margin releases and re-locks
-      if (compare(solMarginToRelease, '0') > 0) {
-        if (isPartialClose) {
-          const remainingSolMargin = subtract(
-            position.lockedMarginSOL,
-            solMarginToRelease,
-          );
-          await this.marginService.releaseMargin(
-            position.userId,
-            TokenType.SOL,
-            position.id,
-            position.lockedMarginSOL,
-          );
-          if (compare(remainingSolMargin, '0') > 0) {
-            await this.marginService.lockMargin(
-              position.userId,
-              TokenType.SOL,
-              remainingSolMargin,
-              position.id,
-            );
-          }
-        } else {
-          await this.marginService.releaseMargin(
+    const closeProportion = divide(sizeDelta, position.size);
+
+    const fee = chargeFee
+      ? this.calculateFee(
+          sizeDelta,
+          position.token === TokenType.SOL ? solPrice : 1,
+        )
+      : '0';
+
+    const solMarginToRelease = multiply(
+      position.lockedMarginSOL,
+      closeProportion,
+    );
+
+    const usdcMarginToRelease = multiply(
+      position.lockedMarginUSDC,
+      closeProportion,
+    );
+
+    const totalLockedUSD = add(
+      multiply(solMarginToRelease, solPrice),
+      usdcMarginToRelease,
+    );
+
+    // Calculate PnL distribution
+    const solShare = divide(
+      multiply(solMarginToRelease, solPrice),
+      totalLockedUSD,
+    );
+    const solPnL = divide(multiply(realizedPnlUSD, solShare), solPrice);
+    const usdcShare = divide(usdcMarginToRelease, totalLockedUSD);
+    const usdcPnL = multiply(realizedPnlUSD, usdcShare);
+
+    // Prepare the trade record
+    const tradeRecord: Trade = {
+      id: crypto.randomUUID(),
+      positionId: position.id,
+      userId: position.userId,
+      marketId: position.marketId,
+      side: position.side === OrderSide.LONG ? OrderSide.SHORT : OrderSide.LONG,
+      size: sizeDelta,
+      price: executionPrice,
+      leverage: position.leverage,
+      realizedPnl: realizedPnlUSD,
+      fee: fee,
+      type: tradeType,
+      createdAt: new Date(),
+    };
+
+    // 1. Handle margin releases and re-locks
+    if (compare(solMarginToRelease, '0') > 0) {
+      if (isPartialClose) {
+        const remainingSolMargin = subtract(
+          position.lockedMarginSOL,
+          solMarginToRelease,
+        );
+        // Releases the whole lock with the closed share's PnL, the rest is locked again
+        await this.marginService.releaseMargin(
+          position.userId,
+          TokenType.SOL,
+          position.id,
+          solPnL,
+        );
+        if (compare(remainingSolMargin, '0') > 0) {
+          await this.marginService.lockMargin(
             position.userId,
             TokenType.SOL,
+            remainingSolMargin,
             position.id,
-            solPnL,
           );
         }
+      } else {
+        await this.marginService.releaseMargin(
+          position.userId,
+          TokenType.SOL,
+          position.id,
+          solPnL,
+        );
       }
+    }
 
-      if (compare(usdcMarginToRelease, '0') > 0) {
-        if (isPartialClose) {
-          const remainingUsdcMargin = subtract(
-            position.lockedMarginUSDC,
-            usdcMarginToRelease,
-          );
-          await this.marginService.releaseMargin(
-            position.userId,
-            TokenType.USDC,
-            position.id,
-            position.lockedMarginUSDC,
-          );
-          if (compare(remainingUsdcMargin, '0') > 0) {
-            await this.marginService.lockMargin(
-              position.userId,
-              TokenType.USDC,
-              remainingUsdcMargin,
-              position.id,
-            );
-          }
-        } else {
-          await this.marginService.releaseMargin(
+    if (compare(usdcMarginToRelease, '0') > 0) {
+      if (isPartialClose) {
+        const remainingUsdcMargin = subtract(
+          position.lockedMarginUSDC,
+          usdcMarginToRelease,
+        );
+        // Releases the whole lock with the closed share's PnL, the rest is locked again
+        await this.marginService.releaseMargin(
+          position.userId,
+          TokenType.USDC,
+          position.id,
+          usdcPnL,
+        );
+        if (compare(remainingUsdcMargin, '0') > 0) {
+          await this.marginService.lockMargin(
             position.userId,
             TokenType.USDC,
+            remainingUsdcMargin,
             position.id,
-            usdcPnL,
           );
         }
+      } else {
+        await this.marginService.releaseMargin(
+          position.userId,
+          TokenType.USDC,
+          position.id,
+          usdcPnL,
+        );
       }
+    }
 
-      // 2. Deduct fee from user's margin balance
+    // The pool is the trader's counterparty, it pays their gain or takes their loss
+    await this.liquidityService.settleTraderPnl(realizedPnlUSD);
+
+    // 2. Deduct fee from user's margin balance
+    if (chargeFee) {
       await this.marginService.deductMargin(
         position.userId,
         position.token,
         fee,
       );
-
-      // 3. Update position
-      const [updatedPosition] = await this.databaseService.update(
-        'positions',
-        isFullClose
-          ? {
-              ...position,
-              status: PositionStatus.CLOSED,
-              closedAt: new Date(),
-              closingPrice: executionPrice,
-              realizedPnl: realizedPnlUSD,
-            }
-          : {
-              ...position,
-              size: remainingSize,
-              lockedMarginSOL: subtract(
-                position.lockedMarginSOL,
-                solMarginToRelease,
-              ),
-              lockedMarginUSDC: subtract(
-                position.lockedMarginUSDC,
-                usdcMarginToRelease,
-              ),
-              margin: subtract(
-                position.margin,
-                multiply(position.margin, closeProportion),
-              ),
-            },
-        { id: position.id },
-      );
-
-      await this.marketService.updateMarket(market.id, {
-        longOpenInterest:
-          position.side === OrderSide.LONG
-            ? subtract(market.longOpenInterest, sizeDelta)
-            : market.longOpenInterest,
-        shortOpenInterest:
-          position.side === OrderSide.SHORT
-            ? subtract(market.shortOpenInterest, sizeDelta)
-            : market.shortOpenInterest,
-      });
-
-      // Update virtual AMM reserves
-      await this.marketService.updateVirtualReserves(
-        market.id,
-        position.side,
-        sizeDelta,
-        true,
-      );
-
-      // 3. Record the trade
-      await this.recordTrade(tradeRecord);
-
-      // PART 4: Non-critical updates
-      // -------------------------------------
-
-      // Emit position update event (non-critical)
-      try {
-        this.eventsService.emitPositionsUpdate(position.userId);
-      } catch (error) {
-        console.error('Failed to emit position update:', error);
-      }
-
-      return position;
-    } catch (error) {
-      console.error('Error in closePosition:', error);
-      if (
-        error instanceof BadRequestException ||
-        error instanceof NotFoundException ||
-        error instanceof UnauthorizedException ||
-        error instanceof InternalServerErrorException
-      ) {
-        throw error;
-      }
-      throw new InternalServerErrorException(
-        `Failed to close position: ${error.message}`,
-      );
     }
+
+    // 3. Update position
+    const [updatedPosition] = await this.databaseService.update<Position>(
+      'positions',
+      isFullClose
+        ? {
+            ...position,
+            status: PositionStatus.CLOSED,
+            closedAt: new Date(),
+            closingPrice: executionPrice,
+            realizedPnl: realizedPnlUSD,
+          }
+        : {
+            ...position,
+            size: remainingSize,
+            lockedMarginSOL: subtract(
+              position.lockedMarginSOL,
+              solMarginToRelease,
+            ),
+            lockedMarginUSDC: subtract(
+              position.lockedMarginUSDC,
+              usdcMarginToRelease,
+            ),
+            margin: subtract(
+              position.margin,
+              multiply(position.margin, closeProportion),
+            ),
+          },
+      { id: position.id },
+    );
+
+    await this.marketService.updateMarket(market.id, {
+      longOpenInterest:
+        position.side === OrderSide.LONG
+          ? subtract(market.longOpenInterest, sizeDelta)
+          : market.longOpenInterest,
+      shortOpenInterest:
+        position.side === OrderSide.SHORT
+          ? subtract(market.shortOpenInterest, sizeDelta)
+          : market.shortOpenInterest,
+    });
+
+    // 4. Record the trade
+    await this.recordTrade(tradeRecord);
+
+    return updatedPosition;
   }
 
   async editStopLoss(
@@ -774,6 +1604,106 @@ export class TradeService {
     }
   }
 
+  /**
+   * @dev Sets or clears the trailing stop of a position.
+   * Setting a new distance resets the watermark to the current price.
+   */
+  async editTrailingStop(
+    positionId: string,
+    userId: string,
+    trailingStopDistance: string | null,
+  ): Promise<Position> {
+    try {
+      // PART 1: Validations and Data Gathering
+      // -------------------------------------
+
+      // 1. Validate basic inputs and fetch position
+      if (!positionId) {
+        throw new BadRequestException('Position ID is required');
+      }
+      // Omitted from the body, only null removes the trailing stop
+      if (trailingStopDistance === undefined) {
+        throw new BadRequestException('Trailing stop distance is required');
+      }
+
+      const position = await this.getPosition(positionId);
+
+      if (!position) {
+        throw new NotFoundException(`Position ${positionId} not found`);
+      }
+
+      if (position.userId !== userId) {
+        throw new UnauthorizedException(
+          'Not authorized to modify this position',
+        );
+      }
+
+      if (position.status !== PositionStatus.OPEN) {
+        throw new BadRequestException(
+          'Cannot edit trailing stop of a closed position',
+        );
+      }
+
+      // 2. Validate trailing stop distance if provided
+      let trailingStopWatermark: string | null = null;
+      if (trailingStopDistance !== null) {
+        if (compare(trailingStopDistance, '0') <= 0) {
+          throw new BadRequestException(
+            'Trailing stop distance must be greater than 0',
+          );
+        }
+
+        trailingStopWatermark = await this.priceService.getMarkPrice(
+          position.marketId,
+        );
+
+        // A long's trailing stop can never trigger if it sits at or below 0
+        if (
+          position.side === OrderSide.LONG &&
+          compare(trailingStopDistance, trailingStopWatermark) >= 0
+        ) {
+          throw new BadRequestException(
+            'Trailing stop distance must be less than the current price',
+          );
+        }
+      }
+
+      // PART 2: Database Updates (all or nothing)
+      // -------------------------------------
+
+      const [updatedPosition] = await this.databaseService.update(
+        'positions',
+        {
+          ...position,
+          trailingStopDistance,
+          trailingStopWatermark,
+        },
+        { id: position.id },
+      );
+
+      // PART 3: Non-critical updates
+      // -------------------------------------
+
+      try {
+        await this.invalidatePositionCache(positionId, userId);
+        this.eventsService.emitPositionsUpdate(userId);
+      } catch (error) {
+        console.error('Failed to perform non-critical updates:', error);
+      }
+
+      return updatedPosition;
+    } catch (error) {
+      if (
+        error instanceof NotFoundException ||
+        error instanceof UnauthorizedException ||
+        error instanceof BadRequestException
+      ) {
+        throw error;
+      }
+      throw new InternalServerErrorException('Failed to edit trailing stop');
+    }
+  }
+
   async editMargin(
     positionId: string,
     userId: string,
@@ -815,10 +1745,14 @@ export class TradeService {
 
       const newMargin = add(position.margin, marginDelta);
 
-      // Check if withdrawal would exceed max leverage
+      // Check if withdrawal would exceed the max leverage of the position's tier
       if (compare(marginDelta, '0') < 0) {
         const newLeverage = divide(position.size, newMargin);
-        if (compare(newLeverage, market.maxLeverage) > 0) {
+        const { initialMarginRate } = getMarketRiskParams(
+          market,
+          position.size,
+        );
+        if (compare(newLeverage, divide('1', initialMarginRate)) > 0) {
           throw new BadRequestException(
             'Withdrawal would exceed maximum leverage',
           );
@@ -1101,6 +2035,183 @@ export class TradeService {
     }
   }
 
+  async getPositionView(positionId: string): Promise<PositionView> {
+    const position = await this.getPosition(positionId);
+
+    if (!position) {
+      throw new NotFoundException(`Position ${positionId} not found`);
+    }
+
+    const [positionView] = await this.toPositionViews([position]);
+
+    return positionView;
+  }
+
+  async getUserPositionViews(userId: string): Promise<PositionView[]> {
+    const positions = await this.getUserPositions(userId);
+
+    return this.toPositionViews(positions);
+  }
+
+  /**
+   * @dev Positions are still listed while their market's oracle is down, just
+   * without metrics.
+   */
+  private async getMarkPrice(marketId: string): Promise<string | undefined> {
+    try {
+      return await this.priceService.getMarkPrice(marketId);
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  /**
+   * @dev Adds live metrics to open positions. Mark prices and ADL queues are fetched once
+   * per market and collateral prices once per call, rather than per position.
+   */
+  private async toPositionViews(
+    positions: Position[],
+  ): Promise<PositionView[]> {
+    const openPositions = positions.filter(
+      (position) => position.status === PositionStatus.OPEN,
+    );
+
+    if (openPositions.length === 0) {
+      return positions;
+    }
+
+    const marketIds = [
+      ...new Set(openPositions.map((position) => position.marketId)),
+    ];
+
+    const [markPrices, markets, marketPositions, solPrice, usdcPrice] =
+      await Promise.all([
+        Promise.all(marketIds.map((marketId) => this.getMarkPrice(marketId))),
+        Promise.all(
+          marketIds.map((marketId) =>
+            this.marketService.getMarketById(marketId),
+          ),
+        ),
+        Promise.all(
+          marketIds.map((marketId) =>
+            this.databaseService.select<Position>('positions', {
+              eq: { marketId, status: PositionStatus.OPEN },
+            }),
+          ),
+        ),
+        this.priceService.getSolPrice(),
+        this.priceService.getUsdcPrice(),
+      ]);
+
+    const markPriceByMarket = new Map(
+      marketIds.map((marketId, i) => [marketId, markPrices[i]]),
+    );
+    const marketById = new Map(
+      marketIds.map((marketId, i) => [marketId, markets[i]]),
+    );
+
+    // Each side of a market has its own ADL queue
+    const adlQuintiles = new Map<string, number>();
+    marketIds.forEach((marketId, i) => {
+      if (!markPrices[i]) return;
+
+      for (const side of [OrderSide.LONG, OrderSide.SHORT]) {
+        calculateAdlQuintiles(
+          marketPositions[i].filter((position) => position.side === side),
+          markPrices[i],
+        ).forEach((quintile, positionId) =>
+          adlQuintiles.set(positionId, quintile),
+        );
+      }
+    });
+
+    const now = Date.now();
+
+    return positions.map((position) =>
+      position.status === PositionStatus.OPEN &&
+      markPriceByMarket.get(position.marketId)
+        ? {
+            ...position,
+            metrics: {
+              ...this.calculatePositionMetrics(
+                // Fees accrued since the last settlement count against collateral
+                applyPendingFees(
+                  position,
+                  calculatePendingFees(
+                    position,
+                    marketById.get(position.marketId),
+                    now,
+                  ),
+                  position.token === TokenType.SOL ? solPrice : usdcPrice,
+                ),
+                markPriceByMarket.get(position.marketId),
+                // Tiered by the position's own notional
+                getMarketRiskParams(
+                  marketById.get(position.marketId),
+                  position.size,
+                ),
+                solPrice,
+                usdcPrice,
+              ),
+              adlQuintile: adlQuintiles.get(position.id) ?? 0,
+            },
+          }
+        : position,
+    );
+  }
+
+  private calculatePositionMetrics(
+    position: Position,
+    markPrice: string,
+    riskParams: MarketRiskParams,
+    solPrice: number,
+    usdcPrice: number,
+  ): Omit<PositionMetrics, 'adlQuintile'> {
+    const unrealizedPnl = calculatePnlUSD(position, markPrice);
+
+    // Accumulated fees are stored in the position's collateral token
+    const tokenPrice = position.token === TokenType.SOL ? solPrice : usdcPrice;
+
+    const collateralValue = calculateCollateralValue(position, solPrice);
+    const equity = add(collateralValue, unrealizedPnl);
+    const maintenanceMargin = calculateMaintenanceRequirement(
+      position,
+      riskParams,
+    );
+
+    const liquidationPrice = calculateLiquidationPrice(
+      position,
+      solPrice,
+      riskParams,
+    );
+    const priceToLiquidation =
+      position.side === OrderSide.LONG
+        ? subtract(markPrice, liquidationPrice)
+        : subtract(liquidationPrice, markPrice);
+
+    return {
+      markPrice,
+      unrealizedPnl,
+      accumulatedFundingUsd: multiply(
+        position.accumulatedFunding || '0',
+        tokenPrice,
+      ),
+      accumulatedBorrowingFeeUsd: multiply(
+        position.accumulatedBorrowingFee || '0',
+        tokenPrice,
+      ),
+      collateralValue,
+      equity,
+      maintenanceMargin,
+      marginRatio:
+        compare(maintenanceMargin, '0') > 0
+          ? divide(equity, maintenanceMargin)
+          : '0',
+      liquidationPrice,
+      distanceToLiquidation: divide(priceToLiquidation, markPrice),
+    };
+  }
+
   async getPositionTrades(positionId: string): Promise<TradeEntity[]> {
     try {
       if (!positionId) {
@@ -1133,6 +2244,86 @@ export class TradeService {
     }
   }
 
+  async getPositionFunding(
+    positionId: string,
+    startTime?: string,
+    endTime?: string,
+  ): Promise<FundingPayment[]> {
+    try {
+      if (!positionId) {
+        throw new BadRequestException('Position ID is required');
+      }
+      validateTimeRange(startTime, endTime);
+
+      return this.cacheService.wrap(
+        getCacheKey.positionFunding(positionId, startTime, endTime),
+        async () => {
+          const payments = await this.databaseService.select<FundingPayment>(
+            'funding_payments',
+            {
+              eq: { positionId },
+              ...(startTime && { gte: { createdAt: startTime } }),
+              ...(endTime && { lte: { createdAt: endTime } }),
+              order: { column: 'createdAt', ascending: false },
+            },
+          );
+
+          return payments;
+        },
+        CACHE_TTL.FUNDING_HISTORY,
+      );
+    } catch (error) {
+      if (
+        error instanceof BadRequestException ||
+        error instanceof InternalServerErrorException
+      ) {
+        throw error;
+      }
+      throw new InternalServerErrorException('Failed to get position funding');
+    }
+  }
+
+  async getPositionBorrowing(
+    positionId: string,
+    startTime?: string,
+    endTime?: string,
+  ): Promise<BorrowingPayment[]> {
+    try {
+      if (!positionId) {
+        throw new BadRequestException('Position ID is required');
+      }
+      validateTimeRange(startTime, endTime);
+
+      return this.cacheService.wrap(
+        getCacheKey.borrowingHistory(positionId, startTime, endTime),
+        async () => {
+          const payments = await this.databaseService.select<BorrowingPayment>(
+            'borrowing_payments',
+            {
+              eq: { positionId },
+              ...(startTime && { gte: { createdAt: startTime } }),
+              ...(endTime && { lte: { createdAt: endTime } }),
+              order: { column: 'createdAt', ascending: false },
+            },
+          );
+
+          return payments;
+        },
+        CACHE_TTL.BORROWING_HISTORY,
+      );
+    } catch (error) {
+      if (
+        error instanceof BadRequestException ||
+        error instanceof InternalServerErrorException
+      ) {
+        throw error;
+      }
+      throw new InternalServerErrorException(
+        'Failed to get position borrowing fees',
+      );
+    }
+  }
+
   async getUserTrades(userId: string): Promise<TradeEntity[]> {
     try {
       if (!userId) {
@@ -1,18 +1,24 @@
-export interface LiquidityPool {
-  id: string;
-  totalLiquidity: string;
-  availableLiquidity: string;
-  utilizationRate: string;
-  maxUtilizationRate: string;
-  lpTokenSupply: string;
-  updatedAt: Date;
+import { LiquidityPool } from 'src/entities/liquidity-pool.entity';
+import { LPPosition } from 'src/entities/lp-position.entity';
+
+export interface LiquidityDepositRequest {
+  publicKey: string;
+  amount: string; // USDC taken from the user's available margin
+}
+
+export interface LiquidityWithdrawalRequest {
+  publicKey: string;
+  lpTokens: string; // LP tokens to burn for USDC at the current price
+}
+
+export interface LiquidityPoolInfo extends LiquidityPool {
+  nav: string; // Total liquidity less what traders stand to win on open positions
+  traderPnl: string; // Unrealized PnL of all open positions, the pool is their counterparty
+  totalOpenInterest: string; // Across all markets
+  withdrawableLiquidity: string; // What LPs can take out at the max utilization rate
+  lpTokenPrice: string;
 }
 
-export interface LPPosition {
-  userId: string;
-  lpTokens: string;
-  sharePercentage: string;
-  depositedAmount: string;
-  createdAt: Date;
-  updatedAt: Date;
+export interface LPPositionInfo extends LPPosition {
+  value: string; // USDC the position's LP tokens are worth
 }
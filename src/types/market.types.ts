@@ -1,7 +1,10 @@
+import { PriceSourceName } from './price.types';
+
 export enum MarketStatus {
   ACTIVE = 'ACTIVE',
-  PAUSED = 'PAUSED',
-  CLOSED = 'CLOSED',
+  PAUSED = 'PAUSED', // No opens and no limit fills, positions can still be reduced or closed
+  REDUCE_ONLY = 'REDUCE_ONLY', // No opens, reduce-only orders still fill
+  CLOSED = 'CLOSED', // Settled at settlementPrice, no trading
 }
 
 export interface CreateMarketDto {
@@ -10,12 +13,18 @@ export interface CreateMarketDto {
   poolAddress: string;
   maxLeverage: string;
   maintainanceMargin: string;
+  liquidationFee?: string;
+  riskTiers?: RiskTier[];
+  priceSources?: PriceSourceName[];
+  minPriceSources?: number;
   borrowingRate?: string;
   longOpenInterest?: string;
   shortOpenInterest?: string;
+  maxLongOpenInterest?: string;
+  maxShortOpenInterest?: string;
+  maxSkew?: string;
   maxFundingRate?: string;
   maxFundingVelocity?: string;
-  availableLiquidity?: string;
   cumulativeFeesSol?: string;
   cumulativeFeesUsdc?: string;
   unclaimedFeesSol?: string;
@@ -25,16 +34,22 @@ export interface CreateMarketDto {
 export interface UpdateMarketDto {
   maxLeverage?: string;
   maintainanceMargin?: string;
+  liquidationFee?: string;
+  riskTiers?: RiskTier[];
+  priceSources?: PriceSourceName[];
+  minPriceSources?: number;
   status?: MarketStatus;
   fundingRate?: string;
   borrowingRate?: string;
   longOpenInterest?: string;
   shortOpenInterest?: string;
+  maxLongOpenInterest?: string;
+  maxShortOpenInterest?: string;
+  maxSkew?: string;
   poolAddress?: string;
   maxFundingRate?: string;
   maxFundingVelocity?: string;
   impactPool?: string;
-  availableLiquidity?: string;
   cumulativeFeesSol?: string;
   cumulativeFeesUsdc?: string;
   unclaimedFeesSol?: string;
@@ -48,13 +63,35 @@ export interface MarketInfo {
   poolAddress: string;
   maxLeverage: string;
   maintainanceMargin: string;
+  liquidationFee: string;
   borrowingRate: string;
   fundingRate: string;
   fundingRateVelocity: string;
+  premiumIndex?: string;
   lastUpdatedTimestamp: number;
   longOpenInterest: string;
   shortOpenInterest: string;
+  maxLongOpenInterest?: string;
+  maxShortOpenInterest?: string;
+  maxSkew?: string;
   availableLiquidity: string;
+  remainingLongCapacity: string; // Open interest longs can still add
+  remainingShortCapacity: string;
+  status: MarketStatus;
+  settlementPrice?: string;
   volume24h: string;
-  lastPrice: string;
+  lastPrice: string; // vAMM price
+  markPrice?: string; // Undefined while the oracle is unavailable
+}
+
+export interface MarketRiskParams {
+  initialMarginRate: string; // Minimum margin / notional to open, 1 / maxLeverage
+  maintenanceMarginRate: string; // Minimum equity / notional to stay open
+  liquidationFeeRate: string; // Penalty on notional reserved for liquidation
+}
+
+export interface RiskTier {
+  maxNotional?: string; // Largest position in USD the tier covers, unset on the last tier
+  maxLeverage: string;
+  maintenanceMarginRate: string;
 }
@@ -0,0 +1,28 @@
+export enum PriceSourceName {
+  BINANCE = 'BINANCE',
+  JUPITER = 'JUPITER',
+  DAOS_FUN_CURVE = 'DAOS_FUN_CURVE',
+  MOCK = 'MOCK',
+}
+
+export interface PriceFeed {
+  price: number;
+  source: PriceSourceName;
+  updatedAt: number; // Unix ms of the last update
+}
+
+export interface MarketPrices {
+  markPrice: string; // Liquidations and order triggers
+  vammPrice: string; // Trade execution
+}
+
+export interface PriceFeedHealth {
+  feed: string; // SOL, USDC or a DAO ticker
+  price: number;
+  source: PriceSourceName;
+  updatedAt: number;
+  ageMs: number;
+  maxStalenessMs: number;
+  isStale: boolean;
+  lastCircuitBreakerAt?: number; // Last time a jump in this feed paused its market
+}
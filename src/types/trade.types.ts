@@ -13,9 +13,24 @@ export enum OrderSide {
 }
 
 export enum OrderStatus {
+  PENDING = 'PENDING', // Bracket leg waiting for its entry order to fill
   OPEN = 'OPEN',
   FILLED = 'FILLED',
   CANCELLED = 'CANCELLED',
+  EXPIRED = 'EXPIRED',
+}
+
+export enum TradeType {
+  LIQUIDATION = 'LIQUIDATION',
+  ADL = 'ADL', // Auto-deleveraged against a bankrupt position
+  SETTLEMENT = 'SETTLEMENT', // Closed at the final price of a CLOSED market
+}
+
+export enum TimeInForce {
+  GTC = 'GTC', // Good 'til cancelled
+  GTD = 'GTD', // Good 'til date --> requires expiresAt
+  IOC = 'IOC', // Immediate or cancel --> fills what it can now, expires the rest
+  FOK = 'FOK', // Fill or kill --> fills in full now or expires
 }
 
 export interface OrderRequest {
@@ -36,6 +51,22 @@ export interface OrderRequest {
 export interface LimitOrderRequest extends OrderRequest {
   price: string;
   type: OrderType;
+  timeInForce?: TimeInForce;
+  expiresAt?: Date;
+  reduceOnly?: boolean;
+}
+
+/**
+ * @dev Preview of an order before it is submitted. USD values unless noted otherwise.
+ */
+export interface TradeQuote {
+  executionPrice: string;
+  priceImpact: string;
+  requiredMargin: string;
+  fee: string; // In the order's collateral token
+  liquidationPrice: string;
+  hourlyFundingFee: string; // Negative when the position receives funding
+  hourlyBorrowingFee: string;
 }
 
 export interface UpdatePositionRequest {
@@ -62,5 +93,6 @@ export interface Trade {
   leverage: string;
   realizedPnl?: string;
   fee: string;
+  type?: TradeType; // Unset for regular trades
   createdAt: Date;
 }
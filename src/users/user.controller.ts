@@ -1,6 +1,7 @@
 import { Controller, Post, Body, ConflictException } from '@nestjs/common';
 import { UserService } from './user.service';
-import { User } from '../entities/user.entity';
+import { PositionMode, User } from '../entities/user.entity';
+import { validatePublicKey } from 'src/common/validators';
 
 @Controller('users')
 export class UserController {
@@ -28,4 +29,13 @@ export class UserController {
       }
     }
   }
+
+  @Post('position-mode')
+  async updatePositionMode(
+    @Body('publicKey') publicKey: string,
+    @Body('positionMode') positionMode: PositionMode,
+  ): Promise<User> {
+    validatePublicKey(publicKey);
+    return this.userService.updatePositionMode(publicKey, positionMode);
+  }
 }
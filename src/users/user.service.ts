@@ -1,5 +1,9 @@
-import { Injectable, NotFoundException } from '@nestjs/common';
-import { User } from '../entities/user.entity';
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { PositionMode, User } from '../entities/user.entity';
 import { MarginBalance } from 'src/entities/margin-balance.entity';
 import { MarginLock } from '../entities/margin-lock.entity';
 import { TokenType } from 'src/types/token.types';
@@ -43,6 +47,37 @@ export class UserService {
     return user;
   }
 
+  /**
+   * @dev Users without a stored mode (or without a user row yet) default to HEDGE.
+   */
+  async getPositionMode(publicKey: string): Promise<PositionMode> {
+    const [user] = await this.databaseService.select<User>('users', {
+      eq: { publicKey },
+      limit: 1,
+    });
+
+    return user?.positionMode || PositionMode.HEDGE;
+  }
+
+  async updatePositionMode(
+    publicKey: string,
+    positionMode: PositionMode,
+  ): Promise<User> {
+    if (!Object.values(PositionMode).includes(positionMode)) {
+      throw new BadRequestException('Invalid position mode');
+    }
+
+    await this.getUserByPublicKey(publicKey);
+
+    const [user] = await this.databaseService.update<User>(
+      'users',
+      { positionMode, updatedAt: new Date() },
+      { publicKey },
+    );
+
+    return user;
+  }
+
   async getMarginBalance(
     publicKey: string,
     token: TokenType,